@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBAdapter, createDynamoDBAdapter } from "../index";
+import { acquiredToken } from "../../../../core/src/__tests__/helpers";
+
+// Use DynamoDB Local (requires `docker run -d -p 8000:8000 amazon/dynamodb-local`)
+const client = new DynamoDBClient({
+  endpoint: process.env.DYNAMODB_ENDPOINT ?? "http://localhost:8000",
+  region: "local",
+  credentials: { accessKeyId: "local", secretAccessKey: "local" },
+});
+
+const adapter = createDynamoDBAdapter(client, {
+  tableName: "idempotkit_test",
+  maxInlineResultBytes: 1_000, // exercise chunking with small payloads
+});
+
+beforeAll(async () => {
+  await adapter.createTable();
+});
+
+beforeEach(async () => {
+  let cursor: string | undefined;
+  do {
+    const page = await adapter.scan("idemp:", { cursor, count: 100 });
+    await Promise.all(page.keys.map((k) => adapter.delete(k)));
+    cursor = page.cursor;
+  } while (cursor);
+});
+
+describe("DynamoDBAdapter", () => {
+  const key = "idemp:test-key";
+  const fingerprint = "fp123";
+  const result = { paymentId: "pay_123", items: [] };
+
+  it("should reject an offload threshold above the item limit", () => {
+    expect(
+      () =>
+        new DynamoDBAdapter(client, {
+          tableName: "idempotkit_test",
+          maxInlineResultBytes: 500_000,
+        }),
+    ).toThrow("maxInlineResultBytes");
+  });
+
+  describe("atomicCheckAndLock", () => {
+    it("should acquire lock for new key", async () => {
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+    });
+
+    it('should return "locked" for concurrent request', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () =>
+          adapter.atomicCheckAndLock(key, fingerprint, 5_000),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === "acquired")).toHaveLength(1);
+      expect(results.filter((r) => r.status === "locked")).toHaveLength(9);
+    });
+
+    it("should report a lock held with a different fingerprint", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      const res = await adapter.atomicCheckAndLock(key, "fp-other", 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: false });
+    });
+
+    it("should return existing result after commit", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({
+        status: "exists",
+        fingerprint,
+        result,
+        createdAt: expect.any(String),
+      });
+    });
+
+    it("should take over an expired lock", async () => {
+      const stale = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+      expect(acquiredToken(res)).not.toBe(acquiredToken(stale));
+    });
+  });
+
+  describe("commitResult", () => {
+    it("should reject commit without active lock", async () => {
+      await expect(
+        adapter.commitResult(key, "no-token", fingerprint, result, 10_000),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject commit from a stale owner", async () => {
+      const stale = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      await expect(
+        adapter.commitResult(
+          key,
+          acquiredToken(stale),
+          fingerprint,
+          result,
+          10_000,
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it("should offload results over the inline limit to chunk items", async () => {
+      const large = {
+        rows: Array.from({ length: 200 }, (_, i) => `row-€-${i}`),
+      };
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(
+        adapter.commitResult(
+          key,
+          acquiredToken(lock),
+          fingerprint,
+          large,
+          10_000,
+        ),
+      ).resolves.toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toMatchObject({ status: "exists", result: large });
+      await expect(adapter.get(key)).resolves.toMatchObject({ result: large });
+
+      // Chunk items are never listed as keys
+      const page = await adapter.scan("idemp:", { count: 100 });
+      expect(page.keys).toEqual([key]);
+    });
+  });
+
+  describe("commitFailure", () => {
+    it("should store a failed outcome that is returned on later checks", async () => {
+      const error = {
+        name: "TerminalError",
+        message: "card declined",
+        code: "CARD_DECLINED",
+        status: 402,
+      };
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(
+        adapter.commitFailure(
+          key,
+          acquiredToken(lock),
+          fingerprint,
+          error,
+          10_000,
+        ),
+      ).resolves.toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({
+        status: "exists",
+        fingerprint,
+        result: undefined,
+        error,
+        createdAt: expect.any(String),
+      });
+    });
+  });
+
+  describe("releaseLock / extendLock / markUnknown", () => {
+    it("should release an owned lock but never a committed result", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.releaseLock(key, "someone-else");
+      await expect(
+        adapter.atomicCheckAndLock(key, fingerprint, 5_000),
+      ).resolves.toEqual({ status: "locked", fingerprintMatches: true });
+
+      await adapter.releaseLock(key, acquiredToken(lock));
+      const next = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(next.status).toBe("acquired");
+
+      const token = acquiredToken(next);
+      await adapter.commitResult(key, token, fingerprint, result, 10_000);
+      await adapter.releaseLock(key, token);
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status).toBe("exists");
+    });
+
+    it("should only extend a lock owned by the caller", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 100);
+
+      await expect(
+        adapter.extendLock(key, "someone-else", 5_000),
+      ).resolves.toBe(false);
+      await expect(
+        adapter.extendLock(key, acquiredToken(lock), 5_000),
+      ).resolves.toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: true });
+    });
+
+    it("should hold an owned lock as unknown", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      await expect(
+        adapter.markUnknown(key, "someone-else", 10_000),
+      ).resolves.toBe(false);
+      await expect(
+        adapter.markUnknown(key, acquiredToken(lock), 10_000),
+      ).resolves.toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "unknown" });
+    });
+  });
+
+  describe("admin", () => {
+    it("should read a live record without its owner token", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+
+      const record = await adapter.get(key);
+      expect(record).toMatchObject({
+        status: "committed",
+        fingerprint,
+        result,
+        expiresAt: expect.any(String),
+      });
+      expect(record).not.toHaveProperty("token");
+      await expect(adapter.get("idemp:missing")).resolves.toBeNull();
+    });
+
+    it("should page through keys matching a prefix", async () => {
+      for (const k of ["idemp:a_1", "idemp:a_2", "idemp:a_3", "idemp:b_1"]) {
+        await adapter.atomicCheckAndLock(k, fingerprint, 5_000);
+      }
+
+      const keys: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await adapter.scan("idemp:a_", { cursor, count: 1 });
+        keys.push(...page.keys);
+        cursor = page.cursor;
+      } while (cursor);
+
+      expect(keys.sort()).toEqual(["idemp:a_1", "idemp:a_2", "idemp:a_3"]);
+    });
+
+    it("should force-unlock locks but never committed results", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(adapter.forceUnlock(key)).resolves.toBe(true);
+
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+      await expect(adapter.forceUnlock(key)).resolves.toBe(false);
+      await expect(adapter.delete(key)).resolves.toBe(true);
+      await expect(adapter.get(key)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { StoreError, StoreErrorKind } from "@idempotkit/core";
+
+/** Service errors that mean "try again" – throttling or a transient AWS fault */
+const RETRYABLE_ERRORS = new Set([
+  "ProvisionedThroughputExceededException",
+  "ThrottlingException",
+  "RequestLimitExceeded",
+  "InternalServerError",
+  "ServiceUnavailable",
+]);
+
+/** Network-level failures (no response from DynamoDB at all) */
+const UNAVAILABLE_CODES =
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|ENOTFOUND|EPIPE|TimeoutError/;
+
+/**
+ * Classify an AWS SDK v3 DynamoDB error.
+ *
+ * Uses error names rather than `instanceof`, so it works when the caller's
+ * client comes from a different copy of `@aws-sdk/client-dynamodb`.
+ */
+export function classifyDynamoDBError(error: unknown): StoreErrorKind {
+  if (!(error instanceof Error)) return "unknown";
+
+  const code = (error as { code?: unknown }).code;
+  if (
+    RETRYABLE_ERRORS.has(error.name) ||
+    UNAVAILABLE_CODES.test(error.name) ||
+    (typeof code === "string" && UNAVAILABLE_CODES.test(code))
+  ) {
+    return "unavailable";
+  }
+
+  if (error instanceof SyntaxError) return "data"; // JSON.parse of a stored value
+  return "unknown";
+}
+
+/**
+ * Wrap any error from a DynamoDB call as a classified StoreError.
+ */
+export function toStoreError(error: unknown): StoreError {
+  if (error instanceof StoreError) return error;
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new StoreError(
+    `Idempotency store error: ${errorMessage}`,
+    classifyDynamoDBError(error),
+    error,
+  );
+}
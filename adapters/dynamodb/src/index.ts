@@ -0,0 +1,715 @@
+import {
+  AttributeValue,
+  CreateTableCommand,
+  DeleteItemCommand,
+  DescribeTimeToLiveCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  ScanCommand,
+  UpdateItemCommand,
+  UpdateTimeToLiveCommand,
+  waitUntilTableExists,
+} from "@aws-sdk/client-dynamodb";
+import {
+  IdempotencyStore,
+  ScanPage,
+  StoredError,
+  StoredRecord,
+} from "@idempotkit/core";
+import { randomUUID } from "crypto";
+import { toStoreError } from "./errors";
+
+export interface DynamoDBAdapterOptions {
+  /**
+   * Table holding locks and results. It needs a string partition key only –
+   * see `createTable()`.
+   */
+  tableName: string;
+
+  /**
+   * Name of the table's partition key attribute.
+   * @default "pk"
+   */
+  partitionKey?: string;
+
+  /**
+   * Number attribute (epoch seconds) configured as the table's TTL attribute.
+   * @default "ttl"
+   */
+  ttlAttribute?: string;
+
+  /**
+   * Results whose JSON is larger than this (bytes) are offloaded to chunk
+   * items of this size, keeping every item under DynamoDB's 400KB limit.
+   * @default 350_000
+   */
+  maxInlineResultBytes?: number;
+}
+
+type Item = Record<string, AttributeValue>;
+
+/** Upper bound leaving room for attribute names and the other attributes */
+const MAX_ITEM_PAYLOAD_BYTES = 380_000;
+
+/**
+ * DynamoDB implementation of the IdempotencyStore interface.
+ *
+ * Built for serverless workloads:
+ * - Atomic lock acquisition via `PutItem` with `attribute_not_exists`
+ * - Compare-and-set commits via conditional `UpdateItem` on status + owner token
+ * - Native TTL attribute for cleanup (reads also check expiry, as DynamoDB
+ *   deletes expired items lazily)
+ * - Results over the 400KB item limit are split into chunk items
+ *
+ * All reads are strongly consistent. Expiry is computed from the caller's
+ * clock, so keep workers NTP-synchronized.
+ */
+export class DynamoDBAdapter implements IdempotencyStore {
+  private readonly table: string;
+  private readonly pk: string;
+  private readonly ttl: string;
+  private readonly chunkBytes: number;
+
+  /**
+   * Create a new DynamoDB adapter.
+   *
+   * @param client - Configured `DynamoDBClient` (owned by the caller)
+   * @param options - Table / attribute names and the offload threshold
+   *
+   * @example
+   *   const client = new DynamoDBClient({ region: "eu-west-1" });
+   *   const adapter = new DynamoDBAdapter(client, { tableName: "idempotency" });
+   */
+  constructor(
+    private client: DynamoDBClient,
+    options: DynamoDBAdapterOptions,
+  ) {
+    this.table = options.tableName;
+    this.pk = options.partitionKey ?? "pk";
+    this.ttl = options.ttlAttribute ?? "ttl";
+    this.chunkBytes = options.maxInlineResultBytes ?? 350_000;
+
+    if (this.chunkBytes < 1 || this.chunkBytes > MAX_ITEM_PAYLOAD_BYTES) {
+      throw new Error(
+        `maxInlineResultBytes must be between 1 and ${MAX_ITEM_PAYLOAD_BYTES}`,
+      );
+    }
+  }
+
+  /**
+   * Create the table (on-demand billing) and enable TTL on `ttlAttribute`.
+   * Idempotent – safe to run on every deploy. Most teams provision the table
+   * with IaC instead; this is mainly for local development and tests.
+   */
+  async createTable(): Promise<void> {
+    try {
+      await this.client.send(
+        new CreateTableCommand({
+          TableName: this.table,
+          AttributeDefinitions: [
+            { AttributeName: this.pk, AttributeType: "S" },
+          ],
+          KeySchema: [{ AttributeName: this.pk, KeyType: "HASH" }],
+          BillingMode: "PAY_PER_REQUEST",
+        }),
+      );
+    } catch (error) {
+      if (!isAwsError(error, "ResourceInUseException")) throw error;
+    }
+
+    await waitUntilTableExists(
+      { client: this.client, maxWaitTime: 120 },
+      { TableName: this.table },
+    );
+
+    const { TimeToLiveDescription } = await this.client.send(
+      new DescribeTimeToLiveCommand({ TableName: this.table }),
+    );
+    const ttlStatus = TimeToLiveDescription?.TimeToLiveStatus;
+    if (ttlStatus === "ENABLED" || ttlStatus === "ENABLING") return;
+
+    await this.client.send(
+      new UpdateTimeToLiveCommand({
+        TableName: this.table,
+        TimeToLiveSpecification: { AttributeName: this.ttl, Enabled: true },
+      }),
+    );
+  }
+
+  /**
+   * Atomically check for an existing result OR acquire a processing lock.
+   *
+   * Conditional `PutItem`: succeeds if the key is missing or its lock /
+   * retention has expired. Otherwise the live item is returned with the
+   * condition failure and interpreted.
+   *
+   * @param key - Full idempotency key (e.g., "idemp:abc123")
+   * @param fingerprint - Current request's payload fingerprint (stored with the lock, and
+   *   compared against a lock held by another request)
+   * @param lockTtlMs - How long to hold the lock if acquired (milliseconds)
+   *
+   * @returns One of four states:
+   *   - `{ status: "acquired", token }` → Proceed with handler execution
+   *   - `{ status: "locked", fingerprintMatches }` → Operation in progress (retry later,
+   *     or reject right away if the fingerprint differs)
+   *   - `{ status: "exists", ... }` → Return cached result (or stored failure)
+   *   - `{ status: "unknown" }` → Earlier attempt timed out and is held
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async atomicCheckAndLock(
+    key: string,
+    fingerprint: string,
+    lockTtlMs: number,
+  ): Promise<
+    | {
+        status: "exists";
+        fingerprint: string;
+        result: unknown;
+        error?: StoredError;
+        createdAt: string;
+      }
+    | { status: "locked"; fingerprintMatches?: boolean }
+    | { status: "unknown" }
+    | { status: "acquired"; token: string }
+  > {
+    try {
+      // An item can expire between the put and the read – retry once more then
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const token = randomUUID();
+        const now = Date.now();
+
+        try {
+          await this.client.send(
+            new PutItemCommand({
+              TableName: this.table,
+              Item: {
+                [this.pk]: { S: key },
+                status: { S: "processing" },
+                token: { S: token },
+                fingerprint: { S: fingerprint },
+                lock_acquired_at: { S: new Date(now).toISOString() },
+                ...this.expiry(now + lockTtlMs),
+              },
+              ConditionExpression:
+                "attribute_not_exists(#pk) OR #expires_at <= :now",
+              ExpressionAttributeNames: {
+                "#pk": this.pk,
+                "#expires_at": "expires_at",
+              },
+              ExpressionAttributeValues: { ":now": { N: String(now) } },
+              ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            }),
+          );
+          return { status: "acquired", token };
+        } catch (error) {
+          if (!isAwsError(error, "ConditionalCheckFailedException")) {
+            throw error;
+          }
+
+          // Older DynamoDB versions (and emulators) don't return the item
+          const item =
+            (error as { Item?: Item }).Item ?? (await this.getItem(key));
+          if (!item || isExpired(item)) continue;
+
+          if (item.status?.S === "processing") {
+            // Locks taken before fingerprints were stored cannot be compared
+            return item.fingerprint?.S === undefined
+              ? { status: "locked" }
+              : {
+                  status: "locked",
+                  fingerprintMatches: item.fingerprint.S === fingerprint,
+                };
+          }
+          if (item.status?.S === "unknown") {
+            return { status: "unknown" };
+          }
+
+          return {
+            status: "exists",
+            fingerprint: item.fingerprint?.S ?? "",
+            result: await this.readResult(key, item),
+            ...(item.error?.S
+              ? { error: JSON.parse(item.error.S) as StoredError }
+              : {}),
+            createdAt: item.created_at?.S ?? new Date().toISOString(),
+          };
+        }
+      }
+
+      throw new Error(`key ${key} kept expiring during lock acquisition`);
+    } catch (error) {
+      console.error("DynamoDB atomicCheckAndLock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Commit a successful result with retention policy.
+   *
+   * Conditional `UpdateItem`: only succeeds if the caller still owns the lock.
+   * Results larger than `maxInlineResultBytes` are written to chunk items
+   * first; chunks of a commit that loses the lock simply expire.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param fingerprint - Fingerprint of the request that produced this result
+   * @param result - Handler's return value (stored as JSON)
+   * @param retentionMs - How long to keep the result
+   *
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async commitResult(
+    key: string,
+    token: string,
+    fingerprint: string,
+    result: unknown,
+    retentionMs: number,
+  ) {
+    try {
+      const expiresAt = Date.now() + retentionMs;
+      const set: Item = {
+        status: { S: "committed" },
+        fingerprint: { S: fingerprint },
+        created_at: { S: new Date().toISOString() },
+        ...this.expiry(expiresAt),
+      };
+
+      const json = JSON.stringify(result);
+      if (json !== undefined) {
+        const bytes = Buffer.from(json, "utf8");
+        if (bytes.length <= this.chunkBytes) {
+          set.result = { S: json };
+        } else {
+          set.chunks = {
+            N: String(await this.writeChunks(key, token, bytes, expiresAt)),
+          };
+          set.chunk_id = { S: token };
+        }
+      }
+
+      return await this.updateLock(key, token, set);
+    } catch (error) {
+      console.error("DynamoDB commitResult failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Commit a terminal handler failure so retries replay it instead of re-running.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param fingerprint - Fingerprint of the request that failed
+   * @param error - Serialized terminal error (name, message, code, status)
+   * @param retentionMs - How long to keep the failure
+   *
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async commitFailure(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ) {
+    try {
+      return await this.updateLock(key, token, {
+        status: { S: "failed" },
+        fingerprint: { S: fingerprint },
+        error: { S: JSON.stringify(error) },
+        created_at: { S: new Date().toISOString() },
+        ...this.expiry(Date.now() + retentionMs),
+      });
+    } catch (err) {
+      console.error("DynamoDB commitFailure failed:", err);
+      throw toStoreError(err);
+    }
+  }
+
+  /**
+   * Release a processing lock early (best-effort).
+   *
+   * Conditional `DeleteItem`: a committed result or a lock owned by another
+   * request is never removed.
+   *
+   * @param key - Idempotency key to unlock
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   *
+   * @note Never throws – failures are silently ignored
+   */
+  async releaseLock(key: string, token: string) {
+    await this.client
+      .send(
+        new DeleteItemCommand({
+          TableName: this.table,
+          Key: { [this.pk]: { S: key } },
+          ConditionExpression: "#status = :processing AND #token = :token",
+          ExpressionAttributeNames: { "#status": "status", "#token": "token" },
+          ExpressionAttributeValues: {
+            ":processing": { S: "processing" },
+            ":token": { S: token },
+          },
+        }),
+      )
+      .catch(() => {
+        // Ignore errors – expired locks are taken over / removed by TTL anyway
+      });
+  }
+
+  /**
+   * Extend the lease of a processing lock held by a long-running handler.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - New lease duration from now (milliseconds)
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async extendLock(key: string, token: string, ttlMs: number) {
+    try {
+      return await this.updateLock(key, token, this.expiry(Date.now() + ttlMs));
+    } catch (error) {
+      console.error("DynamoDB extendLock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Replace a timed-out processing lock with an "unknown" record.
+   *
+   * Retries are rejected until the item expires, so a side effect that
+   * completes late is never duplicated.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - How long to hold the key
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async markUnknown(key: string, token: string, ttlMs: number) {
+    try {
+      return await this.updateLock(key, token, {
+        status: { S: "unknown" },
+        created_at: { S: new Date().toISOString() },
+        ...this.expiry(Date.now() + ttlMs),
+      });
+    } catch (error) {
+      console.error("DynamoDB markUnknown failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Read the live state of a key for admin tooling (no lock taken).
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns The record without its owner token, or `null` if missing / expired
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async get(key: string): Promise<StoredRecord | null> {
+    try {
+      const item = await this.getItem(key);
+      if (!item || isExpired(item)) return null;
+
+      return {
+        status: item.status.S as StoredRecord["status"],
+        fingerprint: item.fingerprint?.S,
+        result: await this.readResult(key, item),
+        error: item.error?.S
+          ? (JSON.parse(item.error.S) as StoredError)
+          : undefined,
+        createdAt: item.created_at?.S,
+        lockAcquiredAt: item.lock_acquired_at?.S,
+        expiresAt: new Date(Number(item.expires_at.N)).toISOString(),
+      };
+    } catch (error) {
+      console.error("DynamoDB get failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Delete a key in any state (admin purge), including offloaded chunks.
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if a live item was deleted
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async delete(key: string) {
+    try {
+      const { Attributes: old } = await this.client.send(
+        new DeleteItemCommand({
+          TableName: this.table,
+          Key: { [this.pk]: { S: key } },
+          ReturnValues: "ALL_OLD",
+        }),
+      );
+      if (!old) return false;
+
+      if (old.chunks?.N && old.chunk_id?.S) {
+        const chunkId = old.chunk_id.S;
+        await Promise.all(
+          Array.from({ length: Number(old.chunks.N) }, (_, i) =>
+            this.client.send(
+              new DeleteItemCommand({
+                TableName: this.table,
+                Key: { [this.pk]: { S: chunkKey(key, chunkId, i) } },
+              }),
+            ),
+          ),
+        );
+      }
+
+      return !isExpired(old);
+    } catch (error) {
+      console.error("DynamoDB delete failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * List live keys starting with `prefix`.
+   *
+   * ⚠️ Uses `Scan`, which reads the whole table – meant for support tooling,
+   * not request paths. `count` limits the items read per page, so pages may
+   * come back short (or empty) before the scan is complete.
+   *
+   * @param prefix - Full key prefix (matched literally)
+   * @param options - Cursor from the previous page and page size
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async scan(
+    prefix: string,
+    options: { cursor?: string; count: number },
+  ): Promise<ScanPage> {
+    try {
+      const { Items, LastEvaluatedKey } = await this.client.send(
+        new ScanCommand({
+          TableName: this.table,
+          ConsistentRead: true,
+          Limit: options.count,
+          ExclusiveStartKey: options.cursor
+            ? { [this.pk]: { S: options.cursor } }
+            : undefined,
+          // Chunk items have no status
+          FilterExpression:
+            "begins_with(#pk, :prefix) AND attribute_exists(#status) AND #expires_at > :now",
+          ProjectionExpression: "#pk",
+          ExpressionAttributeNames: {
+            "#pk": this.pk,
+            "#status": "status",
+            "#expires_at": "expires_at",
+          },
+          ExpressionAttributeValues: {
+            ":prefix": { S: prefix },
+            ":now": { N: String(Date.now()) },
+          },
+        }),
+      );
+
+      return {
+        keys: (Items ?? []).map((item) => item[this.pk].S as string),
+        cursor: LastEvaluatedKey?.[this.pk]?.S,
+      };
+    } catch (error) {
+      console.error("DynamoDB scan failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Remove a stuck processing lock or "unknown" item, whoever owns it.
+   * Committed results and failures are never removed.
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if a lock / unknown item was removed
+   *
+   * @throws StoreError if DynamoDB is unreachable or the request fails
+   */
+  async forceUnlock(key: string) {
+    try {
+      await this.client.send(
+        new DeleteItemCommand({
+          TableName: this.table,
+          Key: { [this.pk]: { S: key } },
+          ConditionExpression:
+            "#status IN (:processing, :unknown) AND #expires_at > :now",
+          ExpressionAttributeNames: {
+            "#status": "status",
+            "#expires_at": "expires_at",
+          },
+          ExpressionAttributeValues: {
+            ":processing": { S: "processing" },
+            ":unknown": { S: "unknown" },
+            ":now": { N: String(Date.now()) },
+          },
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (isAwsError(error, "ConditionalCheckFailedException")) return false;
+      console.error("DynamoDB forceUnlock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Compare-and-set on a live processing lock owned by `token`: SET the given
+   * attributes (a status change also drops the token).
+   */
+  private async updateLock(key: string, token: string, set: Item) {
+    // Placeholders for every name – most of them are DynamoDB reserved words
+    const names: Record<string, string> = {
+      "#status": "status",
+      "#token": "token",
+      "#expires_at": "expires_at",
+    };
+    const values: Item = {
+      ":processing": { S: "processing" },
+      ":token": { S: token },
+      ":now": { N: String(Date.now()) },
+    };
+    const assignments = Object.entries(set).map(([name, value], i) => {
+      names[`#a${i}`] = name;
+      values[`:a${i}`] = value;
+      return `#a${i} = :a${i}`;
+    });
+
+    try {
+      await this.client.send(
+        new UpdateItemCommand({
+          TableName: this.table,
+          Key: { [this.pk]: { S: key } },
+          UpdateExpression:
+            `SET ${assignments.join(", ")}` +
+            (set.status ? " REMOVE #token" : ""),
+          ConditionExpression:
+            "#status = :processing AND #token = :token AND #expires_at > :now",
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (isAwsError(error, "ConditionalCheckFailedException")) return false;
+      throw error;
+    }
+  }
+
+  private async getItem(key: string): Promise<Item | undefined> {
+    const { Item } = await this.client.send(
+      new GetItemCommand({
+        TableName: this.table,
+        Key: { [this.pk]: { S: key } },
+        ConsistentRead: true,
+      }),
+    );
+    return Item;
+  }
+
+  /** Split a serialized result into chunk items; returns the chunk count */
+  private async writeChunks(
+    key: string,
+    chunkId: string,
+    bytes: Buffer,
+    expiresAt: number,
+  ): Promise<number> {
+    const count = Math.ceil(bytes.length / this.chunkBytes);
+
+    await Promise.all(
+      Array.from({ length: count }, (_, i) =>
+        this.client.send(
+          new PutItemCommand({
+            TableName: this.table,
+            Item: {
+              [this.pk]: { S: chunkKey(key, chunkId, i) },
+              data: {
+                B: bytes.subarray(
+                  i * this.chunkBytes,
+                  (i + 1) * this.chunkBytes,
+                ),
+              },
+              ...this.expiry(expiresAt),
+            },
+          }),
+        ),
+      ),
+    );
+
+    return count;
+  }
+
+  private async readResult(key: string, item: Item): Promise<unknown> {
+    if (item.result?.S !== undefined) return JSON.parse(item.result.S);
+    if (!item.chunks?.N || !item.chunk_id?.S) return undefined;
+
+    const chunkId = item.chunk_id.S;
+    const chunks = await Promise.all(
+      Array.from({ length: Number(item.chunks.N) }, (_, i) =>
+        this.getItem(chunkKey(key, chunkId, i)),
+      ),
+    );
+    if (chunks.some((chunk) => !chunk?.data?.B)) {
+      throw new Error(`offloaded result for key ${key} is incomplete`);
+    }
+
+    return JSON.parse(
+      Buffer.concat(chunks.map((chunk) => chunk!.data.B!)).toString("utf8"),
+    );
+  }
+
+  /** `expires_at` (ms, checked on read) + the native TTL attribute (seconds) */
+  private expiry(expiresAt: number): Item {
+    return {
+      expires_at: { N: String(expiresAt) },
+      [this.ttl]: { N: String(Math.ceil(expiresAt / 1000)) },
+    };
+  }
+}
+
+/**
+ * Factory matching the Postgres adapter's `createPostgresAdapter`.
+ *
+ * @example
+ *   const engine = new IdempotencyEngine(
+ *     createDynamoDBAdapter(new DynamoDBClient({}), { tableName: "idempotency" }),
+ *     { lockTtl: 30_000, retention: 86_400_000, onAudit },
+ *   );
+ */
+export function createDynamoDBAdapter(
+  client: DynamoDBClient,
+  options: DynamoDBAdapterOptions,
+): DynamoDBAdapter {
+  return new DynamoDBAdapter(client, options);
+}
+
+export { classifyDynamoDBError } from "./errors";
+
+function chunkKey(key: string, chunkId: string, index: number): string {
+  return `${key}#chunk#${chunkId}#${index}`;
+}
+
+/** Name-based, so it works across copies of `@aws-sdk/client-dynamodb` */
+function isAwsError(error: unknown, name: string): boolean {
+  return error instanceof Error && error.name === name;
+}
+
+function isExpired(item: Item): boolean {
+  return Number(item.expires_at?.N ?? 0) <= Date.now();
+}
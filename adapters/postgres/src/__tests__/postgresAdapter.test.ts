@@ -0,0 +1,442 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { newDb, DataType, IMemoryDb } from "pg-mem";
+import { Pool } from "pg";
+import { StoreError } from "@idempotkit/core";
+import {
+  PostgresAdapter,
+  classifyPostgresError,
+  createPostgresAdapter,
+} from "../index";
+import { acquiredToken } from "../../../../core/src/__tests__/helpers";
+
+// In-memory Postgres (pg-mem). To run against a real server instead, swap in
+// `new Pool({ connectionString: process.env.DATABASE_URL })`.
+let db: IMemoryDb;
+let pool: Pool;
+let adapter: PostgresAdapter;
+
+beforeEach(async () => {
+  // noAstCoverageCheck: pg-mem rejects re-running CREATE TABLE IF NOT EXISTS
+  db = newDb({ noAstCoverageCheck: true });
+  // pg-mem has no plpgsql/triggers – skip the append-only trigger DDL
+  db.public.interceptQueries((sql) =>
+    /plpgsql|TRIGGER/i.test(sql) ? [] : null,
+  );
+  // ...nor starts_with() (Postgres 11+)
+  db.public.registerFunction({
+    name: "starts_with",
+    args: [DataType.text, DataType.text],
+    returns: DataType.bool,
+    implementation: (value: string, prefix: string) => value.startsWith(prefix),
+  });
+
+  const { Pool: MemPool } = db.adapters.createPg();
+  pool = new MemPool();
+  adapter = createPostgresAdapter(pool, { schema: "payments" });
+  await adapter.migrate();
+});
+
+describe("PostgresAdapter", () => {
+  const key = "idemp:test-key";
+  const fingerprint = "fp123";
+  const result = { paymentId: "pay_123", items: [] };
+
+  describe("migrate", () => {
+    it("should apply every migration once", async () => {
+      await expect(adapter.migrate()).resolves.toEqual([]);
+
+      const { rows } = await pool.query(
+        `SELECT id FROM "payments"."idempotkit_migrations" ORDER BY id`,
+      );
+      expect(rows.map((row) => row.id)).toEqual([
+        "001_create_idempotency_keys",
+        "002_create_audit_table",
+        "003_audit_append_only",
+      ]);
+    });
+
+    it("should reject unsafe identifiers", () => {
+      expect(
+        () => new PostgresAdapter(pool, { schema: 'x"; DROP TABLE y; --' }),
+      ).toThrow("Invalid Postgres identifier");
+    });
+  });
+
+  describe("atomicCheckAndLock", () => {
+    it("should acquire lock for new key", async () => {
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+    });
+
+    it('should return "locked" for concurrent request', async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: true });
+    });
+
+    it("should report a lock held with a different fingerprint", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      const res = await adapter.atomicCheckAndLock(key, "fp-other", 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: false });
+    });
+
+    it("should return existing result after commit", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({
+        status: "exists",
+        fingerprint,
+        result,
+        createdAt: expect.any(String),
+      });
+    });
+
+    it("should tell a stored null result from no result", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        null,
+        10_000,
+      );
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status === "exists" && res.result).toBeNull();
+      expect((await adapter.get(key))?.result).toBeNull();
+
+      const other = await adapter.atomicCheckAndLock(
+        "idemp:void",
+        fingerprint,
+        5_000,
+      );
+      await adapter.commitResult(
+        "idemp:void",
+        acquiredToken(other),
+        fingerprint,
+        undefined,
+        10_000,
+      );
+      const none = await adapter.atomicCheckAndLock(
+        "idemp:void",
+        fingerprint,
+        5_000,
+      );
+      expect(none.status === "exists" && none.result).toBeUndefined();
+    });
+
+    it("should take over an expired lock", async () => {
+      const stale = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+      expect(acquiredToken(res)).not.toBe(acquiredToken(stale));
+    });
+  });
+
+  describe("commitResult", () => {
+    it("should reject commit without active lock", async () => {
+      await expect(
+        adapter.commitResult(key, "no-token", fingerprint, result, 10_000),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject double-commit", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const token = acquiredToken(lock);
+      await adapter.commitResult(key, token, fingerprint, result, 10_000);
+
+      await expect(
+        adapter.commitResult(key, token, fingerprint, result, 10_000),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject commit from a stale owner", async () => {
+      const stale = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      await expect(
+        adapter.commitResult(
+          key,
+          acquiredToken(stale),
+          fingerprint,
+          result,
+          10_000,
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it("should apply retentionPolicy as a floor", async () => {
+      const cbnAdapter = new PostgresAdapter(pool, {
+        schema: "payments",
+        retentionPolicy: "7 DAYS",
+      });
+      const lock = await cbnAdapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await cbnAdapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        86_400_000,
+      );
+
+      const { rows } = await pool.query(
+        `SELECT expires_at FROM "payments"."idempotency_keys" WHERE key = $1`,
+        [key],
+      );
+      const expiresInMs = new Date(rows[0].expires_at).getTime() - Date.now();
+      expect(expiresInMs).toBeGreaterThan(6 * 86_400_000);
+    });
+  });
+
+  describe("commitFailure", () => {
+    it("should store a failed outcome that is returned on later checks", async () => {
+      const error = {
+        name: "TerminalError",
+        message: "card declined",
+        code: "CARD_DECLINED",
+        status: 402,
+      };
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(
+        adapter.commitFailure(
+          key,
+          acquiredToken(lock),
+          fingerprint,
+          error,
+          10_000,
+        ),
+      ).resolves.toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({
+        status: "exists",
+        fingerprint,
+        result: undefined,
+        error,
+        createdAt: expect.any(String),
+      });
+    });
+  });
+
+  describe("releaseLock / extendLock / markUnknown", () => {
+    it("should release an owned lock", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.releaseLock(key, acquiredToken(lock));
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status).toBe("acquired");
+    });
+
+    it("should never release a committed result", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const token = acquiredToken(lock);
+      await adapter.commitResult(key, token, fingerprint, result, 10_000);
+      await adapter.releaseLock(key, token);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status).toBe("exists");
+    });
+
+    it("should only extend a lock owned by the caller", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 100);
+
+      await expect(
+        adapter.extendLock(key, "someone-else", 5_000),
+      ).resolves.toBe(false);
+      await expect(
+        adapter.extendLock(key, acquiredToken(lock), 5_000),
+      ).resolves.toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: true });
+    });
+
+    it("should hold an owned lock as unknown", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      await expect(
+        adapter.markUnknown(key, "someone-else", 10_000),
+      ).resolves.toBe(false);
+      await expect(
+        adapter.markUnknown(key, acquiredToken(lock), 10_000),
+      ).resolves.toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "unknown" });
+    });
+  });
+
+  describe("admin", () => {
+    it("should read a live record without its owner token", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+
+      const record = await adapter.get(key);
+      expect(record).toMatchObject({
+        status: "committed",
+        fingerprint,
+        result,
+      });
+      expect(record).not.toHaveProperty("token");
+      await expect(adapter.get("idemp:missing")).resolves.toBeNull();
+    });
+
+    it("should page through keys matching a prefix", async () => {
+      for (const k of ["idemp:a_1", "idemp:a_2", "idemp:a_3", "idemp:ab"]) {
+        await adapter.atomicCheckAndLock(k, fingerprint, 5_000);
+      }
+
+      const first = await adapter.scan("idemp:a_", { count: 2 });
+      expect(first.keys).toEqual(["idemp:a_1", "idemp:a_2"]);
+      const second = await adapter.scan("idemp:a_", {
+        cursor: first.cursor,
+        count: 2,
+      });
+      expect(second).toEqual({ keys: ["idemp:a_3"], cursor: undefined });
+    });
+
+    it("should force-unlock locks but never committed results", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(adapter.forceUnlock(key)).resolves.toBe(true);
+
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+      await expect(adapter.forceUnlock(key)).resolves.toBe(false);
+      await expect(adapter.delete(key)).resolves.toBe(true);
+      await expect(adapter.get(key)).resolves.toBeNull();
+    });
+  });
+
+  describe("recordAudit", () => {
+    it("should append events to the audit table", async () => {
+      await adapter.recordAudit({
+        timestamp: new Date().toISOString(),
+        key,
+        action: "stored",
+        fingerprint,
+        metadata: { requestId: "req_123" },
+      });
+
+      const { rows } = await pool.query(
+        `SELECT key, action, fingerprint, metadata FROM "payments"."idempotency_audit"`,
+      );
+      expect(rows).toEqual([
+        {
+          key,
+          action: "stored",
+          fingerprint,
+          metadata: { requestId: "req_123" },
+        },
+      ]);
+    });
+
+    it("should append a batch of events in order", async () => {
+      await adapter.recordAuditMany(
+        ["acquired", "stored", "lock_released"].map((action) => ({
+          timestamp: new Date().toISOString(),
+          key,
+          action: action as "acquired" | "stored" | "lock_released",
+          fingerprint,
+        })),
+      );
+
+      const { rows } = await pool.query(
+        `SELECT action, metadata FROM "payments"."idempotency_audit" ORDER BY id`,
+      );
+      expect(rows).toEqual([
+        { action: "acquired", metadata: null },
+        { action: "stored", metadata: null },
+        { action: "lock_released", metadata: null },
+      ]);
+    });
+  });
+
+  describe("errors", () => {
+    it("should classify Postgres errors", () => {
+      const pgError = (code: string) =>
+        Object.assign(new Error(`SQLSTATE ${code}`), { code });
+
+      expect(classifyPostgresError(pgError("08006"))).toBe("unavailable");
+      expect(classifyPostgresError(pgError("53300"))).toBe("unavailable");
+      expect(classifyPostgresError(pgError("57P01"))).toBe("unavailable");
+      expect(classifyPostgresError(pgError("25006"))).toBe("failover");
+      expect(
+        classifyPostgresError(
+          Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:5432"), {
+            code: "ECONNREFUSED",
+          }),
+        ),
+      ).toBe("unavailable");
+      expect(
+        classifyPostgresError(new Error("Connection terminated unexpectedly")),
+      ).toBe("unavailable");
+      expect(classifyPostgresError(pgError("42P01"))).toBe("unknown"); // undefined_table
+      expect(classifyPostgresError(pgError("23505"))).toBe("unknown"); // unique_violation
+      expect(classifyPostgresError(new TypeError("boom"))).toBe("unknown");
+    });
+
+    it("should throw a non-retryable StoreError for a missing table", async () => {
+      const unmigrated = createPostgresAdapter(pool, { schema: "missing" });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const err = await unmigrated
+        .atomicCheckAndLock(key, fingerprint, 5_000)
+        .catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(StoreError);
+      expect(err).toMatchObject({ retryable: false });
+    });
+  });
+
+  describe("sweepExpired", () => {
+    it("should delete only expired rows", async () => {
+      await adapter.atomicCheckAndLock("idemp:expired", fingerprint, 50);
+      await adapter.atomicCheckAndLock("idemp:live", fingerprint, 5_000);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await expect(adapter.sweepExpired()).resolves.toBe(1);
+
+      const { rows } = await pool.query(
+        `SELECT key FROM "payments"."idempotency_keys"`,
+      );
+      expect(rows).toEqual([{ key: "idemp:live" }]);
+    });
+
+    it("should stop the sweeper on close", async () => {
+      const sweep = vi.spyOn(adapter, "sweepExpired");
+      adapter.startSweeper(10);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await adapter.close();
+
+      const calls = sweep.mock.calls.length;
+      expect(calls).toBeGreaterThan(0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(sweep.mock.calls.length).toBe(calls);
+    });
+  });
+});
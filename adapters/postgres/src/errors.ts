@@ -0,0 +1,73 @@
+import { StoreError, StoreErrorKind } from "@idempotkit/core";
+
+/**
+ * SQLSTATE codes (by prefix) that mean the server cannot serve the query
+ * right now – the same query may succeed once it is back.
+ */
+const UNAVAILABLE_SQLSTATES = [
+  "08", // connection_exception (refused, lost, rejected)
+  "53", // insufficient_resources (too_many_connections, out of memory, disk full)
+  "57P", // admin_shutdown, crash_shutdown, cannot_connect_now
+  "57014", // query_canceled (statement_timeout)
+  "40001", // serialization_failure
+  "40P01", // deadlock_detected
+];
+
+/** Writes sent to a standby – the primary is down or was demoted */
+const FAILOVER_SQLSTATES = ["25006"]; // read_only_sql_transaction
+
+/** Error codes / messages node-postgres uses for connection-level failures */
+const UNAVAILABLE_PATTERNS = [
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|ENOTFOUND|EPIPE/,
+  /Connection terminated/i,
+  /timeout exceeded when trying to connect/i,
+  /Client has encountered a connection error/i,
+];
+
+/**
+ * Classify a node-postgres error.
+ *
+ * Server errors carry a five-character SQLSTATE in `code`; only connection,
+ * resource and concurrency conditions are retryable. Schema errors (missing
+ * table or column), constraint violations and bugs are "unknown", so they
+ * fail closed instead of counting as an outage.
+ */
+export function classifyPostgresError(error: unknown): StoreErrorKind {
+  if (!(error instanceof Error)) return "unknown";
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && /^[0-9A-Z]{5}$/.test(code)) {
+    if (FAILOVER_SQLSTATES.includes(code)) return "failover";
+    if (UNAVAILABLE_SQLSTATES.some((prefix) => code.startsWith(prefix))) {
+      return "unavailable";
+    }
+    return "unknown";
+  }
+
+  if (
+    UNAVAILABLE_PATTERNS.some(
+      (pattern) =>
+        pattern.test(error.message) ||
+        (typeof code === "string" && pattern.test(code)),
+    )
+  ) {
+    return "unavailable";
+  }
+
+  if (error instanceof SyntaxError) return "data"; // JSON.parse of a stored value
+  return "unknown";
+}
+
+/**
+ * Wrap any error from a Postgres call as a classified StoreError.
+ */
+export function toStoreError(error: unknown): StoreError {
+  if (error instanceof StoreError) return error;
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new StoreError(
+    `Idempotency store error: ${errorMessage}`,
+    classifyPostgresError(error),
+    error,
+  );
+}
@@ -0,0 +1,654 @@
+import {
+  AuditEvent,
+  IdempotencyStore,
+  ScanPage,
+  StoredError,
+  StoredRecord,
+} from "@idempotkit/core";
+import { randomUUID } from "crypto";
+import { Pool } from "pg";
+import {
+  CHECK_AND_LOCK,
+  COMMIT,
+  CREATE_MIGRATIONS_TABLE,
+  DELETE_KEY,
+  EXTEND_LOCK,
+  FORCE_UNLOCK,
+  INSERT_AUDIT,
+  INSERT_AUDIT_MANY,
+  MARK_UNKNOWN,
+  MIGRATIONS,
+  RELEASE_LOCK,
+  SCAN_KEYS,
+  SELECT_LIVE,
+  SELECT_RECORD,
+  SWEEP_EXPIRED,
+  Tables,
+} from "./sql";
+import { toStoreError } from "./errors";
+
+export interface PostgresAdapterOptions {
+  /**
+   * Schema holding the idempotency and audit tables.
+   * @default "public"
+   */
+  schema?: string;
+
+  /**
+   * Table holding locks and committed results.
+   * @default "idempotency_keys"
+   */
+  table?: string;
+
+  /**
+   * Append-only audit table written by `recordAudit`.
+   * @default "idempotency_audit"
+   */
+  auditTable?: string;
+
+  /**
+   * Minimum retention for committed results, enforced by the adapter on top
+   * of the engine's `retention` (whichever is longer wins).
+   * Either milliseconds or an interval string like "7 DAYS" (CBN) or "24 HOURS".
+   * @default 0 (engine retention only)
+   */
+  retentionPolicy?: number | string;
+}
+
+const INTERVAL_UNITS_MS: Record<string, number> = {
+  millisecond: 1,
+  second: 1_000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/**
+ * PostgreSQL implementation of the IdempotencyStore interface.
+ *
+ * Built for regulated workloads:
+ * - ACID durability for locks and results (survives cache/node crashes)
+ * - Atomic lock acquisition via `INSERT ... ON CONFLICT`
+ * - Compare-and-set commits guarded by the lock owner token
+ * - Append-only audit table (UPDATE / DELETE / TRUNCATE rejected by trigger)
+ *
+ * Run `migrate()` once at deploy time before serving traffic, and either call
+ * `startSweeper()` or schedule `sweepExpired()` to purge expired rows.
+ *
+ * Errors are thrown as `StoreError`: connection loss, resource exhaustion,
+ * timeouts and standby writes are retryable ("unavailable" / "failover");
+ * schema errors, constraint violations and bugs are not ("unknown").
+ *
+ * ⚠️ Requires PostgreSQL 11+.
+ */
+export class PostgresAdapter implements IdempotencyStore {
+  private readonly tables: Tables;
+  private readonly retentionFloorMs: number;
+  private sweeper?: ReturnType<typeof setInterval>;
+
+  /**
+   * Create a new Postgres adapter.
+   *
+   * @param pool - Configured `pg` Pool (owned by the caller – not closed by `close()`)
+   * @param options - Schema / table names and retention policy
+   *
+   * @example
+   *   const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+   *   const adapter = new PostgresAdapter(pool, { schema: "payments" });
+   *   await adapter.migrate();
+   */
+  constructor(
+    private pool: Pool,
+    options: PostgresAdapterOptions = {},
+  ) {
+    const schema = options.schema ?? "public";
+    const table = options.table ?? "idempotency_keys";
+    const auditTable = options.auditTable ?? "idempotency_audit";
+
+    this.tables = {
+      schema: quoteIdent(schema),
+      keys: `${quoteIdent(schema)}.${quoteIdent(table)}`,
+      audit: `${quoteIdent(schema)}.${quoteIdent(auditTable)}`,
+      migrations: `${quoteIdent(schema)}.${quoteIdent("idempotkit_migrations")}`,
+      keysName: table,
+      auditName: auditTable,
+    };
+    this.retentionFloorMs = parseRetentionPolicy(options.retentionPolicy ?? 0);
+  }
+
+  /**
+   * Apply pending schema migrations (idempotent – safe to run on every deploy).
+   *
+   * Each migration runs in its own transaction and is recorded in
+   * `<schema>.idempotkit_migrations`.
+   *
+   * @returns IDs of the migrations applied by this call
+   */
+  async migrate(): Promise<string[]> {
+    const client = await this.pool.connect();
+    const applied: string[] = [];
+
+    try {
+      await client.query(`CREATE SCHEMA IF NOT EXISTS ${this.tables.schema}`);
+      await client.query(CREATE_MIGRATIONS_TABLE(this.tables));
+
+      const { rows } = await client.query<{ id: string }>(
+        `SELECT id FROM ${this.tables.migrations}`,
+      );
+      const done = new Set(rows.map((row) => row.id));
+
+      for (const migration of MIGRATIONS) {
+        if (done.has(migration.id)) continue;
+
+        await client.query("BEGIN");
+        try {
+          for (const statement of migration.statements(this.tables)) {
+            await client.query(statement);
+          }
+          await client.query(
+            `INSERT INTO ${this.tables.migrations} (id) VALUES ($1)`,
+            [migration.id],
+          );
+          await client.query("COMMIT");
+          applied.push(migration.id);
+        } catch (error) {
+          await client.query("ROLLBACK");
+          throw error;
+        }
+      }
+
+      return applied;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Atomically check for an existing result OR acquire a processing lock.
+   *
+   * Inserts a "processing" row, taking over rows whose lock or retention has
+   * expired. If the row belongs to someone else, its live state is returned.
+   *
+   * @param key - Full idempotency key (e.g., "idemp:abc123")
+   * @param fingerprint - Current request's payload fingerprint (stored with the lock, and
+   *   compared against a lock held by another request)
+   * @param lockTtlMs - How long to hold the lock if acquired (milliseconds)
+   *
+   * @returns One of four states:
+   *   - `{ status: "acquired", token }` → Proceed with handler execution
+   *   - `{ status: "locked", fingerprintMatches }` → Operation in progress (retry later,
+   *     or reject right away if the fingerprint differs)
+   *   - `{ status: "exists", ... }` → Return cached result (or stored failure)
+   *   - `{ status: "unknown" }` → Earlier attempt timed out and is held
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async atomicCheckAndLock(
+    key: string,
+    fingerprint: string,
+    lockTtlMs: number,
+  ): Promise<
+    | {
+        status: "exists";
+        fingerprint: string;
+        result: unknown;
+        error?: StoredError;
+        createdAt: string;
+      }
+    | { status: "locked"; fingerprintMatches?: boolean }
+    | { status: "unknown" }
+    | { status: "acquired"; token: string }
+  > {
+    try {
+      // A row can expire between the upsert and the read – retry once more then
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const token = randomUUID();
+        const lock = await this.pool.query<{ token: string }>(
+          CHECK_AND_LOCK(this.tables),
+          [key, token, toInterval(lockTtlMs), fingerprint],
+        );
+
+        if (lock.rows[0]?.token === token) {
+          return { status: "acquired", token };
+        }
+
+        const { rows } = await this.pool.query(SELECT_LIVE(this.tables), [key]);
+        const row = rows[0];
+        if (!row) continue;
+
+        if (row.status === "processing") {
+          // Locks taken before fingerprints were stored cannot be compared
+          return row.fingerprint == null
+            ? { status: "locked" }
+            : {
+                status: "locked",
+                fingerprintMatches: row.fingerprint === fingerprint,
+              };
+        }
+        if (row.status === "unknown") {
+          return { status: "unknown" };
+        }
+
+        return {
+          status: "exists",
+          fingerprint: row.fingerprint ?? "",
+          result: row.has_result ? row.result : undefined,
+          ...(row.error ? { error: row.error as StoredError } : {}),
+          createdAt: toIsoString(row.created_at),
+        };
+      }
+
+      throw new Error(`key ${key} kept expiring during lock acquisition`);
+    } catch (error) {
+      console.error("Postgres atomicCheckAndLock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Commit a successful result with retention policy.
+   *
+   * Conditional `UPDATE`: only succeeds if the caller still owns the lock.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param fingerprint - Fingerprint of the request that produced this result
+   * @param result - Handler's return value (stored as JSONB)
+   * @param retentionMs - How long to keep the result (raised to `retentionPolicy` if shorter)
+   *
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async commitResult(
+    key: string,
+    token: string,
+    fingerprint: string,
+    result: unknown,
+    retentionMs: number,
+  ) {
+    return this.commit(
+      key,
+      token,
+      fingerprint,
+      "committed",
+      JSON.stringify(result) ?? null,
+      null,
+      retentionMs,
+    );
+  }
+
+  /**
+   * Commit a terminal handler failure so retries replay it instead of re-running.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param fingerprint - Fingerprint of the request that failed
+   * @param error - Serialized terminal error (name, message, code, status)
+   * @param retentionMs - How long to keep the failure (raised to `retentionPolicy` if shorter)
+   *
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async commitFailure(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ) {
+    return this.commit(
+      key,
+      token,
+      fingerprint,
+      "failed",
+      null,
+      JSON.stringify(error),
+      retentionMs,
+    );
+  }
+
+  private async commit(
+    key: string,
+    token: string,
+    fingerprint: string,
+    status: "committed" | "failed",
+    resultJson: string | null,
+    errorJson: string | null,
+    retentionMs: number,
+  ) {
+    try {
+      const { rowCount } = await this.pool.query(COMMIT(this.tables), [
+        key,
+        token,
+        status,
+        fingerprint,
+        resultJson,
+        errorJson,
+        toInterval(Math.max(retentionMs, this.retentionFloorMs)),
+      ]);
+
+      return rowCount === 1;
+    } catch (error) {
+      console.error("Postgres commitResult failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Release a processing lock early (best-effort).
+   *
+   * Compare-and-delete: a committed result or a lock owned by another
+   * request is never removed.
+   *
+   * @param key - Idempotency key to unlock
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   *
+   * @note Never throws – failures are silently ignored
+   */
+  async releaseLock(key: string, token: string) {
+    await this.pool.query(RELEASE_LOCK(this.tables), [key, token]).catch(() => {
+      // Ignore errors – expired locks are taken over / swept anyway
+    });
+  }
+
+  /**
+   * Extend the lease of a processing lock held by a long-running handler.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - New lease duration from now (milliseconds)
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async extendLock(key: string, token: string, ttlMs: number) {
+    try {
+      const { rowCount } = await this.pool.query(EXTEND_LOCK(this.tables), [
+        key,
+        token,
+        toInterval(ttlMs),
+      ]);
+
+      return rowCount === 1;
+    } catch (error) {
+      console.error("Postgres extendLock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Replace a timed-out processing lock with an "unknown" record.
+   *
+   * Retries are rejected until the row expires, so a side effect that
+   * completes late is never duplicated.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - How long to hold the key (raised to `retentionPolicy` if shorter)
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async markUnknown(key: string, token: string, ttlMs: number) {
+    try {
+      const { rowCount } = await this.pool.query(MARK_UNKNOWN(this.tables), [
+        key,
+        token,
+        toInterval(Math.max(ttlMs, this.retentionFloorMs)),
+      ]);
+
+      return rowCount === 1;
+    } catch (error) {
+      console.error("Postgres markUnknown failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Read the live state of a key for admin tooling (no lock taken).
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns The record without its owner token, or `null` if missing / expired
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async get(key: string): Promise<StoredRecord | null> {
+    try {
+      const { rows } = await this.pool.query(SELECT_RECORD(this.tables), [key]);
+      const row = rows[0];
+      if (!row) return null;
+
+      return {
+        status: row.status,
+        fingerprint: row.fingerprint ?? undefined,
+        result: row.has_result ? row.result : undefined,
+        error: row.error ?? undefined,
+        createdAt: row.created_at ? toIsoString(row.created_at) : undefined,
+        lockAcquiredAt: row.lock_acquired_at
+          ? toIsoString(row.lock_acquired_at)
+          : undefined,
+        expiresAt: toIsoString(row.expires_at),
+      };
+    } catch (error) {
+      console.error("Postgres get failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Delete a live key in any state (admin purge).
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if a live row was deleted
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async delete(key: string) {
+    try {
+      const { rowCount } = await this.pool.query(DELETE_KEY(this.tables), [
+        key,
+      ]);
+      return rowCount === 1;
+    } catch (error) {
+      console.error("Postgres delete failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * List live keys starting with `prefix`, ordered by key.
+   *
+   * Keyset pagination: the cursor is the last key of the previous page, so
+   * pages never repeat keys.
+   *
+   * @param prefix - Full key prefix (matched literally, no wildcards)
+   * @param options - Cursor from the previous page and page size
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async scan(
+    prefix: string,
+    options: { cursor?: string; count: number },
+  ): Promise<ScanPage> {
+    try {
+      const { rows } = await this.pool.query<{ key: string }>(
+        SCAN_KEYS(this.tables),
+        [prefix, options.cursor ?? "", options.count],
+      );
+
+      const keys = rows.map((row) => row.key);
+      return {
+        keys,
+        cursor:
+          keys.length === options.count ? keys[keys.length - 1] : undefined,
+      };
+    } catch (error) {
+      console.error("Postgres scan failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Remove a stuck processing lock or "unknown" row, whoever owns it.
+   * Committed results and failures are never removed.
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if a lock / unknown row was removed
+   *
+   * @throws StoreError if the database is unreachable or the query fails
+   */
+  async forceUnlock(key: string) {
+    try {
+      const { rowCount } = await this.pool.query(FORCE_UNLOCK(this.tables), [
+        key,
+      ]);
+      return rowCount === 1;
+    } catch (error) {
+      console.error("Postgres forceUnlock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Append an audit event to the immutable audit table.
+   *
+   * @param event - Sanitized audit event (the engine strips sensitive metadata)
+   *
+   * @throws Error if the insert fails (the engine never lets this affect business logic)
+   */
+  async recordAudit(event: AuditEvent) {
+    await this.pool.query(INSERT_AUDIT(this.tables), auditParams(event));
+  }
+
+  /**
+   * Append several audit events in one multi-row insert (all or nothing).
+   *
+   * @param events - Sanitized audit events, in order
+   *
+   * @throws Error if the insert fails (the engine queues and retries the batch)
+   */
+  async recordAuditMany(events: AuditEvent[]) {
+    if (events.length === 0) return;
+    await this.pool.query(
+      INSERT_AUDIT_MANY(this.tables, events.length),
+      events.flatMap(auditParams),
+    );
+  }
+
+  /**
+   * Delete expired locks and results (TTL sweeper).
+   *
+   * Expired rows are already ignored by reads, so sweeping is purely about
+   * reclaiming space and honouring data-retention limits.
+   *
+   * @param batchSize - Maximum rows deleted by this call
+   * @returns Number of rows deleted
+   */
+  async sweepExpired(batchSize = 1_000): Promise<number> {
+    const { rowCount } = await this.pool.query(SWEEP_EXPIRED(this.tables), [
+      batchSize,
+    ]);
+    return rowCount ?? 0;
+  }
+
+  /**
+   * Run `sweepExpired` on an interval until `close()` is called.
+   *
+   * @param intervalMs - Delay between sweeps
+   * @default 60_000
+   */
+  startSweeper(intervalMs = 60_000) {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      this.sweepExpired().catch((error) => {
+        console.error("Postgres sweepExpired failed:", error);
+      });
+    }, intervalMs);
+
+    // Never keep the process alive just to sweep
+    this.sweeper.unref?.();
+  }
+
+  /**
+   * Stop the sweeper.
+   *
+   * The pool passed to the constructor is NOT closed – it is owned by the caller.
+   */
+  async close() {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+}
+
+/**
+ * Factory matching the documented quick-start API.
+ *
+ * @example
+ *   const engine = new IdempotencyEngine(
+ *     createPostgresAdapter(pool, {
+ *       schema: "payments",
+ *       retentionPolicy: "7 DAYS",
+ *       auditTable: "idempotency_audit",
+ *     }),
+ *     { lockTtl: 30_000, retention: 86_400_000, onAudit },
+ *   );
+ */
+export function createPostgresAdapter(
+  pool: Pool,
+  options?: PostgresAdapterOptions,
+): PostgresAdapter {
+  return new PostgresAdapter(pool, options);
+}
+
+export { classifyPostgresError } from "./errors";
+
+function quoteIdent(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]{0,62}$/.test(name)) {
+    throw new Error(`Invalid Postgres identifier: ${JSON.stringify(name)}`);
+  }
+  return `"${name}"`;
+}
+
+function parseRetentionPolicy(policy: number | string): number {
+  if (typeof policy === "number") return policy;
+
+  const match = /^\s*(\d+)\s*([a-z]+?)s?\s*$/i.exec(policy);
+  const unitMs = match && INTERVAL_UNITS_MS[match[2].toLowerCase()];
+  if (!match || !unitMs) {
+    throw new Error(
+      `Invalid retentionPolicy ${JSON.stringify(policy)} (expected e.g. "7 DAYS" or "24 HOURS")`,
+    );
+  }
+  return Number(match[1]) * unitMs;
+}
+
+function toInterval(ms: number): string {
+  return `${Math.ceil(ms)} milliseconds`;
+}
+
+function toIsoString(value: unknown): string {
+  return value instanceof Date
+    ? value.toISOString()
+    : String(value ?? new Date().toISOString());
+}
+
+/** Parameters for INSERT_AUDIT / one row of INSERT_AUDIT_MANY */
+function auditParams(event: AuditEvent) {
+  return [
+    event.timestamp,
+    event.key,
+    event.action,
+    event.fingerprint ?? null,
+    event.storedFingerprint ?? null,
+    event.metadata ? JSON.stringify(event.metadata) : null,
+  ];
+}
@@ -0,0 +1,227 @@
+/**
+ * SQL used by the Postgres adapter.
+ *
+ * Table names are injected as pre-quoted identifiers (see `quoteIdent`),
+ * never as user input – every value goes through query parameters.
+ */
+
+export interface Tables {
+  /** Quoted schema name, e.g. `"payments"` */
+  schema: string;
+  /** Quoted, schema-qualified idempotency table, e.g. `"payments"."idempotency_keys"` */
+  keys: string;
+  /** Quoted, schema-qualified audit table */
+  audit: string;
+  /** Quoted, schema-qualified migration bookkeeping table */
+  migrations: string;
+  /** Unquoted idempotency table name (used to derive index names) */
+  keysName: string;
+  /** Unquoted audit table name (used to derive index/trigger names) */
+  auditName: string;
+}
+
+export interface Migration {
+  id: string;
+  statements: (t: Tables) => string[];
+}
+
+/**
+ * Ordered schema migrations. Never edit a shipped migration – append a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    id: "001_create_idempotency_keys",
+    statements: (t) => [
+      `CREATE TABLE IF NOT EXISTS ${t.keys} (
+        key TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        token TEXT,
+        fingerprint TEXT,
+        result JSONB,
+        error JSONB,
+        lock_acquired_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ,
+        expires_at TIMESTAMPTZ NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${t.keysName}_expires_at_idx
+        ON ${t.keys} (expires_at)`,
+    ],
+  },
+  {
+    id: "002_create_audit_table",
+    statements: (t) => [
+      `CREATE TABLE IF NOT EXISTS ${t.audit} (
+        id BIGSERIAL PRIMARY KEY,
+        event_timestamp TIMESTAMPTZ NOT NULL,
+        key TEXT NOT NULL,
+        action TEXT NOT NULL,
+        fingerprint TEXT,
+        stored_fingerprint TEXT,
+        metadata JSONB,
+        recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${t.auditName}_key_idx
+        ON ${t.audit} (key)`,
+    ],
+  },
+  {
+    // Immutable audit trail (PCI-DSS §10.5): reject UPDATE / DELETE / TRUNCATE
+    id: "003_audit_append_only",
+    statements: (t) => [
+      `CREATE OR REPLACE FUNCTION ${t.schema}.idempotkit_audit_append_only()
+        RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'idempotency audit log is append-only';
+        END;
+        $$ LANGUAGE plpgsql`,
+      `DROP TRIGGER IF EXISTS ${t.auditName}_append_only ON ${t.audit}`,
+      `CREATE TRIGGER ${t.auditName}_append_only
+        BEFORE UPDATE OR DELETE ON ${t.audit}
+        FOR EACH ROW EXECUTE FUNCTION ${t.schema}.idempotkit_audit_append_only()`,
+      `DROP TRIGGER IF EXISTS ${t.auditName}_no_truncate ON ${t.audit}`,
+      `CREATE TRIGGER ${t.auditName}_no_truncate
+        BEFORE TRUNCATE ON ${t.audit}
+        FOR EACH STATEMENT EXECUTE FUNCTION ${t.schema}.idempotkit_audit_append_only()`,
+    ],
+  },
+];
+
+export const CREATE_MIGRATIONS_TABLE = (t: Tables) => `
+  CREATE TABLE IF NOT EXISTS ${t.migrations} (
+    id TEXT PRIMARY KEY,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`;
+
+/**
+ * Insert a processing lock, or take over an EXPIRED row (lock or result).
+ * The caller owns the lock iff the returned token equals the one it sent.
+ * The lock records the fingerprint so concurrent requests can compare it.
+ *
+ * $1 key, $2 token, $3 lock TTL interval, $4 fingerprint
+ */
+export const CHECK_AND_LOCK = (t: Tables) => `
+  INSERT INTO ${t.keys} AS cur
+    (key, status, token, fingerprint, lock_acquired_at, expires_at)
+  VALUES ($1, 'processing', $2, $4, now(), now() + $3::interval)
+  ON CONFLICT (key) DO UPDATE SET
+    status = 'processing',
+    token = EXCLUDED.token,
+    fingerprint = EXCLUDED.fingerprint,
+    result = NULL,
+    error = NULL,
+    created_at = NULL,
+    lock_acquired_at = EXCLUDED.lock_acquired_at,
+    expires_at = EXCLUDED.expires_at
+  WHERE cur.expires_at <= now()
+  RETURNING token`;
+
+/**
+ * `has_result` tells a stored JSON `null` (a result) from SQL `NULL` (none) –
+ * both read back as `null`. $1 key
+ */
+export const SELECT_LIVE = (t: Tables) => `
+  SELECT status, fingerprint, result, result IS NOT NULL AS has_result,
+    error, created_at
+  FROM ${t.keys}
+  WHERE key = $1 AND expires_at > now()`;
+
+/**
+ * Compare-and-set: only the current, unexpired owner may commit.
+ *
+ * $1 key, $2 token, $3 status ('committed' | 'failed'), $4 fingerprint,
+ * $5 result JSON, $6 error JSON, $7 retention interval
+ */
+export const COMMIT = (t: Tables) => `
+  UPDATE ${t.keys} SET
+    status = $3,
+    token = NULL,
+    fingerprint = $4,
+    result = $5::jsonb,
+    error = $6::jsonb,
+    created_at = now(),
+    expires_at = now() + $7::interval
+  WHERE key = $1
+    AND status = 'processing'
+    AND token = $2
+    AND expires_at > now()`;
+
+/** Compare-and-delete. $1 key, $2 token */
+export const RELEASE_LOCK = (t: Tables) => `
+  DELETE FROM ${t.keys}
+  WHERE key = $1 AND status = 'processing' AND token = $2`;
+
+/** Compare-and-set lease renewal. $1 key, $2 token, $3 lock TTL interval */
+export const EXTEND_LOCK = (t: Tables) => `
+  UPDATE ${t.keys} SET expires_at = now() + $3::interval
+  WHERE key = $1
+    AND status = 'processing'
+    AND token = $2
+    AND expires_at > now()`;
+
+/**
+ * Compare-and-set: turn a timed-out lock into an "unknown" record.
+ * $1 key, $2 token, $3 hold interval
+ */
+export const MARK_UNKNOWN = (t: Tables) => `
+  UPDATE ${t.keys} SET
+    status = 'unknown',
+    token = NULL,
+    created_at = now(),
+    expires_at = now() + $3::interval
+  WHERE key = $1
+    AND status = 'processing'
+    AND token = $2
+    AND expires_at > now()`;
+
+/** Admin read of a live row (token excluded). $1 key */
+export const SELECT_RECORD = (t: Tables) => `
+  SELECT status, fingerprint, result, result IS NOT NULL AS has_result,
+    error, created_at, lock_acquired_at, expires_at
+  FROM ${t.keys}
+  WHERE key = $1 AND expires_at > now()`;
+
+/** $1 key */
+export const DELETE_KEY = (t: Tables) => `
+  DELETE FROM ${t.keys}
+  WHERE key = $1 AND expires_at > now()`;
+
+/**
+ * Keyset-paginated listing (starts_with needs Postgres 11+). $1 prefix,
+ * $2 last key of the previous page ('' for the first), $3 page size
+ */
+export const SCAN_KEYS = (t: Tables) => `
+  SELECT key FROM ${t.keys}
+  WHERE starts_with(key, $1) AND key > $2 AND expires_at > now()
+  ORDER BY key
+  LIMIT $3`;
+
+/** Any owner – locks and unknown records only, never stored outcomes. $1 key */
+export const FORCE_UNLOCK = (t: Tables) => `
+  DELETE FROM ${t.keys}
+  WHERE key = $1
+    AND status IN ('processing', 'unknown')
+    AND expires_at > now()`;
+
+/** $1 event timestamp, $2 key, $3 action, $4 fingerprint, $5 stored fingerprint, $6 metadata JSON */
+export const INSERT_AUDIT = (t: Tables) => `
+  INSERT INTO ${t.audit}
+    (event_timestamp, key, action, fingerprint, stored_fingerprint, metadata)
+  VALUES ($1, $2, $3, $4, $5, $6::jsonb)`;
+
+/** INSERT_AUDIT for `count` events – six parameters per event, in the same order */
+export const INSERT_AUDIT_MANY = (t: Tables, count: number) => `
+  INSERT INTO ${t.audit}
+    (event_timestamp, key, action, fingerprint, stored_fingerprint, metadata)
+  VALUES ${Array.from({ length: count }, (_, i) => {
+    const p = i * 6;
+    return `($${p + 1}, $${p + 2}, $${p + 3}, $${p + 4}, $${p + 5}, $${p + 6}::jsonb)`;
+  }).join(", ")}`;
+
+/** Delete at most $1 expired rows */
+export const SWEEP_EXPIRED = (t: Tables) => `
+  DELETE FROM ${t.keys}
+  WHERE key IN (
+    SELECT key FROM ${t.keys}
+    WHERE expires_at <= now()
+    LIMIT $1
+  )`;
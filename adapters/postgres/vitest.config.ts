@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Test against core's source – no core build required
+    alias: {
+      "@idempotkit/core": fileURLToPath(
+        new URL("../../core/src/index.ts", import.meta.url),
+      ),
+    },
+  },
+  test: {
+    include: ["src/**/*.{test,spec}.ts"],
+    environment: "node",
+  },
+});
@@ -8,7 +8,17 @@ import {
   vi,
 } from "vitest";
 import { Redis } from "ioredis";
-import { RedisAdapter } from "../index";
+import {
+  HashChainAuditSink,
+  StoreError,
+  verifyAuditChain,
+} from "@idempotkit/core";
+import {
+  RedisAdapter,
+  classifyRedisError,
+  createRedisStreamAuditBackend,
+} from "../index";
+import { acquiredToken } from "../../../../core/src/__tests__/helpers";
 
 // Use real Redis (requires `docker run -d -p 6379:6379 redis`)
 const redis = new Redis();
@@ -21,6 +31,7 @@ beforeAll(async () => {
 });
 
 afterAll(async () => {
+  await adapter.close();
   await redis.quit();
 });
 
@@ -37,7 +48,17 @@ describe("RedisAdapter", () => {
   describe("atomicCheckAndLock", () => {
     it("should acquire lock for new key", async () => {
       const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      expect(res).toEqual({ status: "acquired" });
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+    });
+
+    it("should issue a distinct owner token per acquisition", async () => {
+      const first = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const second = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      expect(first.status).toBe("acquired");
+      expect(second.status).toBe("acquired");
+      expect(acquiredToken(first)).not.toBe(acquiredToken(second));
     });
 
     it('should return "locked" for concurrent request', async () => {
@@ -45,14 +66,40 @@ describe("RedisAdapter", () => {
       await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
 
       // Second call should be locked
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: true });
+    });
+
+    it("should report a lock held with a different fingerprint", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      const res = await adapter.atomicCheckAndLock(key, "fp-other", 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: false });
+    });
+
+    it("should leave fingerprintMatches unset for locks without a fingerprint", async () => {
+      // Lock written before fingerprints were stored with locks
+      await redis.set(
+        key,
+        JSON.stringify({ status: "processing", token: "legacy" }),
+        "PX",
+        5_000,
+      );
+
       const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
       expect(res).toEqual({ status: "locked" });
     });
 
     it("should return existing result after commit", async () => {
       // Acquire lock + commit result
-      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      await adapter.commitResult(key, fingerprint, result, 10_000);
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
 
       // Subsequent call returns existing result
       const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
@@ -70,17 +117,24 @@ describe("RedisAdapter", () => {
 
       // Should treat as available (not crash)
       const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      expect(res).toEqual({ status: "acquired" });
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
     });
   });
 
   describe("commitResult", () => {
     it("should store result with retention", async () => {
       // Acquire lock first
-      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
 
       // Commit result
-      await adapter.commitResult(key, fingerprint, result, 10_000);
+      const committed = await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+      expect(committed).toBe(true);
 
       // Verify stored value
       const stored = await redis.get(key);
@@ -88,37 +142,255 @@ describe("RedisAdapter", () => {
       expect(data).toEqual({
         status: "committed",
         fingerprint,
-        result,
+        payload: JSON.stringify(result),
         createdAt: expect.any(String),
       });
     });
 
+    it("should return results exactly as committed (opaque payload)", async () => {
+      const exact = {
+        empty: [],
+        nested: { list: [[]] },
+        large: 9_007_199_254_740_991,
+        precise: 0.1 + 0.2,
+        path: "a/b",
+      };
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        exact,
+        10_000,
+      );
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status === "exists" && res.result).toStrictEqual(exact);
+      await expect(adapter.get(key)).resolves.toMatchObject({ result: exact });
+    });
+
+    it("should still read results committed before payloads were opaque", async () => {
+      await redis.set(
+        key,
+        JSON.stringify({
+          status: "committed",
+          fingerprint,
+          result,
+          createdAt: new Date().toISOString(),
+        }),
+      );
+
+      await expect(
+        adapter.atomicCheckAndLock(key, fingerprint, 5_000),
+      ).resolves.toMatchObject({ status: "exists", result });
+    });
+
     it("should reject commit without active lock", async () => {
       await expect(
-        adapter.commitResult(key, fingerprint, result, 10_000),
-      ).rejects.toThrow("Failed to commit result");
+        adapter.commitResult(key, "no-token", fingerprint, result, 10_000),
+      ).resolves.toBe(false);
     });
 
     it("should reject double-commit", async () => {
       // First commit
-      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      await adapter.commitResult(key, fingerprint, result, 10_000);
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const token = acquiredToken(lock);
+      await adapter.commitResult(key, token, fingerprint, result, 10_000);
 
       // Second commit should fail
       await expect(
-        adapter.commitResult(key, fingerprint, result, 10_000),
-      ).rejects.toThrow("Failed to commit result");
+        adapter.commitResult(key, token, fingerprint, result, 10_000),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject commit from a stale owner", async () => {
+      // Stale worker's lock expires and a second request takes over
+      const stale = await adapter.atomicCheckAndLock(key, fingerprint, 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+
+      await expect(
+        adapter.commitResult(
+          key,
+          acquiredToken(stale),
+          fingerprint,
+          result,
+          10_000,
+        ),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe("commitFailure", () => {
+    it("should store a failed outcome that is returned on later checks", async () => {
+      const error = {
+        name: "TerminalError",
+        message: "card declined",
+        code: "CARD_DECLINED",
+        status: 402,
+      };
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const committed = await adapter.commitFailure(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        error,
+        10_000,
+      );
+      expect(committed).toBe(true);
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({
+        status: "exists",
+        fingerprint,
+        error,
+        createdAt: expect.any(String),
+      });
     });
   });
 
   describe("releaseLock", () => {
     it("should delete key when releasing lock", async () => {
-      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      await adapter.releaseLock(key);
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.releaseLock(key, acquiredToken(lock));
 
       const exists = await redis.exists(key);
       expect(exists).toBe(0);
     });
+
+    it("should not release a lock owned by another request", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.releaseLock(key, "someone-else");
+
+      const exists = await redis.exists(key);
+      expect(exists).toBe(1);
+    });
+
+    it("should never delete a committed result", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const token = acquiredToken(lock);
+      await adapter.commitResult(key, token, fingerprint, result, 10_000);
+      await adapter.releaseLock(key, token);
+
+      const exists = await redis.exists(key);
+      expect(exists).toBe(1);
+    });
+  });
+
+  describe("extendLock", () => {
+    it("should extend the lease of an owned lock", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 100);
+      const extended = await adapter.extendLock(
+        key,
+        acquiredToken(lock),
+        5_000,
+      );
+      expect(extended).toBe(true);
+
+      // Original 100ms lease would have expired by now
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res).toEqual({ status: "locked", fingerprintMatches: true });
+    });
+
+    it("should refuse to extend a lock owned by another request", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(
+        adapter.extendLock(key, "someone-else", 5_000),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe("admin", () => {
+    it("should read a committed record without its owner token", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+
+      const record = await adapter.get(key);
+      expect(record).toMatchObject({
+        status: "committed",
+        fingerprint,
+        result,
+      });
+      expect(record).not.toHaveProperty("token");
+      expect(Date.parse(record!.expiresAt!)).toBeGreaterThan(Date.now());
+      await expect(adapter.get("idemp:missing")).resolves.toBeNull();
+    });
+
+    it("should scan keys by prefix across pages", async () => {
+      for (let i = 0; i < 5; i++) {
+        await adapter.atomicCheckAndLock(`idemp:scan-${i}`, fingerprint, 5_000);
+      }
+      await adapter.atomicCheckAndLock("idemp:other", fingerprint, 5_000);
+
+      const keys = new Set<string>();
+      let cursor: string | undefined;
+      do {
+        const page = await adapter.scan("idemp:scan-", { cursor, count: 2 });
+        page.keys.forEach((k) => keys.add(k));
+        cursor = page.cursor;
+      } while (cursor);
+
+      expect([...keys].sort()).toEqual([
+        "idemp:scan-0",
+        "idemp:scan-1",
+        "idemp:scan-2",
+        "idemp:scan-3",
+        "idemp:scan-4",
+      ]);
+    });
+
+    it("should force-unlock locks but never committed results", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(adapter.forceUnlock(key)).resolves.toBe(true);
+      await expect(redis.exists(key)).resolves.toBe(0);
+
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await adapter.commitResult(
+        key,
+        acquiredToken(lock),
+        fingerprint,
+        result,
+        10_000,
+      );
+      await expect(adapter.forceUnlock(key)).resolves.toBe(false);
+      await expect(adapter.delete(key)).resolves.toBe(true);
+      await expect(redis.exists(key)).resolves.toBe(0);
+    });
+  });
+
+  describe("waitForChange", () => {
+    it("should wake up as soon as the result is committed", async () => {
+      const lock = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      const started = Date.now();
+
+      const waiting = adapter.waitForChange(key, 5_000);
+      setTimeout(() => {
+        adapter.commitResult(
+          key,
+          acquiredToken(lock),
+          fingerprint,
+          result,
+          10_000,
+        );
+      }, 50);
+      await waiting;
+
+      expect(Date.now() - started).toBeLessThan(1_000);
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status).toBe("exists");
+    });
+
+    it("should resolve after the timeout if nothing happens", async () => {
+      await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      await expect(adapter.waitForChange(key, 50)).resolves.toBeUndefined();
+    });
   });
 
   describe("Integration", () => {
@@ -129,7 +401,13 @@ describe("RedisAdapter", () => {
       const res1 = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
       if (res1.status === "acquired") {
         await handler();
-        await adapter.commitResult(key, fingerprint, result, 10_000);
+        await adapter.commitResult(
+          key,
+          res1.token,
+          fingerprint,
+          result,
+          10_000,
+        );
       }
 
       // Duplicate request
@@ -147,7 +425,152 @@ describe("RedisAdapter", () => {
 
       // Should be able to acquire new lock
       const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
-      expect(res).toEqual({ status: "acquired" });
+      expect(res).toEqual({ status: "acquired", token: expect.any(String) });
+    });
+  });
+
+  describe("batch", () => {
+    it("should check-and-lock and commit many keys in one pipeline", async () => {
+      const entries = ["idemp:batch-1", "idemp:batch-2", "idemp:batch-1"].map(
+        (k) => ({ key: k, fingerprint }),
+      );
+
+      const locks = await adapter.atomicCheckAndLockMany(entries, 5_000);
+      expect(locks.map((l) => (l instanceof Error ? l : l.status))).toEqual([
+        "acquired",
+        "acquired",
+        "locked",
+      ]);
+
+      const committed = await adapter.commitResultMany(
+        [
+          {
+            key: "idemp:batch-1",
+            token: acquiredToken(locks[0]),
+            fingerprint,
+            result,
+          },
+          { key: "idemp:batch-2", token: "stale", fingerprint, result },
+        ],
+        10_000,
+      );
+      expect(committed).toEqual([true, false]);
+
+      const [replay] = await adapter.atomicCheckAndLockMany(
+        [{ key: "idemp:batch-1", fingerprint }],
+        5_000,
+      );
+      expect(replay).toMatchObject({ status: "exists", result });
+    });
+  });
+
+  describe("scripts and errors", () => {
+    it("should reload scripts after SCRIPT FLUSH (NOSCRIPT)", async () => {
+      await redis.script("FLUSH");
+
+      const res = await adapter.atomicCheckAndLock(key, fingerprint, 5_000);
+      expect(res.status).toBe("acquired");
+    });
+
+    it("should classify Redis errors", () => {
+      expect(classifyRedisError(new Error("NOSCRIPT No matching script"))).toBe(
+        "noscript",
+      );
+      expect(classifyRedisError(new Error("MOVED 3999 127.0.0.1:6381"))).toBe(
+        "redirect",
+      );
+      expect(
+        classifyRedisError(
+          new Error("READONLY You can't write against a read only replica."),
+        ),
+      ).toBe("failover");
+      expect(
+        classifyRedisError(
+          Object.assign(new Error("connect ECONNREFUSED"), {
+            code: "ECONNREFUSED",
+          }),
+        ),
+      ).toBe("unavailable");
+      expect(
+        classifyRedisError(
+          Object.assign(new Error("Failed to refresh slots cache."), {
+            lastNodeError: new Error("CLUSTERDOWN The cluster is down"),
+          }),
+        ),
+      ).toBe("failover");
+      expect(classifyRedisError(new Error("ERR unknown"))).toBe("unknown");
+    });
+
+    it("should throw a retryable StoreError when Redis is unreachable", async () => {
+      const offline = new Redis({
+        port: 1,
+        lazyConnect: true,
+        maxRetriesPerRequest: 0,
+        retryStrategy: () => null,
+      });
+      const offlineAdapter = new RedisAdapter(offline);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const err = await offlineAdapter
+        .atomicCheckAndLock(key, fingerprint, 5_000)
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(StoreError);
+      expect(err).toMatchObject({ kind: "unavailable", retryable: true });
+      offline.disconnect();
+    });
+  });
+
+  describe("audit stream backend", () => {
+    const stream = "idemp:audit-test";
+    const event = (key: string) => ({
+      timestamp: new Date().toISOString(),
+      key,
+      action: "stored" as const,
+    });
+
+    it("should share one verifiable chain between writers", async () => {
+      const backend = createRedisStreamAuditBackend(redis, {
+        stream,
+        pageSize: 2,
+      });
+      const writers = [
+        new HashChainAuditSink(backend, { hmacKey: "k" }),
+        new HashChainAuditSink(backend, { hmacKey: "k" }),
+      ];
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          writers[i % 2].append(event(`idemp:k${i}`)),
+        ),
+      );
+
+      await expect(
+        verifyAuditChain(backend.read(), { hmacKey: "k" }),
+      ).resolves.toMatchObject({ valid: true, count: 10 });
+      await expect(backend.last()).resolves.toMatchObject({ seq: 10 });
+    });
+
+    it("should refuse an append that does not extend the head", async () => {
+      const backend = createRedisStreamAuditBackend(redis, { stream });
+      const first = await new HashChainAuditSink(backend).append(event("a"));
+
+      await expect(backend.append(first)).resolves.toBe(false);
+      await expect(backend.append({ ...first, seq: 3 })).resolves.toBe(false);
+    });
+
+    it("should detect a deleted entry", async () => {
+      const backend = createRedisStreamAuditBackend(redis, { stream });
+      const sink = new HashChainAuditSink(backend);
+      for (const key of ["a", "b", "c"]) await sink.append(event(key));
+
+      await redis.xdel(stream, "2-0");
+
+      await expect(verifyAuditChain(backend.read())).resolves.toMatchObject({
+        valid: false,
+        brokenAt: 2,
+        reason: "sequence_gap",
+      });
     });
   });
 });
@@ -0,0 +1,98 @@
+import type { AuditChainBackend, ChainedAuditRecord } from "@idempotkit/core";
+import { Cluster, Redis } from "ioredis";
+import { toStoreError } from "./errors";
+import { AUDIT_APPEND } from "./lua";
+
+const APPEND_COMMAND = "idempotkitAuditAppend";
+
+export interface RedisStreamAuditBackendOptions {
+  /**
+   * Stream key holding the chain. Never trim it (`MAXLEN` / `XTRIM`) –
+   * verification starts at sequence 1.
+   * @default "idempotkit:audit"
+   */
+  stream?: string;
+
+  /**
+   * Entries fetched per `XRANGE` call while reading.
+   * @default 500
+   */
+  pageSize?: number;
+}
+
+/**
+ * Redis stream backend for `HashChainAuditSink`. Entry ids are the record
+ * sequence numbers (`<seq>-0`) and appends are compare-and-set in Lua, so
+ * several processes can share one chain.
+ *
+ * @param redis - ioredis client (standalone, Sentinel or Cluster – the
+ *   stream is a single key)
+ * @param options - Stream key and read page size
+ *
+ * @example
+ *   const backend = createRedisStreamAuditBackend(redis);
+ *   const sink = new HashChainAuditSink(backend, { hmacKey: process.env.AUDIT_HMAC_KEY });
+ *   const engine = new IdempotencyEngine(adapter, { ...options, onAudit: sink.onAudit });
+ *
+ *   await verifyAuditChain(backend.read(), { hmacKey: process.env.AUDIT_HMAC_KEY });
+ */
+export function createRedisStreamAuditBackend(
+  redis: Redis | Cluster,
+  options: RedisStreamAuditBackendOptions = {},
+): AuditChainBackend {
+  const { stream = "idempotkit:audit", pageSize = 500 } = options;
+  redis.defineCommand(APPEND_COMMAND, { numberOfKeys: 1, lua: AUDIT_APPEND });
+
+  const parse = ([, fields]: [id: string, fields: string[]]) =>
+    JSON.parse(fields[fields.indexOf("record") + 1]) as ChainedAuditRecord;
+
+  return {
+    async last() {
+      try {
+        const [entry] = await redis.xrevrange(stream, "+", "-", "COUNT", 1);
+        return entry ? parse(entry) : null;
+      } catch (error) {
+        console.error("Redis audit stream read failed:", error);
+        throw toStoreError(error);
+      }
+    },
+
+    async append(record) {
+      try {
+        const append = (
+          redis as unknown as Record<
+            string,
+            (key: string, ...args: string[]) => Promise<number>
+          >
+        )[APPEND_COMMAND];
+        const appended = await append.call(
+          redis,
+          stream,
+          record.seq.toString(),
+          JSON.stringify(record),
+        );
+        return appended === 1;
+      } catch (error) {
+        console.error("Redis audit stream append failed:", error);
+        throw toStoreError(error);
+      }
+    },
+
+    async *read() {
+      let start = "-";
+      for (;;) {
+        let entries: [string, string[]][];
+        try {
+          entries = await redis.xrange(stream, start, "+", "COUNT", pageSize);
+        } catch (error) {
+          console.error("Redis audit stream read failed:", error);
+          throw toStoreError(error);
+        }
+
+        for (const entry of entries) yield parse(entry);
+        if (entries.length < pageSize) return;
+        start = "(" + entries[entries.length - 1][0]; // exclusive (Redis 6.2+)
+      }
+    },
+  };
+}
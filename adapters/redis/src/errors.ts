@@ -0,0 +1,79 @@
+import { StoreError, StoreErrorKind } from "@idempotkit/core";
+
+/**
+ * Server replies (by prefix) that mean the primary is down or being replaced.
+ * The request may succeed once the cluster / sentinel has promoted a new primary.
+ */
+const FAILOVER_REPLIES = [
+  "READONLY", // wrote to a replica that used to be the primary
+  "LOADING", // restarted node still loading its dataset
+  "MASTERDOWN", // replica lost its primary (replica-serve-stale-data no)
+  "CLUSTERDOWN",
+  "TRYAGAIN", // slot being migrated during resharding
+];
+
+/** Error codes / messages ioredis uses for connection-level failures */
+const UNAVAILABLE_PATTERNS = [
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|ENOTFOUND|EPIPE/,
+  /Connection is closed/i,
+  /Stream isn't writeable/i,
+  /Reached the max retries per request limit/i,
+  /Failed to refresh slots cache/i,
+  /None of the sentinels are available/i,
+  /All sentinels are unreachable/i,
+];
+
+/**
+ * Classify an ioredis / Redis Cluster error.
+ *
+ * Classification uses error names and reply prefixes rather than `instanceof`,
+ * so it works across ioredis versions and for errors wrapped by Cluster
+ * (`ClusterAllFailedError` keeps the last node error in `lastNodeError`).
+ */
+export function classifyRedisError(error: unknown): StoreErrorKind {
+  if (!(error instanceof Error)) return "unknown";
+
+  const lastNodeError = (error as { lastNodeError?: unknown }).lastNodeError;
+  if (lastNodeError instanceof Error) return classifyRedisError(lastNodeError);
+
+  const message = error.message;
+  if (message.startsWith("NOSCRIPT")) return "noscript";
+  if (
+    /^(MOVED|ASK) /.test(message) ||
+    /Too many Cluster redirections/i.test(message)
+  ) {
+    return "redirect";
+  }
+  if (FAILOVER_REPLIES.some((reply) => message.startsWith(reply))) {
+    return "failover";
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (
+    error.name === "MaxRetriesPerRequestError" ||
+    UNAVAILABLE_PATTERNS.some(
+      (pattern) =>
+        pattern.test(message) ||
+        (typeof code === "string" && pattern.test(code)),
+    )
+  ) {
+    return "unavailable";
+  }
+
+  if (error instanceof SyntaxError) return "data"; // JSON.parse of a stored value
+  return "unknown";
+}
+
+/**
+ * Wrap any error from a Redis call as a classified StoreError.
+ */
+export function toStoreError(error: unknown): StoreError {
+  if (error instanceof StoreError) return error;
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new StoreError(
+    `Idempotency store error: ${errorMessage}`,
+    classifyRedisError(error),
+    error,
+  );
+}
@@ -1,6 +1,61 @@
-import { IdempotencyStore } from "@idempotkit/core";
-import { Redis } from "ioredis";
-import { CHECK_AND_LOCK, COMMIT_RESULT } from "./lua";
+import {
+  CheckAndLockResult,
+  IdempotencyStore,
+  ScanPage,
+  StoredError,
+  StoredRecord,
+} from "@idempotkit/core";
+import {
+  Attributes,
+  Histogram,
+  MeterProvider,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  TracerProvider,
+  metrics,
+  trace,
+} from "@opentelemetry/api";
+import { randomUUID } from "crypto";
+import { Cluster, Redis } from "ioredis";
+import { toStoreError } from "./errors";
+import {
+  CHECK_AND_LOCK,
+  COMMIT_RESULT,
+  EXTEND_LOCK,
+  FORCE_UNLOCK,
+  MARK_UNKNOWN,
+  RELEASE_LOCK,
+  SETTLED_CHANNEL_PREFIX,
+} from "./lua";
+
+/**
+ * Lua scripts, registered on the client with `defineCommand` so they run via
+ * EVALSHA (ioredis re-sends the source only on NOSCRIPT, e.g. after a
+ * failover or SCRIPT FLUSH). Every script touches exactly one key.
+ */
+const SCRIPTS = {
+  CHECK_AND_LOCK: { command: "idempotkitCheckAndLock", lua: CHECK_AND_LOCK },
+  COMMIT_RESULT: { command: "idempotkitCommitResult", lua: COMMIT_RESULT },
+  RELEASE_LOCK: { command: "idempotkitReleaseLock", lua: RELEASE_LOCK },
+  EXTEND_LOCK: { command: "idempotkitExtendLock", lua: EXTEND_LOCK },
+  MARK_UNKNOWN: { command: "idempotkitMarkUnknown", lua: MARK_UNKNOWN },
+  FORCE_UNLOCK: { command: "idempotkitForceUnlock", lua: FORCE_UNLOCK },
+} as const;
+
+type ScriptName = keyof typeof SCRIPTS;
+type ScriptCommand = (key: string, ...args: string[]) => Promise<unknown>;
+
+export interface RedisAdapterOptions {
+  /**
+   * OpenTelemetry providers for script spans / durations.
+   * Without them the global providers are used (no-ops until an SDK is registered).
+   */
+  telemetry?: {
+    tracerProvider?: TracerProvider;
+    meterProvider?: MeterProvider;
+  };
+}
 
 /**
  * Redis implementation of the IdempotencyStore interface.
@@ -10,38 +65,79 @@ import { CHECK_AND_LOCK, COMMIT_RESULT } from "./lua";
  * - Handles lock acquisition and result storage safely
  * - Recovers gracefully from Redis crashes/corruption
  *
+ * Accepts a standalone / Sentinel `Redis` client or a `Cluster`:
+ * - Sentinel: pass `new Redis({ sentinels, name })` – failover is handled by
+ *   ioredis, in-flight calls fail with a retryable `StoreError` ("failover")
+ * - Cluster: each script touches a single key, so no hash tags are needed and
+ *   keys spread over all shards. Do NOT wrap `keyPrefix` in a hash tag
+ *   (`"{idemp}:"`) – that pins every key to one slot / one shard.
+ *
+ * Errors are thrown as `StoreError` with a `kind` (unavailable, failover,
+ * redirect, noscript, data, unknown) and a `retryable` flag.
+ *
  * ⚠️ Requires Redis 2.6+ (for Lua scripting support).
  */
 export class RedisAdapter implements IdempotencyStore {
+  /** Dedicated pub/sub connection, created on first `waitForChange` */
+  private subscriber?: Redis | Cluster;
+  private readonly waiters = new Map<string, Set<() => void>>();
+  private readonly tracer: Tracer;
+  private readonly scriptDuration: Histogram;
+
   /**
    * Create a new Redis adapter.
    *
-   * @param redis - Configured ioredis client instance
+   * @param redis - Configured ioredis client (standalone, Sentinel or Cluster)
+   * @param options - Optional OpenTelemetry providers
    *
    * @example
    *   const redis = new Redis(process.env.REDIS_URL);
    *   const adapter = new RedisAdapter(redis);
+   *
+   *   // Redis Cluster
+   *   const adapter = new RedisAdapter(new Cluster([{ host: "redis-1", port: 6379 }]));
    */
-  constructor(private redis: Redis) {}
+  constructor(
+    private redis: Redis | Cluster,
+    options: RedisAdapterOptions = {},
+  ) {
+    for (const { command, lua } of Object.values(SCRIPTS)) {
+      redis.defineCommand(command, { numberOfKeys: 1, lua });
+    }
+
+    const name = "@idempotkit/redis-adapter";
+    this.tracer = (options.telemetry?.tracerProvider ?? trace).getTracer(name);
+    this.scriptDuration = (options.telemetry?.meterProvider ?? metrics)
+      .getMeter(name)
+      .createHistogram("idempotkit.redis.script.duration", {
+        description: "Lua script round-trip time",
+        unit: "ms",
+      });
+  }
 
   /**
    * Atomically check for an existing result OR acquire a processing lock.
    *
    * This is the core concurrency control mechanism:
-   * - If no operation exists → acquires lock (`status: "acquired"`)
-   * - If operation is in progress → rejects (`status: "locked"`)
+   * - If no operation exists → acquires lock (`status: "acquired"`, with owner token)
+   * - If operation is in progress → rejects (`status: "locked"`, with
+   *   whether the lock holder's fingerprint matches)
    * - If result already exists → returns it (`status: "exists"`)
+   * - If an earlier attempt timed out and is held → rejects (`status: "unknown"`)
    *
    * @param key - Full idempotency key (e.g., "idemp:abc123")
-   * @param fingerprint - Current request's payload fingerprint (used later for validation)
+   * @param fingerprint - Current request's payload fingerprint (stored with the lock, and
+   *   compared against a lock held by another request)
    * @param lockTtlMs - How long to hold the lock if acquired (milliseconds)
    *
    * @returns One of three states:
-   *   - `{ status: "acquired" }` → Proceed with handler execution
-   *   - `{ status: "locked" }` → Operation in progress (retry later)
+   *   - `{ status: "acquired", token }` → Proceed with handler execution
+   *   - `{ status: "locked", fingerprintMatches }` → Operation in progress (retry later,
+   *     or reject right away if the fingerprint differs)
    *   - `{ status: "exists", ... }` → Return cached result
+   *   - `{ status: "unknown" }` → Outcome of an earlier attempt is unknown
    *
-   * @throws Error if Redis connection fails or Lua script errors
+   * @throws StoreError if Redis connection fails or Lua script errors
    */
   async atomicCheckAndLock(
     key: string,
@@ -52,26 +148,23 @@ export class RedisAdapter implements IdempotencyStore {
         status: "exists";
         fingerprint: string;
         result: unknown;
+        error?: StoredError;
         createdAt: string;
       }
-    | { status: "locked" }
-    | { status: "acquired" }
+    | { status: "locked"; fingerprintMatches?: boolean }
+    | { status: "unknown" }
+    | { status: "acquired"; token: string }
   > {
     try {
-      const result = await this.redis.eval(
-        CHECK_AND_LOCK,
-        1, // Number of keys
-        key, // KEYS[1]
-        lockTtlMs.toString(), // ARGV[1] (Lua converts to number)
-        new Date().toISOString(), // ARGV[2] (timestamp)
+      const result = await this.script(
+        "CHECK_AND_LOCK",
+        ...checkAndLockCall(key, fingerprint, lockTtlMs),
       );
 
-      return JSON.parse(result as string);
+      return parseRecord(result as string);
     } catch (error) {
       console.error("Redis atomicCheckAndLock failed:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      throw new Error(`Idempotency store error: ${errorMessage}`);
+      throw toStoreError(error);
     }
   }
 
@@ -79,47 +172,146 @@ export class RedisAdapter implements IdempotencyStore {
    * Commit a successful result to storage with retention policy.
    *
    * Replaces the temporary "processing" state with the final result.
-   * Only succeeds if the caller still holds the lock.
+   * Only succeeds if the caller still holds the lock (owner token matches).
    *
    * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
    * @param fingerprint - Fingerprint of the request that produced this result
-   * @param result - Handler's return value (will be serialized to JSON)
+   * @param result - Handler's return value (serialized to JSON, stored as an opaque string)
    * @param retentionMs - How long to keep the result before expiration (≥24h recommended)
    *
-   * @throws Error if:
-   *   - Lock was lost (expired or stolen)
-   *   - Result was already committed
-   *   - Redis connection fails
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if Redis connection fails
    */
   async commitResult(
     key: string,
+    token: string,
     fingerprint: string,
     result: unknown,
     retentionMs: number,
   ) {
+    return this.commit(
+      key,
+      token,
+      fingerprint,
+      "committed",
+      result,
+      retentionMs,
+    );
+  }
+
+  /**
+   * `atomicCheckAndLock` for many keys in one pipelined round trip.
+   *
+   * @param entries - Full keys and fingerprints, processed in order
+   * @param lockTtlMs - How long to hold each acquired lock (milliseconds)
+   *
+   * @returns One result per entry, or a StoreError for an entry that failed
+   *
+   * @throws StoreError if the pipeline itself fails (e.g. connection lost)
+   */
+  async atomicCheckAndLockMany(
+    entries: { key: string; fingerprint: string }[],
+    lockTtlMs: number,
+  ): Promise<(CheckAndLockResult | Error)[]> {
     try {
-      const resultJson = JSON.stringify(result);
+      const replies = await this.scriptMany(
+        "CHECK_AND_LOCK",
+        entries.map(({ key, fingerprint }) =>
+          checkAndLockCall(key, fingerprint, lockTtlMs),
+        ),
+      );
 
-      const success = await this.redis.eval(
-        COMMIT_RESULT,
-        1, // Number of keys
-        key, // KEYS[1]
-        fingerprint, // ARGV[1]
-        resultJson, // ARGV[2] (stringified JSON)
-        retentionMs.toString(), // ARGV[3]
-        new Date().toISOString(), // ARGV[4]
+      return replies.map((reply) =>
+        reply instanceof Error ? reply : parseRecord(reply as string),
       );
+    } catch (error) {
+      console.error("Redis atomicCheckAndLockMany failed:", error);
+      throw toStoreError(error);
+    }
+  }
 
-      if (success === 0) {
-        throw new Error(
-          "Failed to commit result: lock expired or already committed",
-        );
-      }
+  /**
+   * `commitResult` for many keys in one pipelined round trip – each entry is
+   * its own compare-and-set on the owner token.
+   *
+   * @param entries - Keys, owner tokens, fingerprints and results
+   * @param retentionMs - How long to keep the results
+   *
+   * @returns Per entry: `false` if the lock was lost, or a StoreError if it failed
+   *
+   * @throws StoreError if the pipeline itself fails (e.g. connection lost)
+   */
+  async commitResultMany(
+    entries: {
+      key: string;
+      token: string;
+      fingerprint: string;
+      result: unknown;
+    }[],
+    retentionMs: number,
+  ): Promise<(boolean | Error)[]> {
+    try {
+      const replies = await this.scriptMany(
+        "COMMIT_RESULT",
+        entries.map(({ key, token, fingerprint, result }) =>
+          commitCall(key, token, fingerprint, "committed", result, retentionMs),
+        ),
+      );
+
+      return replies.map((reply) =>
+        reply instanceof Error ? reply : reply === 1,
+      );
+    } catch (error) {
+      console.error("Redis commitResultMany failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Commit a terminal handler failure so retries replay it instead of re-running.
+   *
+   * Same compare-and-set semantics as `commitResult`; stores a `"failed"` record.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param fingerprint - Fingerprint of the request that failed
+   * @param error - Serialized terminal error (name, message, code, status)
+   * @param retentionMs - How long to keep the failure before expiration
+   *
+   * @returns `false` if the lock was lost (expired, stolen or already committed)
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async commitFailure(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ) {
+    return this.commit(key, token, fingerprint, "failed", error, retentionMs);
+  }
+
+  private async commit(
+    key: string,
+    token: string,
+    fingerprint: string,
+    outcome: "committed" | "failed",
+    payload: unknown,
+    retentionMs: number,
+  ) {
+    try {
+      const success = await this.script(
+        "COMMIT_RESULT",
+        ...commitCall(key, token, fingerprint, outcome, payload, retentionMs),
+      );
+
+      return success === 1;
     } catch (error) {
       console.error("Redis commitResult failed:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      throw new Error(`Idempotency store error: ${errorMessage}`);
+      throw toStoreError(error);
     }
   }
 
@@ -128,14 +320,414 @@ export class RedisAdapter implements IdempotencyStore {
    *
    * Typically not needed since locks auto-expire via TTL,
    * but useful for immediate cleanup after errors.
+   * Compare-and-delete: a committed result or a lock owned by another
+   * request is never removed.
    *
    * @param key - Idempotency key to unlock
+   * @param token - Owner token returned by `atomicCheckAndLock`
    *
    * @note Never throws – failures are silently ignored
    */
-  async releaseLock(key: string) {
-    await this.redis.unlink(key).catch(() => {
+  async releaseLock(key: string, token: string) {
+    await this.script(
+      "RELEASE_LOCK",
+      key, // KEYS[1]
+      token, // ARGV[1]
+      SETTLED_CHANNEL_PREFIX + key, // ARGV[2] (settle notification)
+    ).catch(() => {
       // Ignore errors – TTL will clean up eventually
     });
   }
+
+  /**
+   * Extend the lease of a processing lock held by a long-running handler.
+   *
+   * Only succeeds if the caller still owns the lock (owner token matches).
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - New lease duration from now (milliseconds)
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async extendLock(key: string, token: string, ttlMs: number) {
+    try {
+      const extended = await this.script(
+        "EXTEND_LOCK",
+        key, // KEYS[1]
+        token, // ARGV[1]
+        ttlMs.toString(), // ARGV[2]
+      );
+
+      return extended === 1;
+    } catch (error) {
+      console.error("Redis extendLock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Replace a timed-out processing lock with an "unknown" record.
+   *
+   * Retries are rejected until the record expires after `ttlMs`, so a side
+   * effect that completes late is never duplicated.
+   *
+   * @param key - Idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - How long to hold the key (the result retention)
+   *
+   * @returns `false` if the lock expired or is owned by another request
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async markUnknown(key: string, token: string, ttlMs: number) {
+    try {
+      const marked = await this.script(
+        "MARK_UNKNOWN",
+        key, // KEYS[1]
+        token, // ARGV[1]
+        ttlMs.toString(), // ARGV[2]
+        new Date().toISOString(), // ARGV[3]
+      );
+
+      return marked === 1;
+    } catch (error) {
+      console.error("Redis markUnknown failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Read the raw state of a key for admin tooling (no lock taken).
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns The record without its owner token, or `null` if missing
+   *
+   * @throws StoreError if Redis connection fails or the stored JSON is corrupted
+   */
+  async get(key: string): Promise<StoredRecord | null> {
+    try {
+      const [stored, pttl] = await Promise.all([
+        this.redis.get(key),
+        this.redis.pttl(key),
+      ]);
+      if (stored === null) return null;
+
+      const data = parseRecord(stored);
+      return {
+        status: data.status,
+        fingerprint: data.fingerprint,
+        result: data.result,
+        error: data.error,
+        createdAt: data.createdAt,
+        lockAcquiredAt: data.lockAcquiredAt,
+        expiresAt:
+          pttl > 0 ? new Date(Date.now() + pttl).toISOString() : undefined,
+      };
+    } catch (error) {
+      console.error("Redis get failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Delete a key in any state (admin purge).
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if the key existed
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async delete(key: string) {
+    try {
+      return (await this.redis.unlink(key)) === 1;
+    } catch (error) {
+      console.error("Redis delete failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * List keys starting with `prefix` via non-blocking `SCAN`.
+   *
+   * ⚠️ Keys may repeat across pages, and other keys sharing the prefix in the
+   * same database are returned too – give the engine a dedicated `keyPrefix`.
+   * On a Cluster the primaries are scanned one after another.
+   *
+   * @param prefix - Full key prefix (glob characters are escaped)
+   * @param options - Cursor from the previous page and `COUNT` hint
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async scan(
+    prefix: string,
+    options: { cursor?: string; count: number },
+  ): Promise<ScanPage> {
+    const match = prefix.replace(/[*?[\]\\]/g, "\\$&") + "*";
+
+    try {
+      if (!(this.redis instanceof Cluster)) {
+        const [next, keys] = await this.redis.scan(
+          options.cursor ?? "0",
+          "MATCH",
+          match,
+          "COUNT",
+          options.count,
+        );
+        return { keys, cursor: next === "0" ? undefined : next };
+      }
+
+      // Cluster: SCAN is per node – walk the primaries one after another,
+      // cursor = "<node index>:<node cursor>"
+      const nodes = this.redis.nodes("master");
+      const [nodeIndex, nodeCursor] = (options.cursor ?? "0:0").split(":");
+      const index = Number(nodeIndex);
+      if (index >= nodes.length) return { keys: [] };
+
+      const [next, keys] = await nodes[index].scan(
+        nodeCursor ?? "0",
+        "MATCH",
+        match,
+        "COUNT",
+        options.count,
+      );
+      if (next !== "0") return { keys, cursor: `${index}:${next}` };
+      return {
+        keys,
+        cursor: index + 1 < nodes.length ? `${index + 1}:0` : undefined,
+      };
+    } catch (error) {
+      console.error("Redis scan failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Remove a stuck processing lock or "unknown" record, whoever owns it.
+   *
+   * Committed results and failures are never removed. Waiters are woken up
+   * as if the lock had been released.
+   *
+   * @param key - Full idempotency key
+   *
+   * @returns `true` if a lock / unknown record was removed
+   *
+   * @throws StoreError if Redis connection fails
+   */
+  async forceUnlock(key: string) {
+    try {
+      const unlocked = await this.script(
+        "FORCE_UNLOCK",
+        key, // KEYS[1]
+        SETTLED_CHANNEL_PREFIX + key, // ARGV[1] (settle notification)
+      );
+
+      return unlocked === 1;
+    } catch (error) {
+      console.error("Redis forceUnlock failed:", error);
+      throw toStoreError(error);
+    }
+  }
+
+  /**
+   * Wait until the lock on `key` is committed or released (pub/sub wake-up).
+   *
+   * Resolves after `timeoutMs` at the latest – lock TTL expiry is not
+   * published, so callers must re-check the key afterwards.
+   *
+   * @param key - Idempotency key to watch
+   * @param timeoutMs - Maximum wait (milliseconds)
+   *
+   * @note Never rejects – subscription errors resolve early
+   */
+  async waitForChange(key: string, timeoutMs: number): Promise<void> {
+    const channel = SETTLED_CHANNEL_PREFIX + key;
+    const subscriber = this.getSubscriber();
+
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        const waiting = this.waiters.get(channel);
+        waiting?.delete(wake);
+        if (waiting?.size === 0) {
+          this.waiters.delete(channel);
+          subscriber.unsubscribe(channel).catch(() => {});
+        }
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+
+      let waiting = this.waiters.get(channel);
+      if (!waiting) {
+        waiting = new Set();
+        this.waiters.set(channel, waiting);
+        subscriber.subscribe(channel).catch(wake);
+      }
+      waiting.add(wake);
+    });
+  }
+
+  /**
+   * Close the adapter's own pub/sub connection.
+   *
+   * The Redis client passed to the constructor is NOT closed – it is owned by the caller.
+   */
+  async close() {
+    await this.subscriber?.quit().catch(() => {});
+    this.subscriber = undefined;
+  }
+
+  /**
+   * Run a registered Lua script (EVALSHA) inside a client span and record
+   * its duration.
+   */
+  private async script(
+    name: ScriptName,
+    key: string,
+    ...args: string[]
+  ): Promise<unknown> {
+    const run = (this.redis as unknown as Record<string, ScriptCommand>)[
+      SCRIPTS[name].command
+    ];
+    return this.traced(name, {}, () => run.call(this.redis, key, ...args));
+  }
+
+  /**
+   * Run a registered Lua script once per call – pipelined into one round
+   * trip on a standalone / Sentinel client. Cluster pipelines must stay in
+   * one hash slot, so there the calls are sent concurrently instead.
+   *
+   * @returns One reply per call, in order – or a StoreError for a call that
+   *   failed on its own
+   */
+  private async scriptMany(
+    name: ScriptName,
+    calls: [key: string, ...args: string[]][],
+  ): Promise<unknown[]> {
+    if (this.redis instanceof Cluster) {
+      return Promise.all(
+        calls.map((call) =>
+          this.script(name, ...call).catch((error) => toStoreError(error)),
+        ),
+      );
+    }
+
+    const pipeline = this.redis.pipeline();
+    const queue = (pipeline as unknown as Record<string, ScriptCommand>)[
+      SCRIPTS[name].command
+    ];
+    for (const call of calls) queue.call(pipeline, ...call);
+
+    const replies = await this.traced(
+      name,
+      { "db.operation.batch.size": calls.length },
+      () => pipeline.exec(),
+    );
+    return (replies ?? []).map(([error, reply]) =>
+      error ? toStoreError(error) : reply,
+    );
+  }
+
+  private async traced<T>(
+    name: ScriptName,
+    attributes: Attributes,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(
+      `redis ${name}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "db.system": "redis",
+          "db.operation.name": "EVALSHA",
+          "idempotkit.script": name,
+          ...attributes,
+        },
+      },
+      async (span) => {
+        const started = performance.now();
+        try {
+          return await call();
+        } catch (error) {
+          if (error instanceof Error) span.recordException(error);
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          throw error;
+        } finally {
+          this.scriptDuration.record(performance.now() - started, {
+            "idempotkit.script": name,
+          });
+          span.end();
+        }
+      },
+    );
+  }
+
+  private getSubscriber(): Redis | Cluster {
+    if (!this.subscriber) {
+      this.subscriber = this.redis.duplicate();
+      this.subscriber.on("message", (channel: string) => {
+        for (const wake of [...(this.waiters.get(channel) ?? [])]) wake();
+      });
+    }
+    return this.subscriber;
+  }
+}
+
+/** KEYS / ARGV for CHECK_AND_LOCK */
+function checkAndLockCall(
+  key: string,
+  fingerprint: string,
+  lockTtlMs: number,
+): [key: string, ...args: string[]] {
+  return [
+    key, // KEYS[1]
+    lockTtlMs.toString(), // ARGV[1] (Lua converts to number)
+    new Date().toISOString(), // ARGV[2] (timestamp)
+    randomUUID(), // ARGV[3] (owner token)
+    fingerprint, // ARGV[4] (stored with the lock)
+  ];
+}
+
+/** KEYS / ARGV for COMMIT_RESULT */
+function commitCall(
+  key: string,
+  token: string,
+  fingerprint: string,
+  outcome: "committed" | "failed",
+  payload: unknown,
+  retentionMs: number,
+): [key: string, ...args: string[]] {
+  return [
+    key, // KEYS[1]
+    fingerprint, // ARGV[1]
+    JSON.stringify(payload) ?? "null", // ARGV[2] (JSON text, stored as-is)
+    retentionMs.toString(), // ARGV[3]
+    new Date().toISOString(), // ARGV[4]
+    token, // ARGV[5]
+    SETTLED_CHANNEL_PREFIX + key, // ARGV[6] (settle notification)
+    outcome, // ARGV[7]
+  ];
 }
+
+/**
+ * Parse a stored record / script reply, decoding the opaque `payload` into
+ * `result` or `error` (records committed before payloads were stored as
+ * strings carry `result` / `error` directly).
+ */
+function parseRecord(json: string) {
+  const { payload, outcome, ...data } = JSON.parse(json);
+  if (typeof payload !== "string") return data;
+
+  const decoded = JSON.parse(payload);
+  return (outcome ?? data.status) === "failed"
+    ? { ...data, error: decoded }
+    : { ...data, result: decoded };
+}
+
+export { classifyRedisError } from "./errors";
+export { createRedisStreamAuditBackend } from "./audit";
+export type { RedisStreamAuditBackendOptions } from "./audit";
@@ -1,37 +1,62 @@
+/**
+ * Channel prefix for "lock settled" notifications, published by
+ * COMMIT_RESULT / RELEASE_LOCK so waiters wake up without polling.
+ */
+export const SETTLED_CHANNEL_PREFIX = "idempotkit:settled:";
+
 export const CHECK_AND_LOCK = `
   local key = KEYS[1]
   local lock_ttl = tonumber(ARGV[1])
   local now = ARGV[2]
+  local token = ARGV[3]
+  local fingerprint = ARGV[4]
+
+  local lock_data = cjson.encode({
+    status='processing',
+    token=token,
+    fingerprint=fingerprint,
+    lockAcquiredAt=now
+  })
 
   local stored = redis.call('GET', key)
   if stored then
     -- ✅ SAFE DECODE: pcall catches JSON parse errors
     local success, data = pcall(cjson.decode, stored)
     if not success or type(data) ~= 'table' or not data.status then
-      -- Corrupted/invalid data → treat as available
-      return cjson.encode({status='acquired'})
+      -- Corrupted/invalid data → overwrite with our lock
+      redis.call('SET', key, lock_data, 'PX', lock_ttl)
+      return cjson.encode({status='acquired', token=token})
     end
 
     if data.status == 'processing' then
-      return cjson.encode({status='locked'})
+      -- Locks taken before fingerprints were stored cannot be compared
+      if data.fingerprint == nil then
+        return cjson.encode({status='locked'})
+      end
+      return cjson.encode({
+        status='locked',
+        fingerprintMatches=(data.fingerprint == fingerprint)
+      })
+    elseif data.status == 'unknown' then
+      return cjson.encode({status='unknown'})
     else
+      -- payload is passed through untouched; result / error are records
+      -- written before payloads were stored opaquely
       return cjson.encode({
         status='exists',
         fingerprint=data.fingerprint or '',
+        payload=data.payload,
+        outcome=data.status,
         result=data.result,
+        error=data.error,
         createdAt=data.createdAt or now
       })
     end
   end
 
-  local lock_data = cjson.encode({
-    status='processing',
-    lockAcquiredAt=now
-  })
-  
   local ok = redis.call('SET', key, lock_data, 'PX', lock_ttl, 'NX')
   if ok then 
-    return cjson.encode({status='acquired'}) 
+    return cjson.encode({status='acquired', token=token}) 
   else
     return cjson.encode({status='locked'})
   end
@@ -40,9 +65,12 @@ export const CHECK_AND_LOCK = `
 export const COMMIT_RESULT = `
   local key = KEYS[1]
   local fingerprint = ARGV[1]
-  local result_json = ARGV[2]
+  local payload = ARGV[2]  -- JSON text, stored opaquely (never decoded here)
   local retention_ms = tonumber(ARGV[3])
   local now = ARGV[4]
+  local token = ARGV[5]
+  local channel = ARGV[6]
+  local outcome = ARGV[7]  -- 'committed' (result) or 'failed' (terminal error)
 
   -- Get current value to verify we still hold the lock
   local stored = redis.call('GET', key)
@@ -55,14 +83,138 @@ export const COMMIT_RESULT = `
     return 0  -- Not in processing state (already committed or corrupted)
   end
 
-  -- Commit final result
+  if data.token ~= token then
+    return 0  -- Lock taken over by another request
+  end
+
+  -- Commit final outcome. The payload stays a string: a cjson round trip
+  -- would turn empty arrays into objects and round large integers.
   local committed_data = cjson.encode({
-    status = 'committed',
+    status = outcome,
     fingerprint = fingerprint,
-    result = cjson.decode(result_json),
+    payload = payload,
     createdAt = now
   })
 
   redis.call('SET', key, committed_data, 'PX', retention_ms)
+  redis.call('PUBLISH', channel, outcome)
+  return 1
+`;
+
+export const RELEASE_LOCK = `
+  local key = KEYS[1]
+  local token = ARGV[1]
+  local channel = ARGV[2]
+
+  local stored = redis.call('GET', key)
+  if not stored then
+    return 0  -- Already expired
+  end
+
+  local success, data = pcall(cjson.decode, stored)
+  if not success or type(data) ~= 'table' then
+    return 0  -- Not ours to touch
+  end
+
+  -- Compare-and-delete: never remove a committed result or someone else's lock
+  if data.status ~= 'processing' or data.token ~= token then
+    return 0
+  end
+
+  redis.call('UNLINK', key)
+  redis.call('PUBLISH', channel, 'released')
+  return 1
+`;
+
+export const EXTEND_LOCK = `
+  local key = KEYS[1]
+  local token = ARGV[1]
+  local ttl_ms = tonumber(ARGV[2])
+
+  local stored = redis.call('GET', key)
+  if not stored then
+    return 0  -- Lock already expired
+  end
+
+  local success, data = pcall(cjson.decode, stored)
+  if not success or type(data) ~= 'table' then
+    return 0
+  end
+
+  -- Compare-and-set: only the current owner may renew its lease
+  if data.status ~= 'processing' or data.token ~= token then
+    return 0
+  end
+
+  redis.call('PEXPIRE', key, ttl_ms)
+  return 1
+`;
+
+export const MARK_UNKNOWN = `
+  local key = KEYS[1]
+  local token = ARGV[1]
+  local ttl_ms = tonumber(ARGV[2])
+  local now = ARGV[3]
+
+  local stored = redis.call('GET', key)
+  if not stored then
+    return 0  -- Lock already expired
+  end
+
+  local success, data = pcall(cjson.decode, stored)
+  if not success or type(data) ~= 'table' then
+    return 0
+  end
+
+  -- Compare-and-set: only the timed-out owner may hold the key
+  if data.status ~= 'processing' or data.token ~= token then
+    return 0
+  end
+
+  redis.call('SET', key, cjson.encode({status='unknown', createdAt=now}), 'PX', ttl_ms)
+  return 1
+`;
+
+export const FORCE_UNLOCK = `
+  local key = KEYS[1]
+  local channel = ARGV[1]
+
+  local stored = redis.call('GET', key)
+  if not stored then
+    return 0
+  end
+
+  local success, data = pcall(cjson.decode, stored)
+  if not success or type(data) ~= 'table' then
+    return 0  -- Corrupted – overwritten by the next CHECK_AND_LOCK anyway
+  end
+
+  -- Any owner, but only locks / unknown records – never a stored outcome
+  if data.status ~= 'processing' and data.status ~= 'unknown' then
+    return 0
+  end
+
+  redis.call('UNLINK', key)
+  redis.call('PUBLISH', channel, 'released')
+  return 1
+`;
+
+export const AUDIT_APPEND = `
+  local stream = KEYS[1]
+  local seq = tonumber(ARGV[1])
+  local record = ARGV[2]
+
+  -- Compare-and-append: the chain head must still be seq - 1
+  local head = redis.call('XREVRANGE', stream, '+', '-', 'COUNT', 1)
+  local head_seq = 0
+  if #head > 0 then
+    head_seq = tonumber(string.match(head[1][1], '^(%d+)'))
+  end
+  if head_seq ~= seq - 1 then
+    return 0
+  end
+
+  -- Entry id = sequence number, so ids and seqs can never diverge
+  redis.call('XADD', stream, seq .. '-0', 'record', record)
   return 1
 `;
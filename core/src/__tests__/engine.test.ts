@@ -1,12 +1,46 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
 import { IdempotencyEngine } from "../engine";
 import { MemoryStore } from "./mocks/memory-store";
+import { acquiredLease, outcomeError } from "./helpers";
+import { createEncryptionCodec, staticKeyProvider } from "../encryption";
+import { canonicalize, createJcsFingerprint } from "../fingerprint";
+import { dedupeMessage, messageSources } from "../dedupe";
+import type { SerializationOptions } from "../serialization";
+import type { Lease } from "../types";
+import { TieredStore } from "../tiered";
+import {
+  HashChainAuditSink,
+  createJsonlAuditBackend,
+  verifyAuditChain,
+} from "../audit";
 import {
   FingerprintMismatchError,
   InvalidIdempotencyKeyError,
   InvalidRetentionError,
   OperationInProgressError,
   HandlerTimeoutError,
+  LockLostError,
+  TerminalError,
+  OutcomeUnknownError,
+  UnsupportedOperationError,
+  IdempotencyInternalError,
+  AuditUnavailableError,
+  LockAcquisitionError,
+  StoreError,
 } from "../errors";
 
 describe("IdempotencyEngine", () => {
@@ -134,6 +168,216 @@ describe("IdempotencyEngine", () => {
       const result1 = await req1Promise;
       expect(result1).toEqual({ done: true });
     });
+
+    it("should reject a concurrent retry with a different payload as a mismatch", async () => {
+      let resolveHandler: () => void;
+      const key = "concurrent-tamper-key";
+      const fp1 = engine.fingerprint({ amount: 100 });
+      const fp2 = engine.fingerprint({ amount: 999 });
+
+      const req1Promise = engine.execute(key, fp1, () =>
+        new Promise<void>((resolve) => {
+          resolveHandler = resolve;
+        }).then(() => ({ done: true })),
+      );
+
+      // Rejected right away – no waiting for the in-flight request
+      const startedAt = Date.now();
+      await expect(
+        engine.execute(key, fp2, async () => ({ shouldNotRun: true }), {
+          waitForResult: { timeoutMs: 5_000, pollIntervalMs: 20 },
+        }),
+      ).rejects.toThrow(FingerprintMismatchError);
+      expect(Date.now() - startedAt).toBeLessThan(1_000);
+
+      const mismatch = auditMock.mock.calls
+        .map(([e]: any[]) => e)
+        .find((e: any) => e.action === "fingerprint_mismatch");
+      expect(mismatch).toMatchObject({
+        key,
+        fingerprint: fp2,
+        metadata: { lockHeld: true },
+      });
+
+      resolveHandler!();
+      await expect(req1Promise).resolves.toEqual({ done: true });
+    });
+
+    it("should reject begin with a different payload while a lease is held", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      await engine.begin("lease-tamper-key", fp);
+
+      await expect(
+        engine.begin("lease-tamper-key", engine.fingerprint({ amount: 999 })),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+
+    it("should raise LockLostError when the lock is taken over before commit", async () => {
+      const key = "stolen-key";
+      const fp = engine.fingerprint({ test: true });
+
+      await expect(
+        engine.execute(key, fp, async () => {
+          // Simulate lockTtl expiry + a second request acquiring the lock
+          store.stealLock(key);
+          return { charged: true };
+        }),
+      ).rejects.toThrow(LockLostError);
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("lock_lost");
+      expect(actions).not.toContain("stored");
+      expect(actions).not.toContain("lock_released");
+
+      // The new owner's lock must survive the stale worker
+      await expect(
+        engine.execute(key, fp, async () => ({ shouldNotRun: true })),
+      ).rejects.toThrow(OperationInProgressError);
+    });
+  });
+
+  describe("Wait For Result", () => {
+    it("should return the original result once the in-flight request commits", async () => {
+      const key = "wait-key";
+      const fp = engine.fingerprint({ test: true });
+      const duplicateHandler = vi.fn(async () => ({ shouldNotRun: true }));
+
+      const req1Promise = engine.execute(key, fp, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        return { done: true };
+      });
+      const req2Promise = engine.execute(key, fp, duplicateHandler, {
+        waitForResult: { timeoutMs: 1_000, pollIntervalMs: 20 },
+      });
+
+      await expect(req1Promise).resolves.toEqual({ done: true });
+      await expect(req2Promise).resolves.toEqual({ done: true });
+      expect(duplicateHandler).not.toHaveBeenCalled();
+    });
+
+    it("should run the handler if the in-flight request released its lock", async () => {
+      const key = "wait-release-key";
+      const fp = engine.fingerprint({ test: true });
+
+      const req1Promise = engine.execute(key, fp, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        throw new Error("transient failure");
+      });
+      const req2Promise = engine.execute(key, fp, async () => ({ retry: 1 }), {
+        waitForResult: { timeoutMs: 1_000, pollIntervalMs: 20 },
+      });
+
+      await expect(req1Promise).rejects.toThrow("transient failure");
+      await expect(req2Promise).resolves.toEqual({ retry: 1 });
+    });
+
+    it("should still throw OperationInProgressError when the wait times out", async () => {
+      const key = "wait-timeout-key";
+      const fp = engine.fingerprint({ test: true });
+      let resolveHandler: () => void;
+
+      const req1Promise = engine.execute(
+        key,
+        fp,
+        () =>
+          new Promise<void>((resolve) => {
+            resolveHandler = resolve;
+          }),
+      );
+
+      await expect(
+        engine.execute(key, fp, async () => ({ shouldNotRun: true }), {
+          waitForResult: { timeoutMs: 100, pollIntervalMs: 20 },
+        }),
+      ).rejects.toThrow(OperationInProgressError);
+
+      resolveHandler!();
+      await req1Promise;
+    });
+
+    it("should use the store's waitForChange when available", async () => {
+      const waitForChange = vi.fn(
+        (_key: string, timeoutMs: number) =>
+          new Promise<void>((resolve) => setTimeout(resolve, timeoutMs)),
+      );
+      Object.assign(store, { waitForChange });
+      const key = "wait-subscribe-key";
+      const fp = engine.fingerprint({ test: true });
+
+      const req1Promise = engine.execute(key, fp, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return { done: true };
+      });
+      const req2Promise = engine.execute(key, fp, async () => ({}), {
+        waitForResult: { timeoutMs: 1_000, pollIntervalMs: 20 },
+      });
+
+      await expect(req2Promise).resolves.toEqual({ done: true });
+      await req1Promise;
+      expect(waitForChange).toHaveBeenCalledWith(
+        "wait-subscribe-key",
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe("Lock Heartbeat", () => {
+    it("should renew the lock while a slow handler runs", async () => {
+      const shortLockEngine = new IdempotencyEngine(store, {
+        lockTtl: 60,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      });
+      const key = "slow-key";
+      const fp = shortLockEngine.fingerprint({ test: true });
+
+      const result = await shortLockEngine.execute(key, fp, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return { done: true };
+      });
+
+      expect(result).toEqual({ done: true });
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("lock_extended");
+      expect(actions).toContain("stored");
+      expect(actions).not.toContain("lock_lost");
+    });
+
+    it("should stop renewing and audit lock_lost when renewal fails", async () => {
+      const shortLockEngine = new IdempotencyEngine(store, {
+        lockTtl: 60,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      });
+      const extendSpy = vi.spyOn(store, "extendLock");
+      const key = "lost-lease-key";
+      const fp = shortLockEngine.fingerprint({ test: true });
+
+      await expect(
+        shortLockEngine.execute(key, fp, async () => {
+          store.stealLock(key);
+          await new Promise((resolve) => setTimeout(resolve, 150));
+          return { done: true };
+        }),
+      ).rejects.toThrow(LockLostError);
+
+      expect(extendSpy).toHaveBeenCalledTimes(1);
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("lock_lost");
+      expect(actions).not.toContain("lock_extended");
+    });
+
+    it("should reject a renewal interval not shorter than lockTtl", () => {
+      expect(
+        () =>
+          new IdempotencyEngine(store, {
+            lockTtl: 1_000,
+            lockRenewalInterval: 1_000,
+            retention: 86_400_000,
+            onAudit: auditMock,
+          }),
+      ).toThrow("lockRenewalInterval must be between 10ms and lockTtl");
+    });
   });
 
   describe("Validation", () => {
@@ -185,6 +429,103 @@ describe("IdempotencyEngine", () => {
     });
   });
 
+  describe("Compliance Profiles", () => {
+    it("should enforce the profile's retention floor", async () => {
+      expect(
+        () =>
+          new IdempotencyEngine(store, {
+            lockTtl: 30_000,
+            retention: 86_400_000,
+            onAudit: auditMock,
+            compliance: "cbn",
+          }),
+      ).toThrow(InvalidRetentionError);
+
+      const cbn = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 7 * 86_400_000,
+        onAudit: auditMock,
+        compliance: "cbn",
+      });
+      await expect(
+        cbn.execute("cbn-key", "fp", async () => "ok", {
+          retentionOverride: 86_400_000,
+        }),
+      ).rejects.toThrow(`"cbn" compliance profile`);
+    });
+
+    it('should allow short retention and no audit hook under "none"', async () => {
+      const dev = new IdempotencyEngine(store, {
+        lockTtl: 1_000,
+        retention: 5_000,
+        compliance: "none",
+      });
+
+      await expect(
+        dev.execute("dev-key", "fp", async () => "ok"),
+      ).resolves.toBe("ok");
+      expect(
+        () =>
+          new IdempotencyEngine(store, {
+            lockTtl: 1_000,
+            retention: 86_400_000,
+          }),
+      ).toThrow("onAudit is REQUIRED");
+    });
+
+    it("should apply custom retention bounds and redaction rules", async () => {
+      const custom = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        compliance: {
+          name: "pci-dss+gdpr",
+          minRetention: 86_400_000,
+          maxRetention: 30 * 86_400_000,
+          requireAudit: true,
+          redactMetadataKeys: /^(ip|accountNumber)$/,
+        },
+      });
+
+      await expect(
+        custom.execute("gdpr-key", "fp", async () => "ok", {
+          retentionOverride: 90 * 86_400_000,
+        }),
+      ).rejects.toThrow("at most");
+
+      await custom.execute("gdpr-key", "fp", async () => "ok", {
+        metadata: { ip: "10.0.0.1", accountNumber: "0123", requestId: "r1" },
+      });
+      const [event] = auditMock.mock.calls.at(-1);
+      expect(event.metadata).toEqual({ requestId: "r1" });
+    });
+
+    it("should record the profile on every audit event", async () => {
+      await engine.execute("profile-key", "fp", async () => "ok");
+
+      const events = auditMock.mock.calls.map(([e]: any[]) => e);
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((e: any) => e.profile === "pci-dss")).toBe(true);
+    });
+
+    it("should reject invalid custom profiles", () => {
+      expect(
+        () =>
+          new IdempotencyEngine(store, {
+            lockTtl: 30_000,
+            retention: 86_400_000,
+            onAudit: auditMock,
+            compliance: {
+              name: "broken",
+              minRetention: 86_400_000,
+              maxRetention: 1_000,
+              requireAudit: true,
+            },
+          }),
+      ).toThrow("maxRetention");
+    });
+  });
+
   describe("Key Prefixing", () => {
     it("should apply key prefix correctly", async () => {
       const prefixedEngine = new IdempotencyEngine(store, {
@@ -207,6 +548,134 @@ describe("IdempotencyEngine", () => {
     });
   });
 
+  describe("Key Scoping & Policy", () => {
+    it("should keep the same key apart across scopes", async () => {
+      const handler = vi.fn(async () => ({ charged: true }));
+
+      await engine.execute(
+        "shared-key",
+        engine.fingerprint({ a: 1 }),
+        handler,
+        {
+          scope: "tenant-a",
+        },
+      );
+      // Different payload under another scope – no mismatch, no replay
+      await engine.execute(
+        "shared-key",
+        engine.fingerprint({ b: 2 }),
+        handler,
+        {
+          scope: "tenant-b",
+        },
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      const keys = auditMock.mock.calls.map(([e]: any[]) => e.key);
+      expect(keys).toContain("@tenant-a:shared-key");
+      expect(keys).toContain("@tenant-b:shared-key");
+    });
+
+    it("should encode scopes so they cannot forge another scope's keys", async () => {
+      const fp = engine.fingerprint({ test: true });
+      await engine.execute("k", fp, async () => ({ owner: "a:b" }), {
+        scope: "a:b",
+      });
+
+      // ("a", "b:k") must not address ("a:b", "k")
+      await expect(
+        engine.execute("b:k", fp, async () => ({ owner: "a" }), {
+          scope: "a",
+        }),
+      ).resolves.toEqual({ owner: "a" });
+
+      // Nor may an unscoped key
+      await expect(
+        engine.execute("@a%3Ab:k", fp, async () => ({})),
+      ).rejects.toMatchObject({
+        reason: "reserved_prefix",
+        code: "IDEMPOTENCY_KEY_RESERVED_PREFIX",
+      });
+      await expect(
+        engine.execute("k", fp, async () => ({}), { scope: "" }),
+      ).rejects.toMatchObject({ reason: "invalid_scope" });
+    });
+
+    it("should reject keys that violate the key policy with a reason", async () => {
+      const strict = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        keyPolicy: { maxLength: 40, format: "uuid" },
+      });
+      const fp = strict.fingerprint({ test: true });
+      const handler = async () => ({ ok: true });
+
+      await expect(strict.execute("", fp, handler)).rejects.toMatchObject({
+        reason: "required",
+        code: "IDEMPOTENCY_KEY_REQUIRED",
+      });
+      await expect(
+        strict.execute("x".repeat(41), fp, handler),
+      ).rejects.toMatchObject({
+        reason: "too_long",
+        code: "IDEMPOTENCY_KEY_TOO_LONG",
+        status: 400,
+      });
+      await expect(
+        strict.execute("not-a-uuid", fp, handler),
+      ).rejects.toMatchObject({ reason: "invalid_format" });
+      await expect(
+        strict.execute("0f8fad5b-d9cb-469f-a165-70867728950e", fp, handler),
+      ).resolves.toEqual({ ok: true });
+
+      const charset = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        keyPolicy: { charset: /[A-Za-z0-9_-]+/, format: "ulid" },
+      });
+      await expect(
+        charset.execute("01ARZ3NDEKTSV4RRFFQ69G5FAV", fp, handler),
+      ).resolves.toEqual({ ok: true });
+      await expect(
+        charset.execute("01ARZ3NDEKTSV4RRFFQ69G5FAU", fp, handler),
+      ).rejects.toMatchObject({ reason: "invalid_format" }); // U is not Crockford
+
+      const noSpaces = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        keyPolicy: { charset: /[A-Za-z0-9_-]+/ },
+      });
+      await expect(
+        noSpaces.execute("order 42", fp, handler),
+      ).rejects.toMatchObject({
+        reason: "invalid_charset",
+        code: "IDEMPOTENCY_KEY_INVALID_CHARSET",
+      });
+    });
+
+    it("should carry the scope in leases and admin calls", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const { lease } = (await engine.begin("lease-key", fp, {
+        scope: "tenant-a",
+      })) as any;
+      expect(lease.scope).toBe("tenant-a");
+
+      await engine.complete(JSON.parse(JSON.stringify(lease)), { paid: true });
+
+      await expect(
+        engine.inspect("lease-key", { scope: "tenant-a" }),
+      ).resolves.toMatchObject({ status: "committed", result: { paid: true } });
+      await expect(engine.inspect("lease-key")).resolves.toBeNull();
+      await expect(engine.list("", { scope: "tenant-a" })).resolves.toEqual({
+        keys: ["lease-key"],
+        cursor: undefined,
+      });
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle handler errors gracefully", async () => {
       const failingHandler = () => Promise.reject(new Error("Handler failed"));
@@ -237,62 +706,1520 @@ describe("IdempotencyEngine", () => {
     });
   });
 
-  describe("Audit", () => {
-    it("should call audit hook for every significant event", async () => {
-      const handler = () => Promise.resolve({ success: true });
-      const key = "audit-key";
-      const fp = engine.fingerprint({ test: true });
+  describe("Store Unavailable", () => {
+    const storeDown = () =>
+      vi
+        .spyOn(store, "atomicCheckAndLock")
+        .mockRejectedValue(new StoreError("ECONNREFUSED", "unavailable"));
+    const degradedEngine = (
+      onStoreUnavailable: "reject" | "bypass" | "local-lock",
+    ) =>
+      new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        onStoreUnavailable,
+      });
 
-      await engine.execute(key, fp, handler);
+    it("should fail closed with LockAcquisitionError by default", async () => {
+      storeDown();
+      const handler = vi.fn(async () => "charged");
 
+      const error = await engine
+        .execute("down-key", engine.fingerprint({}), handler)
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.status).toBe(503);
+      expect(error.cause).toBeInstanceOf(StoreError);
+      expect(handler).not.toHaveBeenCalled();
       expect(auditMock).toHaveBeenCalledWith(
         expect.objectContaining({
-          action: "acquired",
-          key: "audit-key",
-        }),
-      );
-      expect(auditMock).toHaveBeenCalledWith(
-        expect.objectContaining({
-          action: "stored",
-          key: "audit-key",
+          action: "error",
+          metadata: expect.objectContaining({ reason: "store_unavailable" }),
         }),
       );
+    });
+
+    it("should run the handler unprotected and audit it under bypass", async () => {
+      storeDown();
+      const commit = vi.spyOn(store, "commitResult");
+      const bypass = degradedEngine("bypass");
+
+      await expect(
+        bypass.execute("bypass-key", bypass.fingerprint({}), async () => "ok"),
+      ).resolves.toBe("ok");
+
+      expect(commit).not.toHaveBeenCalled();
       expect(auditMock).toHaveBeenCalledWith(
         expect.objectContaining({
-          action: "lock_released",
-          key: "audit-key",
+          action: "bypassed",
+          key: "bypass-key",
+          metadata: expect.objectContaining({ policy: "bypass" }),
         }),
       );
     });
 
-    it("should use per-request audit override", async () => {
-      const overrideAudit = vi.fn();
-      const handler = () => Promise.resolve({ success: true });
-      const key = "override-audit-key";
-      const fp = engine.fingerprint({ test: true });
+    it("should reject in-process duplicates under local-lock", async () => {
+      storeDown();
+      const local = degradedEngine("local-lock");
+      const fp = local.fingerprint({});
+      let finish!: (value: string) => void;
+      const handler = vi.fn(
+        () => new Promise<string>((resolve) => (finish = resolve)),
+      );
 
-      await engine.execute(key, fp, handler, {
-        onAudit: overrideAudit,
-        metadata: { custom: "value" },
-      });
+      const first = local.execute("local-key", fp, handler);
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+      await expect(local.execute("local-key", fp, handler)).rejects.toThrow(
+        OperationInProgressError,
+      );
 
-      expect(overrideAudit).toHaveBeenCalled();
-      expect(auditMock).not.toHaveBeenCalled();
+      finish("done");
+      await expect(first).resolves.toBe("done");
+      // The local lock is released afterwards (nothing is stored)
+      await expect(
+        local.execute("local-key", fp, async () => "again"),
+      ).resolves.toBe("again");
     });
-  });
 
-  describe("Fingerprinting", () => {
-    it("should normalize fingerprints (key order independence)", () => {
-      const fp1 = engine.fingerprint({ a: 1, b: 2, c: 3 });
-      const fp2 = engine.fingerprint({ c: 3, b: 2, a: 1 });
-      const fp3 = engine.fingerprint({ b: 2, a: 1, c: 3 });
+    it("should open the circuit and fail fast until the reset timeout", async () => {
+      const check = storeDown();
+      const breaking = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 100 },
+      });
+      const fp = breaking.fingerprint({});
+      const attempt = () =>
+        breaking.execute("circuit-key", fp, async () => "ok").catch((e) => e);
 
-      expect(fp1).toBe(fp2);
-      expect(fp2).toBe(fp3);
+      await attempt();
+      await attempt();
+      expect(breaking.storeCircuit).toBe("open");
+
+      const error = await attempt();
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.cause.message).toMatch(/circuit is open/);
+      expect(check).toHaveBeenCalledTimes(2); // third call never reached the store
+
+      // Half-open after the reset timeout: one trial call closes it again
+      check.mockRestore();
+      await new Promise((resolve) => setTimeout(resolve, 120));
+      expect(breaking.storeCircuit).toBe("half-open");
+      await expect(
+        breaking.execute("circuit-key", fp, async () => "ok"),
+      ).resolves.toBe("ok");
+      expect(breaking.storeCircuit).toBe("closed");
     });
 
-    it("should normalize nested objects", () => {
-      const fp1 = engine.fingerprint({
+    it("should still commit a handler that finishes while the circuit is open", async () => {
+      const breaking = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 10_000 },
+      });
+      const fp = breaking.fingerprint({});
+      const commit = vi.spyOn(store, "commitResult");
+      let finish!: (value: string) => void;
+      const inFlight = breaking.execute(
+        "in-flight-key",
+        fp,
+        () => new Promise<string>((resolve) => (finish = resolve)),
+      );
+      await vi.waitFor(() => expect(finish).toBeDefined());
+
+      // Other requests open the circuit meanwhile
+      const check = storeDown();
+      for (const key of ["other-1", "other-2"]) {
+        await breaking.execute(key, fp, async () => "ok").catch(() => {});
+      }
+      expect(breaking.storeCircuit).toBe("open");
+      check.mockRestore();
+
+      finish("charged");
+      await expect(inFlight).resolves.toBe("charged");
+      expect(commit).toHaveBeenCalledTimes(1);
+      await expect(store.get("in-flight-key")).resolves.toMatchObject({
+        status: "committed",
+        result: "charged",
+      });
+    });
+
+    it("should not treat data errors as an outage", async () => {
+      vi.spyOn(store, "atomicCheckAndLock").mockRejectedValue(
+        new StoreError("corrupted record", "data"),
+      );
+      const bypass = degradedEngine("bypass");
+      const handler = vi.fn(async () => "ok");
+
+      await expect(
+        bypass.execute("data-key", bypass.fingerprint({}), handler),
+      ).rejects.toThrow("corrupted record");
+      expect(handler).not.toHaveBeenCalled();
+      expect(bypass.storeCircuit).toBe("closed");
+    });
+  });
+
+  describe("Terminal Errors", () => {
+    it("should replay a TerminalError instead of re-running the handler", async () => {
+      const handler = vi.fn(() =>
+        Promise.reject(
+          new TerminalError("card declined", 402, "CARD_DECLINED"),
+        ),
+      );
+      const key = "declined-key";
+      const fp = engine.fingerprint({ amount: 100 });
+
+      await expect(engine.execute(key, fp, handler)).rejects.toThrow(
+        "card declined",
+      );
+
+      const replayed = await engine
+        .execute(key, fp, handler)
+        .catch((err: unknown) => err);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(replayed).toBeInstanceOf(TerminalError);
+      expect(replayed).toMatchObject({
+        name: "TerminalError",
+        message: "card declined",
+        status: 402,
+        code: "CARD_DECLINED",
+      });
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("failure_stored");
+      expect(actions).toContain("hit");
+    });
+
+    it("should not release the lock once the failure is stored", async () => {
+      const release = vi.spyOn(store, "releaseLock");
+
+      await expect(
+        engine.execute("declined-release-key", engine.fingerprint({}), () =>
+          Promise.reject(new TerminalError("card declined", 402)),
+        ),
+      ).rejects.toThrow("card declined");
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toEqual(["acquired", "error", "failure_stored"]);
+      expect(release).not.toHaveBeenCalled();
+    });
+
+    it("should classify errors with isTerminalError", async () => {
+      class DeclinedError extends Error {
+        name = "DeclinedError";
+      }
+      const handler = vi.fn(() => Promise.reject(new DeclinedError("nope")));
+      const options = {
+        isTerminalError: (err: unknown) => err instanceof DeclinedError,
+      };
+      const key = "classified-key";
+      const fp = engine.fingerprint({ amount: 100 });
+
+      await expect(engine.execute(key, fp, handler, options)).rejects.toThrow(
+        DeclinedError,
+      );
+      await expect(
+        engine.execute(key, fp, handler, options),
+      ).rejects.toMatchObject({ name: "DeclinedError", message: "nope" });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep retrying non-terminal errors", async () => {
+      const handler = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("network blip"))
+        .mockResolvedValueOnce({ success: true });
+      const key = "retryable-key";
+      const fp = engine.fingerprint({ amount: 100 });
+
+      await expect(engine.execute(key, fp, handler)).rejects.toThrow(
+        "network blip",
+      );
+      await expect(engine.execute(key, fp, handler)).resolves.toEqual({
+        success: true,
+      });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should still enforce fingerprints on stored failures", async () => {
+      const handler = () => Promise.reject(new TerminalError("card declined"));
+      const key = "declined-mismatch-key";
+
+      await expect(
+        engine.execute(key, engine.fingerprint({ amount: 100 }), handler),
+      ).rejects.toThrow(TerminalError);
+      await expect(
+        engine.execute(key, engine.fingerprint({ amount: 999 }), handler),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+  });
+
+  describe("Batch Execution", () => {
+    const line = (id: number, amount = id * 100) => ({
+      key: `payout-${id}`,
+      fingerprint: engine.fingerprint({ id, amount }),
+      input: { id, amount },
+    });
+
+    it("should lock and commit the whole batch in one store call each", async () => {
+      const lockMany = vi.spyOn(store, "atomicCheckAndLockMany");
+      const commitMany = vi.spyOn(store, "commitResultMany");
+      const handler = vi.fn(async (item: { input: { id: number } }) => ({
+        paid: item.input.id,
+      }));
+      const items = [line(1), line(2), line(3)];
+
+      const first = await engine.executeMany(items, handler);
+      expect(first).toEqual([
+        { key: "payout-1", status: "executed", result: { paid: 1 } },
+        { key: "payout-2", status: "executed", result: { paid: 2 } },
+        { key: "payout-3", status: "executed", result: { paid: 3 } },
+      ]);
+      expect(lockMany).toHaveBeenCalledTimes(1);
+      expect(commitMany).toHaveBeenCalledTimes(1);
+
+      const second = await engine.executeMany(items, handler);
+      expect(second.map((o) => o.status)).toEqual(["hit", "hit", "hit"]);
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not lock queued items while the batch outlasts lockTtl", async () => {
+      const shortLocks = new IdempotencyEngine(store, {
+        lockTtl: 100,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      });
+      const runs: string[] = [];
+      const work = (name: string) => async () => {
+        runs.push(name);
+        await new Promise((resolve) => setTimeout(resolve, 80));
+        return name;
+      };
+
+      const batch = shortLocks.executeMany(
+        ["a", "b", "c"].map((key) => ({ key, fingerprint: "fp", input: key })),
+        (item) => work(`batch:${item.input}`)(),
+        { concurrency: 1 },
+      );
+      // Arrives while "b" runs – "c" must not have been locked (and expired) yet
+      await new Promise((resolve) => setTimeout(resolve, 130));
+      const single = shortLocks.execute("c", "fp", work("single:c"));
+
+      const outcomes = await batch;
+      await expect(single).resolves.toBe("single:c");
+      expect(runs).toEqual(["batch:a", "batch:b", "single:c"]);
+      expect(outcomes.map((o) => o.status)).toEqual([
+        "executed",
+        "executed",
+        "locked",
+      ]);
+    });
+
+    it("should report per-item outcomes without failing the batch", async () => {
+      await engine.execute("payout-2", line(2).fingerprint, async () => "done");
+      await store.atomicCheckAndLock("payout-3", line(3).fingerprint, 30_000);
+
+      const outcomes = await engine.executeMany(
+        [
+          line(1),
+          line(2, 999), // same key, different amount
+          line(3), // held by a concurrent request
+          line(4),
+          { key: "  ", fingerprint: "fp", input: { id: 5, amount: 0 } },
+        ],
+        async (item) => {
+          if (item.input.id === 4) throw new Error("bank rejected");
+          return "done";
+        },
+      );
+
+      expect(outcomes.map((o) => o.status)).toEqual([
+        "executed",
+        "mismatch",
+        "locked",
+        "error",
+        "error",
+      ]);
+      expect(outcomeError(outcomes[1])).toBeInstanceOf(
+        FingerprintMismatchError,
+      );
+      expect(outcomeError(outcomes[2])).toBeInstanceOf(
+        OperationInProgressError,
+      );
+      expect(outcomeError(outcomes[3])).toMatchObject({
+        message: "bank rejected",
+      });
+      expect(outcomeError(outcomes[4])).toBeInstanceOf(
+        InvalidIdempotencyKeyError,
+      );
+
+      // The failed line released its lock and can be retried
+      const retry = await engine.executeMany([line(4)], async () => "done");
+      expect(retry[0].status).toBe("executed");
+    });
+
+    it("should run only one item per duplicated key", async () => {
+      const handler = vi.fn(async () => "done");
+
+      const outcomes = await engine.executeMany([line(1), line(1)], handler);
+
+      expect(outcomes.map((o) => o.status)).toEqual(["executed", "locked"]);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fall back to single-key calls without batch store methods", async () => {
+      const singleKey = Object.assign(new MemoryStore(), {
+        atomicCheckAndLockMany: undefined,
+        commitResultMany: undefined,
+      });
+      const lock = vi.spyOn(singleKey, "atomicCheckAndLock");
+      const singleKeyEngine = new IdempotencyEngine(singleKey, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      });
+
+      const outcomes = await singleKeyEngine.executeMany(
+        [line(1), line(2)],
+        async (item) => item.input.id,
+      );
+
+      expect(outcomes).toEqual([
+        { key: "payout-1", status: "executed", result: 1 },
+        { key: "payout-2", status: "executed", result: 2 },
+      ]);
+      expect(lock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report a lost lock on a batched commit", async () => {
+      const outcomes = await engine.executeMany([line(1)], async () => {
+        store.stealLock("payout-1");
+        return "done";
+      });
+
+      expect(outcomes[0].status).toBe("error");
+      expect(outcomeError(outcomes[0])).toBeInstanceOf(LockLostError);
+    });
+
+    it("should cap the number of concurrent handlers", async () => {
+      let running = 0;
+      let peak = 0;
+      const items = Array.from({ length: 6 }, (_, i) => line(i + 1));
+
+      await engine.executeMany(
+        items,
+        async () => {
+          peak = Math.max(peak, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+        },
+        { concurrency: 2 },
+      );
+
+      expect(peak).toBe(2);
+      await expect(
+        engine.executeMany(items, async () => {}, { concurrency: 0 }),
+      ).rejects.toThrow("concurrency");
+    });
+  });
+
+  describe("Two-Phase (begin / complete / abort)", () => {
+    it("should complete a lease handed over as JSON and replay the result", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+
+      const begun = await engine.begin("lease-key", fp);
+      const lease: Lease = JSON.parse(JSON.stringify(acquiredLease(begun)));
+
+      await engine.complete(lease, { paymentId: "pay_1" });
+
+      await expect(engine.begin("lease-key", fp)).resolves.toEqual({
+        status: "replayed",
+        result: { paymentId: "pay_1" },
+      });
+      const handler = vi.fn();
+      await expect(engine.execute("lease-key", fp, handler)).resolves.toEqual({
+        paymentId: "pay_1",
+      });
+      expect(handler).not.toHaveBeenCalled();
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toEqual(["acquired", "stored", "hit", "hit"]);
+    });
+
+    it("should enforce fingerprints and exclusivity on begin", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const lease = acquiredLease(await engine.begin("lease-key", fp));
+
+      await expect(engine.begin("lease-key", fp)).rejects.toThrow(
+        OperationInProgressError,
+      );
+
+      await engine.complete(lease, { paymentId: "pay_1" });
+      await expect(
+        engine.begin("lease-key", engine.fingerprint({ amount: 999 })),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+
+    it("should release the key on abort so it can be retried", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const lease = acquiredLease(await engine.begin("lease-key", fp));
+
+      await engine.abort(lease, { error: new Error("worker crashed") });
+
+      const retry = await engine.begin("lease-key", fp);
+      expect(retry.status).toBe("acquired");
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("lock_released");
+    });
+
+    it("should store a terminal failure on abort and replay it", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const lease = acquiredLease(await engine.begin("lease-key", fp));
+
+      await engine.abort(lease, {
+        error: new TerminalError("card declined", 402, "CARD_DECLINED"),
+      });
+
+      const replayed = await engine
+        .begin("lease-key", fp)
+        .catch((err: unknown) => err);
+      expect(replayed).toBeInstanceOf(TerminalError);
+      expect(replayed).toMatchObject({ status: 402, code: "CARD_DECLINED" });
+    });
+
+    it("should throw LockLostError when completing an expired lease", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const lease = acquiredLease(
+        await engine.begin("lease-key", fp, { leaseTtl: 50 }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await engine.begin("lease-key", fp); // taken over by another request
+
+      await expect(engine.complete(lease, { ok: true })).rejects.toThrow(
+        LockLostError,
+      );
+      await expect(engine.complete(lease, { ok: true })).rejects.toThrow(
+        LockLostError,
+      );
+    });
+
+    it("should renew a lease before it expires", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      const lease = acquiredLease(
+        await engine.begin("lease-key", fp, { leaseTtl: 100 }),
+      );
+
+      const renewed = await engine.renew(lease, { leaseTtl: 5_000 });
+      expect(Date.parse(renewed.expiresAt)).toBeGreaterThan(
+        Date.parse(lease.expiresAt),
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      await expect(engine.begin("lease-key", fp)).rejects.toThrow(
+        OperationInProgressError,
+      );
+      await engine.complete(renewed, { ok: true });
+    });
+
+    it("should reject malformed leases and lease durations", async () => {
+      await expect(
+        // @ts-expect-error – not a lease: token and expiry are missing
+        engine.complete({ key: "lease-key" }, { ok: true }),
+      ).rejects.toThrow("invalid lease");
+      await expect(
+        engine.begin("lease-key", "fp", { leaseTtl: 10 }),
+      ).rejects.toThrow("leaseTtl");
+    });
+  });
+
+  describe("Message Deduplication", () => {
+    const delivery = (receiveCount: number) => ({
+      MessageId: "msg-1",
+      Body: JSON.stringify({ orderId: "ord_1" }),
+      ReceiptHandle: `handle-${receiveCount}`,
+    });
+
+    it("should process a redelivered message once and replay its result", async () => {
+      const handler = vi.fn(async (m: { Body?: string }) => ({ body: m.Body }));
+
+      const first = await dedupeMessage(engine, delivery(1), handler, {
+        ...messageSources.sqs,
+      });
+      const second = await dedupeMessage(engine, delivery(2), handler, {
+        ...messageSources.sqs,
+      });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      const result = { body: JSON.stringify({ orderId: "ord_1" }) };
+      expect(first).toEqual({ duplicate: false, result });
+      expect(second).toEqual({ duplicate: true, result });
+      expect((await store.get("msg:msg-1"))?.result).toEqual(result);
+    });
+
+    it("should store only a marker in seen-set mode", async () => {
+      const handler = vi.fn(async () => ({ secret: "not stored" }));
+      const options = {
+        ...messageSources.sqs,
+        mode: "seen" as const,
+        retention: 3_600_000, // below the 24h floor for stored results
+      };
+
+      await expect(
+        dedupeMessage(engine, delivery(1), handler, options),
+      ).resolves.toEqual({
+        duplicate: false,
+        result: { secret: "not stored" },
+      });
+      await expect(
+        dedupeMessage(engine, delivery(2), handler, options),
+      ).resolves.toEqual({ duplicate: true, result: null });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect((await store.get("msg:msg-1"))?.result).toBeNull();
+    });
+
+    it("should not decode seen-set markers with a resultCodec", async () => {
+      const encrypted = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        resultCodec: createEncryptionCodec({
+          keyProvider: staticKeyProvider("v1", { v1: Buffer.alloc(32, 1) }),
+        }),
+      });
+      // Some stores read a stored null back as undefined
+      const check = store.atomicCheckAndLock.bind(store);
+      vi.spyOn(store, "atomicCheckAndLock").mockImplementation(
+        async (...args) => {
+          const res = await check(...args);
+          return res.status === "exists" ? { ...res, result: undefined } : res;
+        },
+      );
+      const handler = vi.fn(async () => "ok");
+      const options = { ...messageSources.sqs, mode: "seen" as const };
+
+      await dedupeMessage(encrypted, delivery(1), handler, options);
+      await expect(
+        dedupeMessage(encrypted, delivery(2), handler, options),
+      ).resolves.toEqual({ duplicate: true, result: null });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the 24h floor for stored results and 1m for markers", async () => {
+      const handler = vi.fn(async () => "ok");
+
+      await expect(
+        dedupeMessage(engine, delivery(1), handler, {
+          ...messageSources.sqs,
+          retention: 3_600_000,
+        }),
+      ).rejects.toThrow(InvalidRetentionError);
+      await expect(
+        dedupeMessage(engine, delivery(1), handler, {
+          ...messageSources.sqs,
+          mode: "seen",
+          retention: 1_000,
+        }),
+      ).rejects.toThrow(InvalidRetentionError);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should reject a reused message ID with a different payload", async () => {
+      const handler = vi.fn(async () => "ok");
+      await dedupeMessage(engine, delivery(1), handler, messageSources.sqs);
+
+      await expect(
+        dedupeMessage(
+          engine,
+          { ...delivery(2), Body: JSON.stringify({ orderId: "ord_2" }) },
+          handler,
+          messageSources.sqs,
+        ),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+
+    it("should reject messages without an ID", async () => {
+      await expect(
+        dedupeMessage(
+          engine,
+          { MessageId: "", Body: "{}" },
+          async () => "ok",
+          messageSources.sqs,
+        ),
+      ).rejects.toThrow(InvalidIdempotencyKeyError);
+    });
+  });
+
+  describe("Tiered Store", () => {
+    const tieredEngine = (tiered: TieredStore) =>
+      new IdempotencyEngine(tiered, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      });
+
+    it("should serve duplicates from memory without a remote round trip", async () => {
+      const remote = vi.spyOn(store, "atomicCheckAndLock");
+      const tiered = tieredEngine(new TieredStore(store));
+      const handler = vi.fn(async () => ({ id: "ch_1", lines: [] }));
+      const fp = tiered.fingerprint({ amount: 100 });
+
+      await tiered.execute("hot-key", fp, handler);
+      const first = await tiered.execute("hot-key", fp, handler);
+      (first as any).id = "mutated by caller";
+      const second = await tiered.execute("hot-key", fp, handler);
+
+      expect(second).toEqual({ id: "ch_1", lines: [] });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(remote).toHaveBeenCalledTimes(1); // only the lock acquisition
+
+      // Fingerprints are still enforced on local hits
+      await expect(
+        tiered.execute("hot-key", tiered.fingerprint({ amount: 1 }), handler),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+
+    it("should cache outcomes reported by the backing store", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      await engine.execute("remote-key", fp, async () => "ok");
+      await expect(
+        engine.execute("declined-key", fp, async () => {
+          throw new TerminalError("card declined");
+        }),
+      ).rejects.toThrow(TerminalError);
+
+      const remote = vi.spyOn(store, "atomicCheckAndLock");
+      const tiered = tieredEngine(new TieredStore(store));
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          tiered.execute("remote-key", fp, async () => "rerun"),
+        ).resolves.toBe("ok");
+        await expect(
+          tiered.execute("declined-key", fp, async () => "rerun"),
+        ).rejects.toThrow("card declined");
+      }
+      expect(remote).toHaveBeenCalledTimes(2);
+    });
+
+    it("should invalidate cached outcomes on purge", async () => {
+      const tiered = tieredEngine(new TieredStore(store));
+      const fp = tiered.fingerprint({ amount: 100 });
+      await tiered.execute("purged-key", fp, async () => "first");
+
+      await tiered.purge("purged-key");
+
+      await expect(
+        tiered.execute("purged-key", fp, async () => "second"),
+      ).resolves.toBe("second");
+    });
+
+    it("should evict least recently used and expired outcomes", async () => {
+      const remote = vi.spyOn(store, "atomicCheckAndLock");
+      const cache = new TieredStore(store, { maxEntries: 2, ttl: 50 });
+      const tiered = tieredEngine(cache);
+      const fp = tiered.fingerprint({ amount: 100 });
+      for (const key of ["a", "b", "c"]) {
+        await tiered.execute(key, fp, async () => key);
+      }
+      expect(cache.size).toBe(2);
+
+      remote.mockClear();
+      await tiered.execute("a", fp, async () => "rerun"); // evicted
+      await tiered.execute("c", fp, async () => "rerun"); // cached
+      expect(remote).toHaveBeenCalledTimes(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await tiered.execute("c", fp, async () => "rerun"); // expired
+      expect(remote).toHaveBeenCalledTimes(2);
+    });
+
+    it("should expose only the optional methods of the backing store", async () => {
+      const minimal = new TieredStore({
+        atomicCheckAndLock: store.atomicCheckAndLock.bind(store),
+        commitResult: store.commitResult.bind(store),
+      });
+
+      expect(minimal.get).toBeUndefined();
+      expect(minimal.commitFailure).toBeUndefined();
+      await expect(tieredEngine(minimal).inspect("any")).rejects.toThrow(
+        UnsupportedOperationError,
+      );
+    });
+  });
+
+  describe("Admin API", () => {
+    it("should inspect, list and purge keys under the configured prefix", async () => {
+      const prefixed = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        keyPrefix: "pay:",
+      });
+      const fp = prefixed.fingerprint({ amount: 100 });
+      await prefixed.execute("order-1", fp, async () => ({ id: "ch_1" }));
+      await prefixed.execute("order-2", fp, async () => ({ id: "ch_2" }));
+
+      await expect(prefixed.inspect("order-1")).resolves.toMatchObject({
+        status: "committed",
+        fingerprint: fp,
+        result: { id: "ch_1" },
+      });
+      await expect(prefixed.list("order-")).resolves.toEqual({
+        keys: ["order-1", "order-2"],
+        cursor: undefined,
+      });
+
+      await expect(
+        prefixed.purge("order-1", { metadata: { operator: "ops-7" } }),
+      ).resolves.toBe(true);
+      await expect(prefixed.inspect("order-1")).resolves.toBeNull();
+
+      const purge = auditMock.mock.calls
+        .map(([e]: any[]) => e)
+        .find((e: any) => e.action === "admin_purge");
+      expect(purge).toMatchObject({
+        key: "pay:order-1",
+        metadata: { operator: "ops-7", found: true },
+      });
+    });
+
+    it("should force-unlock a stuck lock but never a committed result", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      let finish!: () => void;
+      const running = engine.execute(
+        "stuck-key",
+        fp,
+        () => new Promise<string>((resolve) => (finish = () => resolve("ok"))),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await expect(engine.inspect("stuck-key")).resolves.toMatchObject({
+        status: "processing",
+      });
+      await expect(engine.forceUnlock("stuck-key")).resolves.toBe(true);
+
+      finish();
+      await expect(running).rejects.toThrow(LockLostError);
+
+      await engine.execute("done-key", fp, async () => "ok");
+      await expect(engine.forceUnlock("done-key")).resolves.toBe(false);
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("admin_inspect");
+      expect(actions).toContain("admin_force_unlock");
+    });
+
+    it("should throw UnsupportedOperationError if the store lacks admin methods", async () => {
+      const minimal = new IdempotencyEngine(
+        {
+          atomicCheckAndLock: store.atomicCheckAndLock.bind(store),
+          commitResult: store.commitResult.bind(store),
+        },
+        { lockTtl: 30_000, retention: 86_400_000, onAudit: auditMock },
+      );
+
+      await expect(minimal.inspect("key")).rejects.toThrow(
+        UnsupportedOperationError,
+      );
+      await expect(minimal.list()).rejects.toThrow(UnsupportedOperationError);
+    });
+  });
+
+  describe("Result Encryption", () => {
+    const keyV1 = Buffer.alloc(32, 1);
+    const keyV2 = Buffer.alloc(32, 2);
+    const encryptedEngine = (activeKeyId: string) =>
+      new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        resultCodec: createEncryptionCodec({
+          keyProvider: staticKeyProvider(activeKeyId, {
+            v1: keyV1,
+            v2: keyV2,
+          }),
+        }),
+      });
+
+    it("should store ciphertext and replay the decrypted result", async () => {
+      const encrypted = encryptedEngine("v1");
+      const handler = vi.fn(async () => ({ pan: "4111111111111111" }));
+      const fp = encrypted.fingerprint({ amount: 100 });
+
+      await encrypted.execute("enc-key", fp, handler);
+      const replayed = await encrypted.execute("enc-key", fp, handler);
+
+      expect(replayed).toEqual({ pan: "4111111111111111" });
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      const stored = await store.get("enc-key");
+      expect(stored!.result).toMatchObject({ idempotkit_enc: 1, kid: "v1" });
+      expect(JSON.stringify(stored)).not.toContain("4111111111111111");
+    });
+
+    it("should decrypt results written under a rotated-out key", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      await encryptedEngine("v1").execute("rotated-key", fp, async () => "ok");
+
+      const rotated = encryptedEngine("v2");
+      await expect(
+        rotated.execute("rotated-key", fp, async () => "rerun"),
+      ).resolves.toBe("ok");
+      await expect(rotated.inspect("rotated-key")).resolves.toMatchObject({
+        result: "ok",
+      });
+    });
+
+    it("should surface tampering as IdempotencyInternalError without re-running", async () => {
+      const encrypted = encryptedEngine("v1");
+      const handler = vi.fn(async () => ({ amount: 100 }));
+      const fp = encrypted.fingerprint({ amount: 100 });
+      await encrypted.execute("tampered-key", fp, handler);
+
+      const record = (store as any).store.get("tampered-key");
+      const ct = Buffer.from(record.result.ct, "base64");
+      ct[0] ^= 0xff;
+      record.result = { ...record.result, ct: ct.toString("base64") };
+
+      await expect(
+        encrypted.execute("tampered-key", fp, handler),
+      ).rejects.toThrow(IdempotencyInternalError);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Result Serialization", () => {
+    const serializedEngine = (options: SerializationOptions) =>
+      new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        serialization: options,
+      });
+
+    it("should replay rich types unchanged with rich-json", async () => {
+      const rich = serializedEngine({ serializer: "rich-json" });
+      const result = {
+        $t: "user field",
+        at: new Date("2024-06-01T12:00:00.123Z"),
+        amount: 12_345_678_901_234_567_890n,
+        raw: Buffer.from([0, 1, 254, 255]),
+        tags: new Set(["a", "b"]),
+        byId: new Map<unknown, unknown>([[1, { nested: new Date(0) }]]),
+        missing: undefined,
+        ratio: NaN,
+        empty: [],
+      };
+      const handler = vi.fn(async () => result);
+      const fp = rich.fingerprint({ amount: 100 });
+
+      await rich.execute("rich-key", fp, handler);
+      const replayed = await rich.execute("rich-key", fp, handler);
+
+      expect(replayed).toEqual(result);
+      expect(replayed.at).toBeInstanceOf(Date);
+      expect(Buffer.isBuffer(replayed.raw)).toBe(true);
+      expect("missing" in replayed).toBe(true);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Stored as an opaque JSON string – survives any JSON store
+      const stored = await store.get("rich-key");
+      expect(stored!.result).toMatchObject({
+        idempotkit_ser: 1,
+        format: "rich-json",
+      });
+      expect(JSON.parse(JSON.stringify(stored!.result))).toEqual(
+        stored!.result,
+      );
+    });
+
+    it("should round-trip results through msgpack", async () => {
+      const packed = serializedEngine({ serializer: "msgpack" });
+      const result = {
+        at: new Date("1969-07-20T20:17:40.001Z"),
+        big: 2n ** 63n + 1n,
+        negative: -(2n ** 63n),
+        ints: [0, 127, 128, -1, -33, 65_535, -40_000, 2 ** 32 - 1, 2 ** 40],
+        floats: [0.5, -1.25, Infinity],
+        text: "x".repeat(40) + "é€😀",
+        list: Array.from({ length: 20 }, (_, i) => i),
+        bytes: Buffer.alloc(300, 7),
+        nothing: null,
+        flags: { on: true, off: false },
+        empty: {},
+      };
+      const fp = packed.fingerprint({ amount: 100 });
+
+      await packed.execute("msgpack-key", fp, async () => result);
+      const replayed = await packed.execute(
+        "msgpack-key",
+        fp,
+        async () => "rerun",
+      );
+
+      expect(replayed).toEqual(result);
+      const stored = await store.get("msgpack-key");
+      expect(stored!.result).toMatchObject({ format: "msgpack", binary: true });
+    });
+
+    it("should compress large results above the threshold only", async () => {
+      const compressed = serializedEngine({
+        serializer: "json",
+        compression: { algorithm: "gzip", threshold: 256 },
+      });
+      const large = { rows: Array.from({ length: 200 }, () => "row") };
+      const fp = compressed.fingerprint({ amount: 100 });
+
+      await compressed.execute("large-key", fp, async () => large);
+      await compressed.execute("small-key", fp, async () => ({ ok: true }));
+
+      const largeStored = (await store.get("large-key"))!.result as any;
+      expect(largeStored.compression).toBe("gzip");
+      expect(largeStored.data.length).toBeLessThan(
+        JSON.stringify(large).length,
+      );
+      expect((await store.get("small-key"))!.result).toEqual({
+        idempotkit_ser: 1,
+        format: "json",
+        data: '{"ok":true}',
+      });
+
+      await expect(
+        compressed.execute("large-key", fp, async () => "rerun"),
+      ).resolves.toEqual(large);
+    });
+
+    it("should compress before encrypting and decode in reverse", async () => {
+      const layered = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        serialization: { compression: { algorithm: "brotli", threshold: 0 } },
+        resultCodec: createEncryptionCodec({
+          keyProvider: staticKeyProvider("v1", { v1: Buffer.alloc(32, 1) }),
+        }),
+      });
+      const result = { at: new Date(0), note: "n".repeat(2_000) };
+      const fp = layered.fingerprint({ amount: 100 });
+
+      await layered.execute("layered-key", fp, async () => result);
+
+      const stored = (await store.get("layered-key"))!.result as any;
+      expect(stored.idempotkit_enc).toBe(1);
+      // The ciphertext holds the brotli envelope, not 2 KB of plaintext
+      expect(Buffer.from(stored.ct, "base64").length).toBeLessThan(500);
+      await expect(
+        layered.execute("layered-key", fp, async () => "rerun"),
+      ).resolves.toEqual(result);
+    });
+
+    it("should replay results stored before serialization was enabled", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+      await engine.execute("legacy-key", fp, async () => ({ id: "ch_1" }));
+
+      await expect(
+        serializedEngine({ serializer: "msgpack" }).execute(
+          "legacy-key",
+          fp,
+          async () => "rerun",
+        ),
+      ).resolves.toEqual({ id: "ch_1" });
+    });
+  });
+
+  describe("Telemetry", () => {
+    it("should record spans and metrics for every execution", async () => {
+      const spans = new InMemorySpanExporter();
+      const tracerProvider = new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(spans)],
+      });
+      const reader = new PeriodicExportingMetricReader({
+        exporter: new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE),
+        exportIntervalMillis: 3_600_000,
+      });
+      const meterProvider = new MeterProvider({ readers: [reader] });
+
+      const traced = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        keyPrefix: "pay:",
+        telemetry: { tracerProvider, meterProvider },
+      });
+      const fp = traced.fingerprint({ amount: 100 });
+
+      await traced.execute("otel-key", fp, async () => "ok");
+      await traced.execute("otel-key", fp, async () => "ok");
+      await expect(
+        traced.execute("otel-key", traced.fingerprint({ amount: 1 }), vi.fn()),
+      ).rejects.toThrow(FingerprintMismatchError);
+
+      const finished = spans.getFinishedSpans();
+      expect(finished.map((s) => s.name)).toEqual([
+        "idempotkit.execute",
+        "idempotkit.execute",
+        "idempotkit.execute",
+      ]);
+      expect(finished.map((s) => s.attributes["idempotkit.outcome"])).toEqual([
+        "miss",
+        "hit",
+        "mismatch",
+      ]);
+      expect(finished[0].attributes["idempotkit.key_prefix"]).toBe("pay:");
+      expect(
+        finished[0].attributes["idempotkit.store.latency_ms"],
+      ).toBeGreaterThanOrEqual(0);
+
+      const { resourceMetrics } = await reader.collect();
+      const byName = Object.fromEntries(
+        resourceMetrics.scopeMetrics[0].metrics.map((m) => [
+          m.descriptor.name,
+          m,
+        ]),
+      );
+      expect(
+        byName["idempotkit.executions"].dataPoints.map((d: any) => [
+          d.attributes["idempotkit.outcome"],
+          d.value,
+        ]),
+      ).toEqual([
+        ["miss", 1],
+        ["hit", 1],
+        ["mismatch", 1],
+      ]);
+      expect(byName["idempotkit.handler.duration"].dataPoints).toHaveLength(1);
+      expect(
+        byName["idempotkit.store.duration"].dataPoints.map(
+          (d: any) => d.attributes["idempotkit.store.operation"],
+        ),
+      ).toEqual(
+        expect.arrayContaining([
+          "atomicCheckAndLock",
+          "commitResult",
+          "releaseLock",
+        ]),
+      );
+
+      await meterProvider.shutdown();
+      await tracerProvider.shutdown();
+    });
+  });
+
+  describe("Audit", () => {
+    it("should call audit hook for every significant event", async () => {
+      const handler = () => Promise.resolve({ success: true });
+      const key = "audit-key";
+      const fp = engine.fingerprint({ test: true });
+
+      await engine.execute(key, fp, handler);
+
+      expect(auditMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "acquired",
+          key: "audit-key",
+        }),
+      );
+      expect(auditMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "stored",
+          key: "audit-key",
+        }),
+      );
+      expect(auditMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "lock_released",
+          key: "audit-key",
+        }),
+      );
+    });
+
+    it("should use per-request audit override", async () => {
+      const overrideAudit = vi.fn();
+      const handler = () => Promise.resolve({ success: true });
+      const key = "override-audit-key";
+      const fp = engine.fingerprint({ test: true });
+
+      await engine.execute(key, fp, handler, {
+        onAudit: overrideAudit,
+        metadata: { custom: "value" },
+      });
+
+      expect(overrideAudit).toHaveBeenCalled();
+      expect(auditMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Audit Redaction", () => {
+    const PAN = "4111 1111 1111 1111";
+    const PAN_DIGITS = /4111[ -]?1111[ -]?1111[ -]?1111/;
+
+    /** Every audit event as delivered to onAudit and recordAudit */
+    const deliveredEvents = () => [
+      ...auditMock.mock.calls.map(([e]: any[]) => e),
+      ...store.getAuditLog(),
+    ];
+
+    it("should never deliver card numbers to onAudit or recordAudit", async () => {
+      const fp = engine.fingerprint({ amount: 100 });
+
+      await engine.execute("pan-key", fp, async () => "ok", {
+        metadata: {
+          customer: { email: "ada@example.com", card: { last4: "1111" } },
+          note: `paid with ${PAN}`,
+          lines: [{ ref: "4111-1111-1111-1111" }, { ref: 4111111111111111 }],
+          requestId: "req_1",
+        },
+      });
+      await expect(
+        engine.execute("pan-error-key", fp, async () => {
+          throw new Error(`gateway rejected card ${PAN}`);
+        }),
+      ).rejects.toThrow();
+
+      const events = deliveredEvents();
+      expect(events.length).toBeGreaterThan(0);
+      for (const event of events) {
+        expect(JSON.stringify(event)).not.toMatch(PAN_DIGITS);
+        expect(JSON.stringify(event)).not.toContain("ada@example.com");
+      }
+      expect(events[0].metadata).toEqual({
+        customer: {},
+        lines: [{}, {}],
+        requestId: "req_1",
+      });
+    });
+
+    it("should keep numbers that are not Luhn-valid", async () => {
+      await engine.execute("order-key", "fp", async () => "ok", {
+        metadata: { orderId: "1234567890123", phone_ext: undefined },
+      });
+
+      expect(auditMock.mock.calls[0][0].metadata).toEqual({
+        orderId: "1234567890123",
+      });
+    });
+
+    it("should mask instead of dropping when configured", async () => {
+      const masking = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        redaction: { action: "mask", denyKeys: ["secret"] },
+      });
+
+      await expect(
+        masking.execute("mask-key", "fp", async () => {
+          throw new Error(`card ${PAN} declined, contact +44 20 7946 0958`);
+        }),
+      ).rejects.toThrow();
+
+      const failure = deliveredEvents().find((e: any) => e.action === "error");
+      expect(failure.metadata.error).toBe(
+        "card [REDACTED:card] declined, contact [REDACTED:phone]",
+      );
+
+      await masking.execute("mask-key-2", "fp", async () => "ok", {
+        metadata: { secret: "s3cr3t", password: "hunter2", requestId: "r1" },
+      });
+      expect(auditMock.mock.calls.at(-1)[0].metadata).toEqual({
+        secret: "[REDACTED]",
+        password: "[REDACTED]", // profile deny list still applies
+        requestId: "r1",
+      });
+    });
+
+    it("should only keep allow-listed keys", async () => {
+      const strict = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        redaction: { allowKeys: ["requestId", "client", "id"] },
+      });
+
+      await strict.execute("allow-key", "fp", async () => "ok", {
+        metadata: {
+          requestId: "req_1",
+          client: { id: "c_1", name: "Ada" },
+          userAgent: "curl",
+        },
+      });
+
+      expect(auditMock.mock.calls[0][0].metadata).toEqual({
+        requestId: "req_1",
+        client: { id: "c_1" },
+      });
+    });
+  });
+
+  describe("Audit Delivery", () => {
+    /** onAudit that fails until `recover()` is called */
+    const flakyAuditor = () => {
+      let down = true;
+      const delivered: string[] = [];
+      const auditor = vi.fn((event: any) => {
+        if (down) throw new Error("audit backend down");
+        delivered.push(event.action);
+      });
+      return { auditor, delivered, recover: () => (down = false) };
+    };
+
+    const deliveryEngine = (
+      onAudit: (event: any) => void,
+      options: Record<string, unknown> = {},
+    ) =>
+      new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit,
+        auditDelivery: { backoff: { initialMs: 10, maxMs: 20 } },
+        ...options,
+      });
+
+    it("should retry failed deliveries instead of dropping them", async () => {
+      const { auditor, delivered, recover } = flakyAuditor();
+      const onAuditFailure = vi.fn();
+      const retrying = deliveryEngine(auditor, { onAuditFailure });
+
+      await expect(
+        retrying.execute("retry-key", "fp", async () => "ok"),
+      ).resolves.toBe("ok");
+      expect(retrying.auditHealthy).toBe(false);
+      expect(onAuditFailure).toHaveBeenCalledWith(expect.any(Error), {
+        events: [expect.objectContaining({ action: "acquired" })],
+        attempt: 1,
+        dropped: false,
+      });
+
+      recover();
+      await retrying.close();
+      expect(delivered).toEqual(["acquired", "stored", "lock_released"]);
+      expect(retrying.auditHealthy).toBe(true);
+    });
+
+    it("should not re-send to onAudit when only recordAudit failed", async () => {
+      const auditor = vi.fn();
+      let recordFailures = 1;
+      const recordAudit = vi
+        .spyOn(store, "recordAudit")
+        .mockImplementation(async () => {
+          if (recordFailures-- > 0) throw new Error("db down");
+        });
+
+      const retrying = deliveryEngine(auditor);
+      await retrying.execute("record-key", "fp", async () => "ok");
+      await retrying.close();
+
+      expect(auditor).toHaveBeenCalledTimes(3);
+      expect(recordAudit).toHaveBeenCalledTimes(4); // 3 events + 1 retry
+    });
+
+    it("should batch queued events into recordAuditMany", async () => {
+      const { auditor, recover } = flakyAuditor();
+      const recordAuditMany = vi.fn(async (_events: unknown[]) => {});
+      (store as any).recordAuditMany = recordAuditMany;
+
+      const batching = deliveryEngine(auditor);
+      await batching.execute("batch-key-1", "fp", async () => "ok");
+      await batching.execute("batch-key-2", "fp", async () => "ok");
+      recover();
+      await batching.close();
+
+      expect(recordAuditMany).toHaveBeenCalledTimes(1);
+      expect(recordAuditMany.mock.calls[0][0]).toHaveLength(6);
+    });
+
+    it("should refuse to execute under strictAudit while delivery fails", async () => {
+      const { auditor, recover } = flakyAuditor();
+      const strict = deliveryEngine(auditor, { strictAudit: true });
+      const handler = vi.fn(async () => "ok");
+
+      await strict.execute("strict-key-1", "fp", handler);
+      await expect(
+        strict.execute("strict-key-2", "fp", handler),
+      ).rejects.toThrow(AuditUnavailableError);
+      await expect(strict.begin("strict-key-2", "fp")).rejects.toThrow(
+        AuditUnavailableError,
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      recover();
+      await strict.close();
+      await expect(strict.execute("strict-key-2", "fp", handler)).resolves.toBe(
+        "ok",
+      );
+    });
+
+    it("should report events it cannot deliver as dropped", async () => {
+      const onAuditFailure = vi.fn();
+      const failing = deliveryEngine(
+        () => {
+          throw new Error("audit backend down");
+        },
+        {
+          onAuditFailure,
+          auditDelivery: {
+            maxQueueSize: 2,
+            backoff: { initialMs: 10, maxMs: 20 },
+          },
+        },
+      );
+
+      await failing.execute("drop-key", "fp", async () => "ok");
+      await failing.close(50);
+
+      const dropped = onAuditFailure.mock.calls
+        .filter(([, info]) => info.dropped)
+        .flatMap(([, info]) => info.events.map((e: any) => e.action));
+      expect(dropped.sort()).toEqual(["acquired", "lock_released", "stored"]);
+    });
+  });
+
+  describe("Hash-Chained Audit Log", () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "idempotkit-audit-"));
+      path = join(dir, "audit.jsonl");
+      return () => rm(dir, { recursive: true, force: true });
+    });
+
+    const auditedEngine = (sink: HashChainAuditSink) =>
+      new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: sink.onAudit,
+      });
+
+    it("should append engine events with sequence numbers and a valid chain", async () => {
+      const backend = createJsonlAuditBackend(path);
+      const chained = auditedEngine(
+        new HashChainAuditSink(backend, { hmacKey: "k" }),
+      );
+
+      await chained.execute("chain-key", "fp", async () => "ok");
+      await chained.execute("chain-key", "fp", async () => "ok");
+
+      const records = [];
+      for await (const record of backend.read()) records.push(record);
+      expect(records.map((r) => r.seq)).toEqual([1, 2, 3, 4]);
+      expect(records.map((r) => r.event.action)).toEqual([
+        "acquired",
+        "stored",
+        "lock_released",
+        "hit",
+      ]);
+      expect(records[1].prevHash).toBe(records[0].hash);
+
+      await expect(
+        verifyAuditChain(backend.read(), { hmacKey: "k" }),
+      ).resolves.toMatchObject({ valid: true, count: 4, head: records[3] });
+    });
+
+    it("should resume the chain after a restart", async () => {
+      await new HashChainAuditSink(createJsonlAuditBackend(path)).append({
+        timestamp: new Date().toISOString(),
+        key: "k1",
+        action: "hit",
+      });
+      const record = await new HashChainAuditSink(
+        createJsonlAuditBackend(path),
+      ).append({
+        timestamp: new Date().toISOString(),
+        key: "k2",
+        action: "hit",
+      });
+
+      expect(record.seq).toBe(2);
+      await expect(
+        verifyAuditChain(createJsonlAuditBackend(path).read()),
+      ).resolves.toMatchObject({ valid: true, count: 2 });
+    });
+
+    it("should detect modified, deleted and re-hashed entries", async () => {
+      const sink = new HashChainAuditSink(createJsonlAuditBackend(path), {
+        hmacKey: "k",
+      });
+      for (const key of ["a", "b", "c"]) {
+        await sink.append({
+          timestamp: new Date().toISOString(),
+          key,
+          action: "stored",
+        });
+      }
+      const lines = (await readFile(path, "utf8")).trim().split("\n");
+      const verify = async (content: string[]) => {
+        await writeFile(path, content.join("\n") + "\n");
+        return verifyAuditChain(createJsonlAuditBackend(path).read(), {
+          hmacKey: "k",
+        });
+      };
+
+      const modified = lines.map((line, i) =>
+        i === 1 ? line.replace('"key":"b"', '"key":"x"') : line,
+      );
+      await expect(verify(modified)).resolves.toEqual({
+        valid: false,
+        count: 1,
+        brokenAt: 2,
+        reason: "hash_mismatch",
+      });
+
+      await expect(verify([lines[0], lines[2]])).resolves.toMatchObject({
+        valid: false,
+        brokenAt: 2,
+        reason: "sequence_gap",
+      });
+
+      // Rewritten without the HMAC key: hashes are self-consistent but wrong
+      const forged: any[] = [];
+      const forger = new HashChainAuditSink({
+        last: async () => forged.at(-1) ?? null,
+        append: async (record) => (forged.push(record), true),
+        read: async function* () {},
+      });
+      for (const line of lines) await forger.append(JSON.parse(line).event);
+      await expect(
+        verify(forged.map((r) => JSON.stringify(r))),
+      ).resolves.toMatchObject({ valid: false, brokenAt: 1 });
+    });
+
+    it("should serialize concurrent appends", async () => {
+      const sink = new HashChainAuditSink(createJsonlAuditBackend(path));
+
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          sink.append({
+            timestamp: new Date().toISOString(),
+            key: `k${i}`,
+            action: "hit",
+          }),
+        ),
+      );
+
+      await expect(
+        verifyAuditChain(createJsonlAuditBackend(path).read()),
+      ).resolves.toMatchObject({ valid: true, count: 20 });
+    });
+  });
+
+  describe("Fingerprinting", () => {
+    it("should normalize fingerprints (key order independence)", () => {
+      const fp1 = engine.fingerprint({ a: 1, b: 2, c: 3 });
+      const fp2 = engine.fingerprint({ c: 3, b: 2, a: 1 });
+      const fp3 = engine.fingerprint({ b: 2, a: 1, c: 3 });
+
+      expect(fp1).toBe(fp2);
+      expect(fp2).toBe(fp3);
+    });
+
+    it("should normalize nested objects", () => {
+      const fp1 = engine.fingerprint({
         user: { id: "123", name: "Alice" },
         amount: 100,
       });
@@ -312,6 +2239,121 @@ describe("IdempotencyEngine", () => {
     });
   });
 
+  describe("Canonical Fingerprints (JCS)", () => {
+    it("should serialize per RFC 8785 regardless of key order or locale", () => {
+      expect(canonicalize({ b: 2, a: [1, -0, 1e21], é: "x", Z: null })).toBe(
+        '{"Z":null,"a":[1,0,1e+21],"b":2,"é":"x"}',
+      );
+      expect(canonicalize({ a: 1, b: { d: 1, c: 2 } })).toBe(
+        canonicalize({ b: { c: 2, d: 1 }, a: 1 }),
+      );
+    });
+
+    it("should map non-JSON values deterministically", () => {
+      expect(
+        canonicalize({
+          at: new Date("2024-01-01T00:00:00Z"),
+          big: 12345678901234567890n,
+          tags: new Set(["b", "a"]),
+          meta: new Map([["k", 1]]),
+          skipped: undefined,
+          list: [undefined],
+        }),
+      ).toBe(
+        '{"at":"2024-01-01T00:00:00.000Z","big":12345678901234567890,"list":[null],"meta":[["k",1]],"tags":["a","b"]}',
+      );
+      expect(() => canonicalize({ amount: NaN })).toThrow(TypeError);
+      expect(() => canonicalize({ at: new Date("invalid") })).toThrow(
+        TypeError,
+      );
+    });
+
+    it('should keep an own "__proto__" key in the canonical form', async () => {
+      const alice = JSON.parse('{"amount":100,"__proto__":{"to":"alice"}}');
+      const mallory = JSON.parse('{"amount":100,"__proto__":{"to":"mallory"}}');
+      expect(canonicalize(alice)).toBe(
+        '{"__proto__":{"to":"alice"},"amount":100}',
+      );
+
+      for (const options of [{}, { include: ["/__proto__", "/amount"] }]) {
+        const strategy = createJcsFingerprint(options);
+        expect(strategy.fingerprint(alice)).not.toBe(
+          strategy.fingerprint(mallory),
+        );
+      }
+      const excluding = createJcsFingerprint({ exclude: ["/amount"] });
+      expect(excluding.fingerprint(alice)).not.toBe(
+        excluding.fingerprint(mallory),
+      );
+
+      // A reused key with a tampered body must not replay
+      const jcsEngine = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        fingerprintStrategy: createJcsFingerprint(),
+      });
+      await jcsEngine.execute(
+        "proto-key",
+        jcsEngine.fingerprint(alice),
+        async () => ({ paid: "alice" }),
+      );
+      await expect(
+        jcsEngine.execute(
+          "proto-key",
+          jcsEngine.fingerprint(mallory),
+          async () => ({ paid: "mallory" }),
+        ),
+      ).rejects.toThrow(FingerprintMismatchError);
+    });
+
+    it("should fingerprint only included paths minus excluded ones", () => {
+      const strategy = createJcsFingerprint({
+        include: ["/amount", "/metadata"],
+        exclude: ["/metadata/clientTimestamp"],
+      });
+
+      const a = strategy.fingerprint({
+        amount: 100,
+        note: "first",
+        metadata: { orderId: "o1", clientTimestamp: 1 },
+      });
+      const b = strategy.fingerprint({
+        amount: 100,
+        note: "second",
+        metadata: { orderId: "o1", clientTimestamp: 2 },
+      });
+      const c = strategy.fingerprint({
+        amount: 1000,
+        metadata: { orderId: "o1", clientTimestamp: 1 },
+      });
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+
+    it("should key fingerprints with HMAC and use the engine's strategy", async () => {
+      const plain = createJcsFingerprint().fingerprint({ amount: 100 });
+      const keyed = createJcsFingerprint({ hmacKey: "secret-1" });
+      const otherKey = createJcsFingerprint({ hmacKey: "secret-2" });
+
+      expect(keyed.fingerprint({ amount: 100 })).not.toBe(plain);
+      expect(keyed.fingerprint({ amount: 100 })).not.toBe(
+        otherKey.fingerprint({ amount: 100 }),
+      );
+
+      const hmacEngine = new IdempotencyEngine(store, {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+        fingerprintStrategy: keyed,
+      });
+      expect(hmacEngine.fingerprint({ amount: 100 })).toBe(
+        keyed.fingerprint({ amount: 100 }),
+      );
+    });
+  });
+
   describe("Timeout", () => {
     it("should timeout handler that exceeds handlerTimeout", async () => {
       const slowHandler = () => new Promise(() => {});
@@ -322,5 +2364,78 @@ describe("IdempotencyEngine", () => {
         engine.execute(key, fp, slowHandler, { handlerTimeout: 100 }),
       ).rejects.toThrow(HandlerTimeoutError);
     });
+
+    it("should abort the handler's signal on timeout", async () => {
+      let signal: AbortSignal | undefined;
+      const fp = engine.fingerprint({ test: true });
+
+      await expect(
+        engine.execute(
+          "abort-key",
+          fp,
+          (ctx) => {
+            signal = ctx.signal;
+            return new Promise(() => {});
+          },
+          { handlerTimeout: 50 },
+        ),
+      ).rejects.toThrow(HandlerTimeoutError);
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(HandlerTimeoutError);
+    });
+
+    it("should hold a timed-out key as unknown when configured", async () => {
+      const handler = vi.fn(() => new Promise(() => {}));
+      const key = "hold-key";
+      const fp = engine.fingerprint({ test: true });
+
+      await expect(
+        engine.execute(key, fp, handler, {
+          handlerTimeout: 50,
+          onHandlerTimeout: "hold",
+        }),
+      ).rejects.toThrow(HandlerTimeoutError);
+
+      await expect(engine.execute(key, fp, handler)).rejects.toThrow(
+        OutcomeUnknownError,
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      const actions = auditMock.mock.calls.map(([e]: any[]) => e.action);
+      expect(actions).toContain("marked_unknown");
+      expect(actions).toContain("outcome_unknown");
+      expect(actions).not.toContain("lock_released");
+    });
+
+    it("should reject hold for stores that cannot mark keys unknown", async () => {
+      const bare = Object.assign(new MemoryStore(), { markUnknown: undefined });
+      const options = {
+        lockTtl: 30_000,
+        retention: 86_400_000,
+        onAudit: auditMock,
+      };
+
+      expect(
+        () =>
+          new IdempotencyEngine(bare, {
+            ...options,
+            onHandlerTimeout: "hold",
+          }),
+      ).toThrow(UnsupportedOperationError);
+
+      const handler = vi.fn(async () => "ok");
+      await expect(
+        new IdempotencyEngine(bare, options).execute(
+          "hold-key",
+          "fp",
+          handler,
+          {
+            onHandlerTimeout: "hold",
+          },
+        ),
+      ).rejects.toThrow(UnsupportedOperationError);
+      expect(handler).not.toHaveBeenCalled();
+    });
   });
 });
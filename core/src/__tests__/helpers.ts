@@ -0,0 +1,35 @@
+// src/__tests__/helpers.ts – assertions shared by the core and adapter tests
+import {
+  BatchItemOutcome,
+  BeginResult,
+  CheckAndLockResult,
+  Lease,
+} from "../types";
+
+/** Owner token of a lock the test expects to be acquired */
+export function acquiredToken(lock: CheckAndLockResult | Error): string {
+  if (lock instanceof Error || lock.status !== "acquired") {
+    throw new Error(`expected an acquired lock, got ${JSON.stringify(lock)}`);
+  }
+  return lock.token;
+}
+
+/** Error of a batch item the test expects to have failed */
+export function outcomeError(outcome: BatchItemOutcome<unknown>): unknown {
+  if (
+    outcome.status === "locked" ||
+    outcome.status === "mismatch" ||
+    outcome.status === "error"
+  ) {
+    return outcome.error;
+  }
+  throw new Error(`expected a failed item, got ${JSON.stringify(outcome)}`);
+}
+
+/** Lease of a `begin` the test expects to have reserved the key */
+export function acquiredLease(begun: BeginResult<unknown>): Lease {
+  if (begun.status !== "acquired") {
+    throw new Error(`expected an acquired lease, got ${JSON.stringify(begun)}`);
+  }
+  return begun.lease;
+}
@@ -1,5 +1,11 @@
 // src/__tests__/mocks/memory-store.ts
-import { IdempotencyStore, AuditEvent } from "../../types";
+import { randomUUID } from "crypto";
+import {
+  IdempotencyStore,
+  AuditEvent,
+  StoredError,
+  StoredRecord,
+} from "../../types";
 
 export class MemoryStore implements IdempotencyStore {
   private store = new Map<string, any>();
@@ -14,72 +20,229 @@ export class MemoryStore implements IdempotencyStore {
 
     if (existing) {
       if (existing.status === "processing") {
-        return { status: "locked" as const };
+        return {
+          status: "locked" as const,
+          fingerprintMatches: existing.fingerprint === providedFingerprint,
+        };
+      }
+      if (existing.status === "unknown") {
+        return { status: "unknown" as const };
       }
       return {
         status: "exists" as const,
         fingerprint: existing.fingerprint,
         result: existing.result,
+        error: existing.error,
         createdAt: existing.createdAt,
       };
     }
 
     // Acquire lock
+    const token = randomUUID();
     this.store.set(key, {
       status: "processing",
+      token,
+      fingerprint: providedFingerprint,
       lockAcquiredAt: Date.now(),
       lockTtlMs,
+      expiry: this.expireLock(key, token, lockTtlMs),
     });
 
-    // Auto-expire lock after TTL (simulate Redis PX)
-    setTimeout(() => {
-      const current = this.store.get(key);
-      if (current?.status === "processing") {
-        this.store.delete(key);
-      }
-    }, lockTtlMs);
-
-    return { status: "acquired" as const };
+    return { status: "acquired" as const, token };
   }
 
   async commitResult(
     key: string,
+    token: string,
     fingerprint: string,
     result: unknown,
     retentionMs: number,
+  ) {
+    return this.commit(
+      key,
+      token,
+      { status: "committed", fingerprint, result },
+      retentionMs,
+    );
+  }
+
+  async atomicCheckAndLockMany(
+    entries: { key: string; fingerprint: string }[],
+    lockTtlMs: number,
+  ) {
+    const results = [];
+    for (const { key, fingerprint } of entries) {
+      results.push(await this.atomicCheckAndLock(key, fingerprint, lockTtlMs));
+    }
+    return results;
+  }
+
+  async commitResultMany(
+    entries: {
+      key: string;
+      token: string;
+      fingerprint: string;
+      result: unknown;
+    }[],
+    retentionMs: number,
+  ) {
+    return entries.map(({ key, token, fingerprint, result }) =>
+      this.commit(
+        key,
+        token,
+        { status: "committed", fingerprint, result },
+        retentionMs,
+      ),
+    );
+  }
+
+  async commitFailure(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ) {
+    return this.commit(
+      key,
+      token,
+      { status: "failed", fingerprint, error },
+      retentionMs,
+    );
+  }
+
+  private commit(
+    key: string,
+    token: string,
+    record: Record<string, unknown>,
+    retentionMs: number,
   ) {
     const current = this.store.get(key);
-    if (!current || current.status !== "processing") {
-      throw new Error("Cannot commit: lock not held or expired");
+    if (
+      !current ||
+      current.status !== "processing" ||
+      current.token !== token
+    ) {
+      return false;
     }
 
-    this.store.set(key, {
-      status: "committed",
-      fingerprint,
-      result,
-      createdAt: new Date().toISOString(),
-    });
+    clearTimeout(current.expiry);
+    const committed = { ...record, createdAt: new Date().toISOString() };
+    this.store.set(key, committed);
 
     // Auto-expire after retention
     setTimeout(() => {
-      const current = this.store.get(key);
-      if (current?.status === "committed") {
+      if (this.store.get(key) === committed) {
         this.store.delete(key);
       }
     }, retentionMs);
+
+    return true;
   }
 
-  async releaseLock(key: string) {
+  async releaseLock(key: string, token: string) {
     const current = this.store.get(key);
-    if (current?.status === "processing") {
+    if (current?.status === "processing" && current.token === token) {
+      clearTimeout(current.expiry);
       this.store.delete(key);
     }
   }
 
+  async extendLock(key: string, token: string, ttlMs: number) {
+    const current = this.store.get(key);
+    if (current?.status !== "processing" || current.token !== token) {
+      return false;
+    }
+
+    clearTimeout(current.expiry);
+    current.expiry = this.expireLock(key, token, ttlMs);
+    return true;
+  }
+
+  async markUnknown(key: string, token: string, ttlMs: number) {
+    const current = this.store.get(key);
+    if (current?.status !== "processing" || current.token !== token) {
+      return false;
+    }
+
+    clearTimeout(current.expiry);
+    const unknown = { status: "unknown", createdAt: new Date().toISOString() };
+    this.store.set(key, unknown);
+
+    setTimeout(() => {
+      if (this.store.get(key) === unknown) {
+        this.store.delete(key);
+      }
+    }, ttlMs);
+
+    return true;
+  }
+
+  async get(key: string): Promise<StoredRecord | null> {
+    const current = this.store.get(key);
+    if (!current) return null;
+
+    return {
+      status: current.status,
+      fingerprint: current.fingerprint,
+      result: current.result,
+      error: current.error,
+      createdAt: current.createdAt,
+      lockAcquiredAt:
+        current.lockAcquiredAt &&
+        new Date(current.lockAcquiredAt).toISOString(),
+    };
+  }
+
+  async delete(key: string) {
+    clearTimeout(this.store.get(key)?.expiry);
+    return this.store.delete(key);
+  }
+
+  async scan(prefix: string, options: { cursor?: string; count: number }) {
+    const keys = [...this.store.keys()]
+      .filter((k) => k.startsWith(prefix))
+      .sort();
+    const start = Number(options.cursor ?? 0);
+    const end = start + options.count;
+    return {
+      keys: keys.slice(start, end),
+      cursor: end < keys.length ? String(end) : undefined,
+    };
+  }
+
+  async forceUnlock(key: string) {
+    const current = this.store.get(key);
+    if (current?.status !== "processing" && current?.status !== "unknown") {
+      return false;
+    }
+    return this.delete(key);
+  }
+
   async recordAudit(event: AuditEvent) {
     this.auditLog.push(event);
   }
 
+  /**
+   * Test helper: simulate the lock expiring and being taken over by another request.
+   */
+  stealLock(key: string) {
+    const current = this.store.get(key);
+    if (current?.status === "processing") {
+      this.store.set(key, { ...current, token: randomUUID() });
+    }
+  }
+
+  // Auto-expire lock after TTL (simulate Redis PX)
+  private expireLock(key: string, token: string, ttlMs: number) {
+    return setTimeout(() => {
+      const current = this.store.get(key);
+      if (current?.status === "processing" && current.token === token) {
+        this.store.delete(key);
+      }
+    }, ttlMs);
+  }
+
   getAuditLog() {
     return this.auditLog;
   }
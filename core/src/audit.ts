@@ -0,0 +1,231 @@
+/**
+ * Tamper-evident audit log – every event is appended with a sequence number
+ * and a hash chain (each record includes the hash of the previous one), so
+ * `verifyAuditChain` detects deleted, reordered or modified entries.
+ *
+ * Hashes are computed over RFC 8785 canonical JSON. With an HMAC secret, an
+ * attacker with write access to the log cannot recompute the chain either.
+ */
+import { createHash, createHmac } from "crypto";
+import { once } from "events";
+import { createReadStream } from "fs";
+import { open } from "fs/promises";
+import { createInterface } from "readline";
+import { canonicalize } from "./fingerprint";
+import { AuditEvent } from "./types";
+
+/** `prevHash` of the first record */
+export const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+
+export interface ChainedAuditRecord {
+  seq: number; // 1, 2, 3, ... – no gaps
+  timestamp: string; // ISO 8601 – when the record was appended
+  event: AuditEvent;
+  prevHash: string; // hash of record seq - 1 (AUDIT_CHAIN_GENESIS for seq 1)
+  hash: string; // hex digest of { seq, timestamp, event, prevHash }
+}
+
+/**
+ * Storage for a hash chain.
+ */
+export interface AuditChainBackend {
+  /** Last appended record, to resume the chain after a restart */
+  last(): Promise<ChainedAuditRecord | null>;
+
+  /**
+   * Append `record` if the chain head is still `record.seq - 1`.
+   * @returns false if another writer appended first (the sink reloads and retries)
+   */
+  append(record: ChainedAuditRecord): Promise<boolean>;
+
+  /** All records in sequence order */
+  read(): AsyncIterable<ChainedAuditRecord>;
+}
+
+export interface AuditChainOptions {
+  /**
+   * Hash algorithm (any `crypto.createHash` / `createHmac` algorithm).
+   * @default "sha256"
+   */
+  algorithm?: string;
+
+  /**
+   * Secret for HMAC-keyed hashes. Without it, the chain detects accidental
+   * or partial tampering, but not a writer who recomputes every hash.
+   */
+  hmacKey?: string | Buffer;
+}
+
+export type AuditChainVerification =
+  | { valid: true; count: number; head: ChainedAuditRecord | null }
+  | {
+      valid: false;
+      count: number; // records verified before the break
+      brokenAt: number; // seq expected at the break
+      reason: "sequence_gap" | "prev_hash_mismatch" | "hash_mismatch";
+    };
+
+/**
+ * Appends audit events to a hash chain. Use `sink.onAudit` as (or inside)
+ * the engine's `onAudit` hook.
+ *
+ * Appends are serialized within the process; concurrent writers on the same
+ * backend are detected by `append` returning false and retried.
+ *
+ * @example
+ *   const sink = new HashChainAuditSink(createJsonlAuditBackend("/var/log/idempotkit/audit.jsonl"), {
+ *     hmacKey: process.env.AUDIT_HMAC_KEY,
+ *   });
+ *   const engine = new IdempotencyEngine(store, { ...options, onAudit: sink.onAudit });
+ *
+ *   // Later, e.g. in a nightly job
+ *   const report = await verifyAuditChain(backend.read(), { hmacKey });
+ */
+export class HashChainAuditSink {
+  private head?: ChainedAuditRecord | null;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly backend: AuditChainBackend,
+    private readonly options: AuditChainOptions = {},
+  ) {}
+
+  /** Engine audit hook (bound) */
+  readonly onAudit = async (event: AuditEvent): Promise<void> => {
+    await this.append(event);
+  };
+
+  /**
+   * Append one event to the chain.
+   *
+   * @returns The appended record (with its sequence number and hash)
+   */
+  append(event: AuditEvent): Promise<ChainedAuditRecord> {
+    const appended = this.tail.then(() => this._append(event));
+    this.tail = appended.catch(() => {});
+    return appended;
+  }
+
+  private async _append(event: AuditEvent): Promise<ChainedAuditRecord> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      if (this.head === undefined) this.head = await this.backend.last();
+
+      const record = chainRecord(
+        this.head,
+        event,
+        new Date().toISOString(),
+        this.options,
+      );
+      if (await this.backend.append(record)) {
+        this.head = record;
+        return record;
+      }
+      this.head = undefined; // another writer appended – reload the head
+    }
+    throw new Error("Audit chain append failed: too many concurrent writers");
+  }
+}
+
+/**
+ * Check a chain end to end: sequence numbers without gaps, each `prevHash`
+ * equal to the previous record's hash, and each hash matching its content.
+ *
+ * @param records - Records in sequence order (e.g. `backend.read()`)
+ * @param options - Same algorithm / HMAC key the sink used
+ *
+ * @note A deleted *tail* leaves a valid (shorter) chain – compare `head`
+ *   with a hash you anchored elsewhere (e.g. a daily digest) to detect it.
+ */
+export async function verifyAuditChain(
+  records: AsyncIterable<ChainedAuditRecord> | Iterable<ChainedAuditRecord>,
+  options: AuditChainOptions = {},
+): Promise<AuditChainVerification> {
+  let head: ChainedAuditRecord | null = null;
+  let count = 0;
+
+  for await (const record of records) {
+    const brokenAt = count + 1;
+    if (record.seq !== brokenAt) {
+      return { valid: false, count, brokenAt, reason: "sequence_gap" };
+    }
+    if (record.prevHash !== (head?.hash ?? AUDIT_CHAIN_GENESIS)) {
+      return { valid: false, count, brokenAt, reason: "prev_hash_mismatch" };
+    }
+    if (record.hash !== hashRecord(record, options)) {
+      return { valid: false, count, brokenAt, reason: "hash_mismatch" };
+    }
+    head = record;
+    count++;
+  }
+
+  return { valid: true, count, head };
+}
+
+/**
+ * JSONL file backend – one record per line, fsynced after every append.
+ *
+ * ⚠️ Single writer: use one file per process (or a shared backend such as
+ * the Redis stream backend of `@idempotkit/redis-adapter`).
+ */
+export function createJsonlAuditBackend(path: string): AuditChainBackend {
+  const lines = async function* () {
+    const input = createReadStream(path, { encoding: "utf8" });
+    try {
+      await once(input, "open");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (line.trim()) yield JSON.parse(line) as ChainedAuditRecord;
+    }
+  };
+
+  return {
+    async last() {
+      let last: ChainedAuditRecord | null = null;
+      for await (const record of lines()) last = record;
+      return last;
+    },
+
+    async append(record) {
+      const file = await open(path, "a");
+      try {
+        await file.appendFile(JSON.stringify(record) + "\n", "utf8");
+        await file.datasync();
+      } finally {
+        await file.close();
+      }
+      return true;
+    },
+
+    read: lines,
+  };
+}
+
+/**
+ * Build the record following `head`.
+ */
+function chainRecord(
+  head: ChainedAuditRecord | null,
+  event: AuditEvent,
+  timestamp: string,
+  options: AuditChainOptions,
+): ChainedAuditRecord {
+  const record = {
+    seq: (head?.seq ?? 0) + 1,
+    timestamp,
+    event,
+    prevHash: head?.hash ?? AUDIT_CHAIN_GENESIS,
+  };
+  return { ...record, hash: hashRecord(record, options) };
+}
+
+function hashRecord(
+  { seq, timestamp, event, prevHash }: Omit<ChainedAuditRecord, "hash">,
+  { algorithm = "sha256", hmacKey }: AuditChainOptions,
+): string {
+  const data = canonicalize({ seq, timestamp, event, prevHash });
+  const hash = hmacKey ? createHmac(algorithm, hmacKey) : createHash(algorithm);
+  return hash.update(data).digest("hex");
+}
@@ -0,0 +1,133 @@
+/**
+ * Circuit breaker for store calls – after repeated "store unavailable"
+ * failures, calls fail fast for a cool-down period instead of each waiting
+ * for a connection timeout.
+ */
+import { IdempotencyError, StoreError } from "./errors";
+import { IdempotencyStore } from "./types";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive store-unavailable failures that open the circuit.
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long (ms) the circuit stays open before a single trial call is let
+   * through ("half-open"). Success closes it, failure opens it again.
+   * @default 10_000
+   */
+  resetTimeout?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Only lock acquisition is guarded. Calls that follow a handler (commit,
+ * release, mark unknown, heartbeat) always reach the store – failing them
+ * fast would drop the outcome of a side effect that already happened, and
+ * a retry would run it again. Admin and audit calls are not guarded either.
+ */
+const GUARDED_METHODS = new Set<string | symbol>([
+  "atomicCheckAndLock",
+  "atomicCheckAndLockMany",
+]);
+
+/**
+ * Whether a store call failed because the store could not be reached:
+ * a retryable StoreError, or any other non-idempotency error (adapters that
+ * do not classify their errors).
+ */
+export function isStoreUnavailable(err: unknown): boolean {
+  if (err instanceof StoreError) return err.retryable;
+  return !(err instanceof IdempotencyError);
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 10_000;
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+      throw new Error(
+        `circuitBreaker.failureThreshold must be a positive integer (got ${this.failureThreshold})`,
+      );
+    }
+    if (!(this.resetTimeout >= 100)) {
+      throw new Error(
+        `circuitBreaker.resetTimeout must be at least 100ms (got ${this.resetTimeout}ms)`,
+      );
+    }
+  }
+
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) return "closed";
+    return Date.now() - this.openedAt >= this.resetTimeout
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Run a store call through the breaker.
+   *
+   * @throws StoreError ("unavailable") without calling the store while the
+   *   circuit is open, or while another call is probing a half-open circuit
+   */
+  async call<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.probing)) {
+      const retryIn = Math.max(
+        0,
+        this.openedAt + this.resetTimeout - Date.now(),
+      );
+      throw new StoreError(
+        `Store circuit is open after ${this.failures} consecutive failures – failing fast (next trial in ${retryIn}ms)`,
+        "unavailable",
+      );
+    }
+
+    const probe = state === "half-open";
+    if (probe) this.probing = true;
+    try {
+      const result = await fn();
+      this.failures = 0;
+      return result;
+    } catch (err) {
+      if (isStoreUnavailable(err)) {
+        this.failures++;
+        if (this.failures >= this.failureThreshold) this.openedAt = Date.now();
+      } else {
+        this.failures = 0; // the store answered
+      }
+      throw err;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+}
+
+/**
+ * Wrap the lock-acquisition methods of `store` in `breaker`. Everything else
+ * (optional methods included) is passed through unchanged.
+ */
+export function withCircuitBreaker(
+  store: IdempotencyStore,
+  breaker: CircuitBreaker,
+): IdempotencyStore {
+  return new Proxy(store, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== "function" || !GUARDED_METHODS.has(property)) {
+        return value;
+      }
+      return (...args: unknown[]) =>
+        breaker.call(() => value.apply(target, args));
+    },
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Compliance profiles – retention bounds, audit requirements and audit
+ * metadata redaction for a regulatory regime.
+ */
+import { InvalidRetentionError } from "./errors";
+
+/**
+ * Retention and audit rules the engine enforces.
+ *
+ * @example
+ *   // PCI-DSS plus a GDPR storage limit
+ *   const profile: ComplianceProfile = {
+ *     ...complianceProfiles["pci-dss"],
+ *     name: "pci-dss+gdpr",
+ *     maxRetention: 30 * 86_400_000,
+ *   };
+ */
+export interface ComplianceProfile {
+  /** Recorded as `profile` on every audit event */
+  name: string;
+
+  /** Minimum `retention` / `retentionOverride` (ms) for stored results */
+  minRetention: number;
+
+  /** Maximum `retention` / `retentionOverride` (ms), e.g. for GDPR storage limits */
+  maxRetention?: number;
+
+  /** Whether `onAudit` must be provided */
+  requireAudit: boolean;
+
+  /**
+   * Audit metadata keys matching this pattern are redacted before `onAudit` /
+   * `recordAudit` (default `denyKeys` of the engine's `redaction` policy)
+   */
+  redactMetadataKeys?: RegExp;
+}
+
+export type ComplianceProfileName = "pci-dss" | "cbn" | "none";
+
+/** Credentials, card data and direct identifiers */
+const SENSITIVE_KEYS =
+  /(password|token|secret|card|cvv|pin|ssn|full.?name|email|phone)/i;
+
+/**
+ * Built-in profiles.
+ *
+ * - `pci-dss`: results kept ≥24h (PCI-DSS §10), audit mandatory (default)
+ * - `cbn`: results kept ≥7 days (CBN guidelines for Nigerian fintech), audit mandatory
+ * - `none`: no regulatory floor and audit optional – webhook dedupe, dev environments
+ */
+export const complianceProfiles: Readonly<
+  Record<ComplianceProfileName, ComplianceProfile>
+> = {
+  "pci-dss": {
+    name: "pci-dss",
+    minRetention: 86_400_000,
+    requireAudit: true,
+    redactMetadataKeys: SENSITIVE_KEYS,
+  },
+  cbn: {
+    name: "cbn",
+    minRetention: 604_800_000,
+    requireAudit: true,
+    redactMetadataKeys: SENSITIVE_KEYS,
+  },
+  none: {
+    name: "none",
+    minRetention: 1_000,
+    requireAudit: false,
+    redactMetadataKeys: SENSITIVE_KEYS,
+  },
+};
+
+/**
+ * Look up a built-in profile by name, or validate a custom one.
+ */
+export function resolveComplianceProfile(
+  profile: ComplianceProfileName | ComplianceProfile,
+): ComplianceProfile {
+  if (typeof profile === "string") {
+    const builtIn = complianceProfiles[profile];
+    if (!builtIn) {
+      throw new Error(
+        `Unknown compliance profile "${profile}" (expected ${Object.keys(complianceProfiles).join(", ")} or a custom profile)`,
+      );
+    }
+    return builtIn;
+  }
+
+  if (!profile.name || !(profile.minRetention >= 0)) {
+    throw new Error(
+      "Custom compliance profiles need a name and a non-negative minRetention",
+    );
+  }
+  if (
+    profile.maxRetention !== undefined &&
+    profile.maxRetention < profile.minRetention
+  ) {
+    throw new Error(
+      `Compliance profile "${profile.name}": maxRetention (${profile.maxRetention}ms) is below minRetention (${profile.minRetention}ms)`,
+    );
+  }
+  return profile;
+}
+
+/**
+ * Throw InvalidRetentionError if `retentionMs` is outside the profile's bounds.
+ *
+ * @param option - Option name for the error message
+ * @param minRetention - Lower bound, if not the profile's (seen-set markers)
+ */
+export function assertRetention(
+  profile: ComplianceProfile,
+  retentionMs: number,
+  option: string,
+  minRetention = profile.minRetention,
+): void {
+  if (!(retentionMs >= minRetention)) {
+    throw new InvalidRetentionError(
+      `${option} must be at least ${minRetention}ms under the "${profile.name}" compliance profile (got ${retentionMs}ms)`,
+    );
+  }
+  if (
+    profile.maxRetention !== undefined &&
+    retentionMs > profile.maxRetention
+  ) {
+    throw new InvalidRetentionError(
+      `${option} must be at most ${profile.maxRetention}ms under the "${profile.name}" compliance profile (got ${retentionMs}ms)`,
+    );
+  }
+}
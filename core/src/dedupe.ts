@@ -0,0 +1,166 @@
+/**
+ * Deduplication for at-least-once message consumers (SQS, Kafka, RabbitMQ,
+ * webhooks) on top of IdempotencyEngine.
+ */
+import type { IdempotencyEngine } from "./engine";
+import type { ExecuteOptions, HandlerContext } from "./types";
+import { InvalidIdempotencyKeyError } from "./errors";
+
+/**
+ * Where a message keeps its ID and the part of it that is fingerprinted.
+ */
+export interface MessageSource<M> {
+  /** Stable ID that is identical on every redelivery of the message */
+  messageId: (message: M) => string | undefined;
+
+  /**
+   * The payload to fingerprint. Must exclude per-delivery fields (receipt
+   * handles, receive counts, ...) or redeliveries fail as mismatches.
+   * @default the whole message
+   */
+  payload?: (message: M) => unknown;
+}
+
+export interface DedupeOptions<M>
+  extends
+    MessageSource<M>,
+    Pick<
+      ExecuteOptions,
+      | "onAudit"
+      | "metadata"
+      | "handlerTimeout"
+      | "waitForResult"
+      | "isTerminalError"
+      | "onHandlerTimeout"
+    > {
+  /**
+   * - "result": store the handler's result and return it for duplicates
+   * - "seen": store only a marker that the message was processed – for
+   *   consumers that just need to skip redeliveries
+   * @default "result"
+   */
+  mode?: "result" | "seen";
+
+  /**
+   * How long (ms) to remember a message. Cover the broker's redelivery
+   * window (e.g. SQS retention period, Stripe's 3-day retries).
+   * At least 24h in "result" mode, at least 1m in "seen" mode.
+   * @default the engine's retention
+   */
+  retention?: number;
+
+  /**
+   * Prefix added to message IDs so they never collide with HTTP keys or
+   * IDs from another queue, e.g. "sqs:orders:".
+   * @default "msg:"
+   */
+  namespace?: string;
+}
+
+/**
+ * Outcome of `dedupeMessage`. Duplicates carry the stored result in "result"
+ * mode and `null` in "seen" mode.
+ */
+export type DedupeResult<T> =
+  { duplicate: false; result: T } | { duplicate: true; result: T | null };
+
+/**
+ * Run `handler` at most once per message ID.
+ *
+ * @param engine - Engine that stores the processed messages
+ * @param message - The message as received from the broker
+ * @param handler - Your processing logic
+ * @param options - Message ID / payload extractors, mode, retention
+ *
+ * @returns `{ duplicate: true }` for a redelivery (the handler is skipped)
+ * @throws InvalidIdempotencyKeyError if the message has no ID
+ * @throws FingerprintMismatchError if the ID was seen with a different payload
+ * @throws OperationInProgressError if the message is being processed by
+ *   another consumer – leave it unacknowledged so the broker redelivers it
+ *
+ * @example
+ *   const { duplicate } = await dedupeMessage(engine, sqsMessage, handleOrder, {
+ *     ...messageSources.sqs,
+ *     mode: "seen",
+ *     retention: 4 * 86_400_000,
+ *   });
+ */
+export async function dedupeMessage<M, T>(
+  engine: IdempotencyEngine,
+  message: M,
+  handler: (message: M, ctx: HandlerContext) => Promise<T>,
+  options: DedupeOptions<M>,
+): Promise<DedupeResult<T>> {
+  const {
+    messageId,
+    payload = (m: M) => m,
+    mode = "result",
+    retention,
+    namespace = "msg:",
+    ...executeOptions
+  } = options;
+
+  const id = messageId(message);
+  if (typeof id !== "string" || id.trim().length === 0) {
+    throw new InvalidIdempotencyKeyError(
+      "message has no ID – check the messageId extractor",
+    );
+  }
+
+  let executed = false;
+  const result = await engine.execute(
+    namespace + id,
+    engine.fingerprint(payload(message)),
+    (ctx) => {
+      executed = true;
+      return handler(message, ctx);
+    },
+    {
+      ...executeOptions,
+      retentionOverride: retention,
+      storeResult: mode === "result",
+    },
+  );
+
+  return executed
+    ? { duplicate: false, result }
+    : { duplicate: true, result: result ?? null };
+}
+
+/**
+ * Extractors for common brokers – spread into `DedupeOptions`.
+ */
+export const messageSources = {
+  /** AWS SQS `Message` (receipt handle and attributes change per delivery) */
+  sqs: {
+    messageId: (m: { MessageId?: string }) => m.MessageId,
+    payload: (m: { Body?: string }) => m.Body,
+  },
+
+  /** KafkaJS `EachMessagePayload` – the offset identifies a record per partition */
+  kafka: {
+    messageId: (p: {
+      topic: string;
+      partition: number;
+      message: { offset: string };
+    }) => `${p.topic}:${p.partition}:${p.message.offset}`,
+    payload: (p: { message: { value: Buffer | null } }) =>
+      p.message.value?.toString("base64") ?? null,
+  },
+
+  /** amqplib `ConsumeMessage` – requires publishers to set `messageId` */
+  rabbitmq: {
+    messageId: (m: { properties: { messageId?: string } }) =>
+      m.properties.messageId,
+    payload: (m: { content: Buffer }) => m.content.toString("base64"),
+  },
+
+  /** Stripe `Event` (`pending_webhooks` changes between retries) */
+  stripe: {
+    messageId: (e: { id: string }) => e.id,
+    payload: (e: { type: string; data: unknown }) => ({
+      type: e.type,
+      data: e.data,
+    }),
+  },
+} satisfies Record<string, MessageSource<never>>;
@@ -0,0 +1,233 @@
+/**
+ * Audit delivery – a bounded in-memory queue between the engine and its
+ * audit sinks, with batching and retry with exponential backoff, so an
+ * audit backend outage delays records instead of losing them silently.
+ */
+import { AuditEvent } from "./types";
+
+export interface AuditDeliveryOptions {
+  /**
+   * Events held while the audit backend is failing. Further events are
+   * rejected (reported via `onAuditFailure` with `dropped: true`).
+   * @default 10_000
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Events delivered per batch (one `recordAuditMany` call if the store
+   * supports it).
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Delivery attempts per batch before it is dropped.
+   * @default Infinity (retry until delivered or the queue overflows)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Retry delay: `initialMs * 2^(attempt - 1)`, capped at `maxMs`.
+   * @default { initialMs: 100, maxMs: 30_000 }
+   */
+  backoff?: { initialMs?: number; maxMs?: number };
+}
+
+/**
+ * Passed to `onAuditFailure` for every failed delivery attempt.
+ */
+export interface AuditFailureInfo {
+  events: AuditEvent[];
+  attempt: number; // 1 for the first failure of a batch
+  dropped: boolean; // true if the events will not be retried
+}
+
+/**
+ * Queue entry – `deliver` records its own progress on the entry so a retried
+ * batch never re-sends to a sink that already accepted the event.
+ */
+export interface QueuedAudit {
+  event: AuditEvent;
+  auditor: (event: AuditEvent) => void | Promise<void>;
+  audited?: boolean; // onAudit done
+  recorded?: boolean; // store.recordAudit done
+}
+
+export class AuditDispatcher {
+  private readonly queue: QueuedAudit[] = [];
+  private readonly waiters = new Map<QueuedAudit, () => void>();
+  private readonly maxQueueSize: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private draining?: Promise<void>;
+  private failures = 0;
+  private flushing = false;
+  private retryTimer?: NodeJS.Timeout;
+  private wakeRetry?: () => void;
+
+  constructor(
+    private readonly deliver: (batch: QueuedAudit[]) => Promise<void>,
+    private readonly onFailure:
+      ((error: unknown, info: AuditFailureInfo) => void) | undefined,
+    options: AuditDeliveryOptions = {},
+  ) {
+    this.maxQueueSize = options.maxQueueSize ?? 10_000;
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? Infinity;
+    this.initialBackoffMs = options.backoff?.initialMs ?? 100;
+    this.maxBackoffMs = options.backoff?.maxMs ?? 30_000;
+    if (this.maxQueueSize < 1 || this.batchSize < 1 || this.maxAttempts < 1) {
+      throw new Error(
+        "auditDelivery: maxQueueSize, batchSize and maxAttempts must be at least 1",
+      );
+    }
+  }
+
+  /**
+   * False while queued events are failing to deliver or the queue is full.
+   */
+  get healthy(): boolean {
+    if (this.queue.length === 0) return true;
+    return this.failures === 0 && this.queue.length < this.maxQueueSize;
+  }
+
+  /** Events waiting for delivery */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue an event for delivery.
+   *
+   * @returns Resolves once the event is delivered – or as soon as a delivery
+   *   attempt fails (it stays queued for retry), so callers are never blocked
+   *   by an audit outage
+   */
+  enqueue(entry: QueuedAudit): Promise<void> {
+    if (this.queue.length >= this.maxQueueSize) {
+      this.report(new Error("Audit queue is full"), [entry], 0, true);
+      return Promise.resolve();
+    }
+
+    const settled = new Promise<void>((resolve) =>
+      this.waiters.set(entry, resolve),
+    );
+    this.queue.push(entry);
+    this.draining ??= this.drain();
+    return settled;
+  }
+
+  /**
+   * Deliver everything queued, retrying immediately instead of waiting for
+   * the backoff. Events still undelivered after `timeoutMs` are dropped and
+   * reported via `onAuditFailure`.
+   */
+  async flush(timeoutMs: number): Promise<void> {
+    this.flushing = true;
+    try {
+      this.wakeRetry?.();
+      if (this.draining) {
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          this.draining,
+          new Promise((resolve) => (timer = setTimeout(resolve, timeoutMs))),
+        ]);
+        clearTimeout(timer);
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.queue.length > 0) {
+      const remaining = this.queue.splice(0);
+      this.settle(remaining);
+      this.wakeRetry?.(); // let the drain loop see the empty queue and stop
+      this.report(
+        new Error(`Audit flush timed out after ${timeoutMs}ms`),
+        remaining,
+        this.failures,
+        true,
+      );
+    }
+  }
+
+  /** Runs while the queue is non-empty; only started by `enqueue` (never throws) */
+  private async drain(): Promise<void> {
+    let attempt = 0;
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.batchSize);
+      try {
+        await this.deliver(batch);
+        this.remove(batch);
+        this.settle(batch);
+        this.failures = 0;
+        attempt = 0;
+      } catch (error) {
+        attempt++;
+        this.failures++;
+        this.settle(batch); // don't block callers – retried in the background
+
+        const dropped = attempt >= this.maxAttempts;
+        this.report(error, batch, attempt, dropped);
+        if (dropped) {
+          this.remove(batch);
+          attempt = 0;
+          continue;
+        }
+        await this.backoff(attempt);
+      }
+    }
+    // Cleared in the same tick the queue is seen empty, so an event queued
+    // right after starts a new drain
+    this.draining = undefined;
+  }
+
+  /** Sleep before the next attempt; `flush` cuts it short */
+  private backoff(attempt: number): Promise<void> {
+    const delay = this.flushing
+      ? this.initialBackoffMs
+      : Math.min(this.initialBackoffMs * 2 ** (attempt - 1), this.maxBackoffMs);
+    return new Promise((resolve) => {
+      this.wakeRetry = () => {
+        clearTimeout(this.retryTimer);
+        this.wakeRetry = undefined;
+        resolve();
+      };
+      this.retryTimer = setTimeout(this.wakeRetry, delay);
+      this.retryTimer.unref?.(); // a pending retry must not keep the process alive
+    });
+  }
+
+  /** Remove delivered / dropped entries (the queue may have been flushed meanwhile) */
+  private remove(entries: QueuedAudit[]) {
+    const done = new Set(entries);
+    const kept = this.queue.filter((entry) => !done.has(entry));
+    this.queue.splice(0, this.queue.length, ...kept);
+  }
+
+  private settle(entries: QueuedAudit[]) {
+    for (const entry of entries) {
+      this.waiters.get(entry)?.();
+      this.waiters.delete(entry);
+    }
+  }
+
+  private report(
+    error: unknown,
+    entries: QueuedAudit[],
+    attempt: number,
+    dropped: boolean,
+  ) {
+    try {
+      this.onFailure?.(error, {
+        events: entries.map((entry) => entry.event),
+        attempt,
+        dropped,
+      });
+    } catch {
+      // A failing failure hook must not break delivery
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Envelope encryption of stored results (AES-256-GCM).
+ *
+ * Every result gets a fresh data key (DEK). The DEK encrypts the result and is
+ * itself encrypted ("wrapped") with a key-encryption key (KEK) from your
+ * `KeyProvider`. The envelope carries the KEK id, so old results stay readable
+ * after you rotate to a new active key.
+ *
+ * The storage key is bound in as additional authenticated data – an envelope
+ * copied to another key fails to decrypt, just like a modified one.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { IdempotencyInternalError } from "./errors";
+import { ResultCodec, ResultCodecContext } from "./types";
+
+/**
+ * Source of key-encryption keys (KEKs). Back it with your KMS / secret store.
+ */
+export interface KeyProvider {
+  /** Id of the key used to encrypt NEW results */
+  activeKeyId(): string | Promise<string>;
+
+  /** 32-byte key for `keyId` – must keep returning retired keys until their results expire */
+  getKey(keyId: string): Buffer | Promise<Buffer>;
+}
+
+export interface EncryptionCodecOptions {
+  keyProvider: KeyProvider;
+
+  /**
+   * Return stored values that are not envelopes as-is instead of failing.
+   * Only enable while migrating a store that already holds plaintext results.
+   * @default false
+   */
+  allowPlaintext?: boolean;
+}
+
+/**
+ * Stored shape of an encrypted result. All binary fields are base64.
+ */
+export interface EncryptedEnvelope {
+  idempotkit_enc: 1; // envelope version marker
+  alg: "A256GCM";
+  kid: string; // KEK id
+  dek: string; // wrapped data key: iv (12) + tag (16) + ciphertext (32)
+  iv: string;
+  tag: string;
+  ct: string;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Create a `ResultCodec` that encrypts results with AES-256-GCM before they
+ * reach the store and decrypts them on replay.
+ *
+ * Decryption failures (tampering, unknown key id, malformed envelope) throw
+ * IdempotencyInternalError – a stored result is never silently dropped.
+ *
+ * @example
+ *   const engine = new IdempotencyEngine(store, {
+ *     ...,
+ *     resultCodec: createEncryptionCodec({
+ *       keyProvider: staticKeyProvider("2024-06", {
+ *         "2024-06": Buffer.from(process.env.RESULT_KEY_2024_06!, "base64"),
+ *       }),
+ *     }),
+ *   });
+ */
+export function createEncryptionCodec(
+  options: EncryptionCodecOptions,
+): ResultCodec {
+  const { keyProvider } = options;
+
+  return {
+    async encode(value: unknown, context: ResultCodecContext) {
+      let kid: string;
+      let kek: Buffer;
+      try {
+        kid = await keyProvider.activeKeyId();
+        kek = checkKey(kid, await keyProvider.getKey(kid));
+      } catch (err) {
+        throw new IdempotencyInternalError(
+          `Result encryption failed for key ${context.key}: ${errorMessage(err)}`,
+          err,
+        );
+      }
+
+      const dek = randomBytes(KEY_BYTES);
+      const aad = Buffer.from(context.key);
+      const wrapped = seal(kek, dek, Buffer.from(kid));
+      const sealed = seal(
+        dek,
+        // `undefined` is not valid JSON – keep it distinguishable from null
+        Buffer.from(JSON.stringify({ v: value })),
+        aad,
+      );
+
+      const envelope: EncryptedEnvelope = {
+        idempotkit_enc: 1,
+        alg: "A256GCM",
+        kid,
+        dek: Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ct]).toString(
+          "base64",
+        ),
+        iv: sealed.iv.toString("base64"),
+        tag: sealed.tag.toString("base64"),
+        ct: sealed.ct.toString("base64"),
+      };
+      return envelope;
+    },
+
+    async decode(stored: unknown, context: ResultCodecContext) {
+      if (!isEnvelope(stored)) {
+        if (options.allowPlaintext) return stored;
+        throw new IdempotencyInternalError(
+          `Stored result for key ${context.key} is not encrypted (possible tampering)`,
+        );
+      }
+
+      try {
+        const kek = checkKey(stored.kid, await keyProvider.getKey(stored.kid));
+
+        const wrapped = Buffer.from(stored.dek, "base64");
+        const dek = open(
+          kek,
+          wrapped.subarray(0, IV_BYTES),
+          wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+          wrapped.subarray(IV_BYTES + TAG_BYTES),
+          Buffer.from(stored.kid),
+        );
+        const plaintext = open(
+          dek,
+          Buffer.from(stored.iv, "base64"),
+          Buffer.from(stored.tag, "base64"),
+          Buffer.from(stored.ct, "base64"),
+          Buffer.from(context.key),
+        );
+
+        return (JSON.parse(plaintext.toString("utf8")) as { v: unknown }).v;
+      } catch (err) {
+        throw new IdempotencyInternalError(
+          `Stored result for key ${context.key} failed decryption (key id ${stored.kid}): ${errorMessage(err)}`,
+          err,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * KeyProvider over a fixed set of keys – e.g. loaded from environment variables.
+ *
+ * @param activeKeyId - Id of the key used for new results
+ * @param keys - All keys that may still be needed for decryption, by id
+ */
+export function staticKeyProvider(
+  activeKeyId: string,
+  keys: Record<string, Buffer>,
+): KeyProvider {
+  if (!keys[activeKeyId]) {
+    throw new Error(`active key ${activeKeyId} is missing from keys`);
+  }
+
+  return {
+    activeKeyId: () => activeKeyId,
+    getKey: (keyId) => {
+      const key = keys[keyId];
+      if (!key) throw new Error(`unknown key id ${keyId}`);
+      return key;
+    },
+  };
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(aad);
+  const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ct };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ct: Buffer, aad: Buffer) {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(tag); // final() throws if anything was modified
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
+
+function checkKey(keyId: string, key: Buffer): Buffer {
+  if (!Buffer.isBuffer(key) || key.length !== KEY_BYTES) {
+    throw new Error(`key ${keyId} must be a ${KEY_BYTES}-byte Buffer`);
+  }
+  return key;
+}
+
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    (value as EncryptedEnvelope).idempotkit_enc === 1 &&
+    (value as EncryptedEnvelope).alg === "A256GCM" &&
+    typeof (value as EncryptedEnvelope).kid === "string"
+  );
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
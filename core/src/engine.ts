@@ -1,9 +1,9 @@
 /**
  * Core idempotency engine – storage-agnostic primitive for duplicate-safe operations.
  *
- * Enforces compliance-by-design:
+ * Enforces compliance-by-design (per compliance profile, PCI-DSS by default):
  * - REQUIRED audit hook (no silent bypass)
- * - Mandatory 24h+ retention (PCI-DSS)
+ * - Mandatory 24h+ retention for stored results
  * - Fingerprint enforcement (prevents $10 → $1000 replay attacks)
  * - Atomic check-or-lock (no race conditions)
  */
@@ -13,19 +13,103 @@ import {
   AuditEvent,
   EngineOptions,
   ExecuteOptions,
+  ExecuteManyOptions,
+  Lease,
+  BeginOptions,
+  BeginResult,
+  CompleteOptions,
+  AbortOptions,
+  BatchItem,
+  BatchItemOutcome,
+  CheckAndLockResult,
+  HandlerContext,
+  StoredError,
+  StoredRecord,
+  ScanPage,
+  AdminOptions,
+  ListOptions,
+  ResultCodec,
+  FingerprintStrategy,
 } from "./types";
+import { EngineTelemetry, ExecutionTelemetry } from "./telemetry";
+import {
+  ComplianceProfile,
+  assertRetention,
+  resolveComplianceProfile,
+} from "./compliance";
+import { createRedactor } from "./redaction";
+import { AuditDispatcher, QueuedAudit } from "./dispatcher";
+import { createSerializationCodec } from "./serialization";
+import {
+  ResolvedKeyPolicy,
+  resolveKeyPolicy,
+  scopedKey,
+  scopePrefix,
+} from "./keys";
+import {
+  CircuitBreaker,
+  CircuitState,
+  isStoreUnavailable,
+  withCircuitBreaker,
+} from "./breaker";
 import {
-  InvalidIdempotencyKeyError,
   FingerprintMismatchError,
-  InvalidRetentionError,
   OperationInProgressError,
   HandlerTimeoutError,
+  LockLostError,
+  IdempotencyError,
+  TerminalError,
+  OutcomeUnknownError,
+  UnsupportedOperationError,
+  IdempotencyInternalError,
+  AuditUnavailableError,
+  LockAcquisitionError,
 } from "./errors";
 
+/** Minimum retention for seen-set markers – no result or payload is stored */
+const SEEN_RETENTION_FLOOR_MS = 60_000;
+
+/**
+ * Per-item overrides used by `executeMany`: a lock result prefetched by
+ * `atomicCheckAndLockMany`, and a commit that is batched with other items.
+ */
+interface BatchStep {
+  check?: CheckAndLockResult | Error;
+  commit?: IdempotencyStore["commitResult"];
+}
+
 export class IdempotencyEngine {
   private readonly store: IdempotencyStore;
-  private readonly options: Required<Omit<EngineOptions, "onAudit">> & {
+  private readonly telemetry: EngineTelemetry;
+  private readonly redact: (
+    metadata: Record<string, unknown>,
+  ) => Record<string, unknown>;
+  private readonly audits: AuditDispatcher;
+  private readonly breaker?: CircuitBreaker;
+  /** Keys running under `onStoreUnavailable: "local-lock"` */
+  private readonly localLocks = new Set<string>();
+  private readonly options: Required<
+    Omit<
+      EngineOptions,
+      | "onAudit"
+      | "resultCodec"
+      | "serialization"
+      | "fingerprintStrategy"
+      | "telemetry"
+      | "compliance"
+      | "redaction"
+      | "auditDelivery"
+      | "onAuditFailure"
+      | "circuitBreaker"
+      | "keyPolicy"
+    >
+  > & {
     onAudit: (event: AuditEvent) => void | Promise<void>;
+    keyPolicy: ResolvedKeyPolicy;
+    compliance: ComplianceProfile;
+    resultCodec?: ResultCodec;
+    serialization?: ResultCodec;
+    fingerprintStrategy?: FingerprintStrategy;
   };
 
   constructor(store: IdempotencyStore, options: EngineOptions) {
@@ -36,28 +120,86 @@ export class IdempotencyEngine {
       );
     }
 
-    if (options.retention < 86_400_000) {
-      throw new InvalidRetentionError(
-        `retention must be at least 24 hours (86400000ms) for PCI-DSS compliance (got ${options.retention}ms)`,
-      );
-    }
+    const compliance = resolveComplianceProfile(
+      options.compliance ?? "pci-dss",
+    );
+    assertRetention(compliance, options.retention, "retention");
 
     // === CRITICAL: onAudit is REQUIRED – no default, no bypass ===
-    if (typeof options.onAudit !== "function") {
+    // (only profiles without audit requirements, e.g. "none", may omit it)
+    if (
+      typeof options.onAudit !== "function" &&
+      (compliance.requireAudit || options.onAudit !== undefined)
+    ) {
       throw new Error(
         "onAudit is REQUIRED for compliance. Provide a function that writes to your audit system.\n" +
           "For development you can use: (e) => console.debug('[AUDIT]', e)",
       );
     }
 
-    this.store = store;
+    const lockRenewalInterval =
+      options.lockRenewalInterval ?? Math.floor(options.lockTtl / 3);
+    if (lockRenewalInterval < 10 || lockRenewalInterval >= options.lockTtl) {
+      throw new Error(
+        `lockRenewalInterval must be between 10ms and lockTtl (got ${lockRenewalInterval}ms)`,
+      );
+    }
+
+    const onStoreUnavailable = options.onStoreUnavailable ?? "reject";
+    if (!["reject", "bypass", "local-lock"].includes(onStoreUnavailable)) {
+      throw new Error(
+        `onStoreUnavailable must be "reject", "bypass" or "local-lock" (got ${onStoreUnavailable})`,
+      );
+    }
+
+    // Without markUnknown a timed-out key would only be held until lockTtl
+    if (options.onHandlerTimeout === "hold" && !store.markUnknown) {
+      throw new UnsupportedOperationError(
+        `onHandlerTimeout "hold" requires a store that implements markUnknown() (${store.constructor.name} does not)`,
+      );
+    }
+
+    if (options.circuitBreaker !== false) {
+      this.breaker = new CircuitBreaker(options.circuitBreaker);
+    }
+    this.store = this.breaker ? withCircuitBreaker(store, this.breaker) : store;
     this.options = {
       lockTtl: options.lockTtl,
+      lockRenewalInterval,
       retention: options.retention,
-      onAudit: options.onAudit,
+      onAudit: options.onAudit ?? (() => {}),
+      compliance,
+      strictAudit: options.strictAudit ?? false,
+      onStoreUnavailable,
+      onHandlerTimeout: options.onHandlerTimeout ?? "release",
       fingerprintAlgorithm: options.fingerprintAlgorithm ?? "sha256",
       keyPrefix: options.keyPrefix ?? "",
+      keyPolicy: resolveKeyPolicy(options.keyPolicy),
+      resultCodec: options.resultCodec,
+      serialization: options.serialization
+        ? createSerializationCodec(options.serialization)
+        : undefined,
+      fingerprintStrategy: options.fingerprintStrategy,
     };
+    // The profile's deny pattern always applies – a policy can only add to it
+    this.redact = createRedactor({
+      ...options.redaction,
+      denyKeys: [
+        ...(compliance.redactMetadataKeys
+          ? [compliance.redactMetadataKeys]
+          : []),
+        ...(options.redaction?.denyKeys ?? []),
+      ],
+    });
+    this.audits = new AuditDispatcher(
+      (batch) => this._deliverAudits(batch),
+      options.onAuditFailure,
+      options.auditDelivery,
+    );
+    this.telemetry = new EngineTelemetry({
+      ...options.telemetry,
+      keyPrefix: this.options.keyPrefix,
+    });
   }
 
   /**
@@ -65,106 +207,93 @@ export class IdempotencyEngine {
    *
    * @param key - Client-provided idempotency key (MUST be from Idempotency-Key header)
    * @param fingerprint - SHA-256 of normalized request body (prevents replay attacks)
-   * @param handler - Your business logic (payment processing, etc.)
+   * @param handler - Your business logic (payment processing, etc.). Receives an
+   *   AbortSignal that is aborted on timeout – pass it to fetch / your SDKs
+   *   so a timed-out handler stops instead of running on in the background
    * @param options - Per-request overrides (timeout, retention, audit context)
    *
    * @returns Cached result if duplicate, or fresh result from handler
+   * @throws TerminalError (or the classified error) replayed from a failed original execution
    * @throws FingerprintMismatchError if key reused with different payload
    * @throws OperationInProgressError if concurrent request is already processing
+   *   (after `waitForResult.timeoutMs` when wait-for-result mode is enabled)
    * @throws HandlerTimeoutError if handler exceeds timeout
+   * @throws OutcomeUnknownError if an earlier attempt timed out and the key is held as "unknown"
+   * @throws LockLostError if the lock expired or was taken over before commit
+   * @throws IdempotencyInternalError if a stored result fails to decode (e.g. tampered ciphertext)
+   * @throws UnsupportedOperationError if `onHandlerTimeout: "hold"` is set but the store lacks `markUnknown`
    */
   async execute<T>(
     key: string,
     fingerprint: string,
-    handler: () => Promise<T>,
+    handler: (ctx: HandlerContext) => Promise<T>,
     options?: ExecuteOptions,
   ): Promise<T> {
-    // === VALIDATION: Reject invalid keys early ===
-    if (!key || typeof key !== "string" || key.trim().length === 0) {
-      throw new InvalidIdempotencyKeyError(
-        "idempotency key must be a non-empty string (from Idempotency-Key header)",
-      );
-    }
-
-    // === KEY NAMESPACING ===
-    const fullKey = this.options.keyPrefix + key.trim();
-
-    // === TIMEOUT SETUP (handler execution, NOT lock acquisition) ===
-    const handlerTimeout = options?.handlerTimeout ?? 30_000; // 30s default
-    if (handlerTimeout < 50 || handlerTimeout > 300_000) {
-      throw new Error(
-        `handlerTimeout must be 50ms–5m (got ${handlerTimeout}ms)`,
-      );
-    }
-
-    // === RETENTION OVERRIDE VALIDATION ===
-    const retentionMs = options?.retentionOverride ?? this.options.retention;
-    if (retentionMs < 86_400_000) {
-      throw new InvalidRetentionError(
-        `retentionOverride must be ≥24h (got ${retentionMs}ms)`,
-      );
-    }
-
-    // === ATOMIC: Check existing result OR acquire lock ===
-    const checkResult = await this.store.atomicCheckAndLock(
-      fullKey,
-      fingerprint,
-      this.options.lockTtl,
+    return this.telemetry.traceExecution((telemetry) =>
+      this._execute(key, fingerprint, handler, options, telemetry),
     );
+  }
 
-    // === CASE 1: Result already exists (cache hit) ===
-    if (checkResult.status === "exists") {
-      // SECURITY: Enforce fingerprint matching to prevent replay attacks
-      if (checkResult.fingerprint !== fingerprint) {
-        await this._audit(
-          {
-            timestamp: new Date().toISOString(),
-            key: fullKey,
-            action: "fingerprint_mismatch",
-            fingerprint,
-            storedFingerprint: checkResult.fingerprint,
-            metadata: options?.metadata,
-          },
-          options?.onAudit ?? this.options.onAudit,
-        );
+  private async _execute<T>(
+    key: string,
+    fingerprint: string,
+    handler: (ctx: HandlerContext) => Promise<T>,
+    options: ExecuteOptions | undefined,
+    telemetry: ExecutionTelemetry,
+    batch?: BatchStep,
+  ): Promise<T> {
+    // === VALIDATION + NAMESPACING: Reject invalid keys early ===
+    const fullKey = this._fullKey(key, options?.scope);
 
-        throw new FingerprintMismatchError(
-          `Fingerprint mismatch for key ${key} – possible replay attack or key reuse with different payload`,
-        );
-      }
+    const {
+      handlerTimeout,
+      retentionMs,
+      waitTimeout,
+      pollInterval,
+      onHandlerTimeout,
+    } = this._resolveExecuteOptions(options);
+    if (!batch) this._assertAuditHealthy(); // executeMany checks up front
 
-      await this._audit(
-        {
-          timestamp: new Date().toISOString(),
-          key: fullKey,
-          action: "hit",
-          fingerprint,
-          metadata: options?.metadata,
-        },
-        options?.onAudit ?? this.options.onAudit,
+    // === ATOMIC: Check existing result OR acquire lock ===
+    let checkResult: CheckAndLockResult;
+    try {
+      checkResult = await this._checkAndLock(
+        fullKey,
+        fingerprint,
+        this.options.lockTtl,
+        { waitTimeout, pollInterval },
+        telemetry,
+        batch?.check,
       );
-
-      return checkResult.result as T;
-    }
-
-    // === CASE 2: Already locked (concurrent request in progress) ===
-    if (checkResult.status === "locked") {
-      await this._audit(
-        {
-          timestamp: new Date().toISOString(),
-          key: fullKey,
-          action: "locked",
-          metadata: options?.metadata,
-        },
-        options?.onAudit ?? this.options.onAudit,
+    } catch (err) {
+      if (!isStoreUnavailable(err)) throw err;
+      // === STORE UNAVAILABLE: reject, bypass or degrade to a local lock ===
+      return this._executeWithoutStore(
+        key,
+        fullKey,
+        fingerprint,
+        handler,
+        handlerTimeout,
+        options,
+        telemetry,
+        err,
       );
+    }
 
-      throw new OperationInProgressError(
-        `Operation for key ${key} is already in progress (lock held by concurrent request)`,
+    // === CASES 1–3: Replay the stored outcome, or reject ===
+    if (checkResult.status !== "acquired") {
+      return this._replayOrReject<T>(
+        key,
+        fullKey,
+        fingerprint,
+        checkResult,
+        waitTimeout,
+        options,
+        telemetry,
       );
     }
 
-    // === CASE 3: Lock acquired – execute handler ===
+    // === CASE 4: Lock acquired – execute handler ===
     await this._audit(
       {
         timestamp: new Date().toISOString(),
@@ -176,25 +305,55 @@ export class IdempotencyEngine {
       options?.onAudit ?? this.options.onAudit,
     );
 
+    const token = checkResult.token;
+    let lockLost = false;
+    let lockHeld = false;
+    let failureStored = false;
+    let handlerFailed = false;
+
+    // === LEASE HEARTBEAT (keeps the lock alive for slow handlers) ===
+    const handlerStarted = performance.now();
+    const stopHeartbeat = this._startHeartbeat(
+      fullKey,
+      token,
+      options?.metadata,
+      options?.onAudit ?? this.options.onAudit,
+    );
+
     try {
       // === ENFORCE HANDLER TIMEOUT (prevents zombie locks) ===
-      const result = await Promise.race([
-        handler(),
-        new Promise<never>((_, reject) =>
-          setTimeout(
-            () =>
-              reject(
-                new HandlerTimeoutError(
-                  `Handler timeout after ${handlerTimeout}ms`,
-                ),
-              ),
-            handlerTimeout,
-          ),
-        ),
-      ]);
+      const result = await this._runHandler(
+        (ctx) =>
+          handler(ctx).catch((err) => {
+            handlerFailed = true;
+            throw err;
+          }),
+        handlerTimeout,
+      );
+
+      stopHeartbeat();
+      telemetry.handler(performance.now() - handlerStarted, "success");
 
       // === COMMIT RESULT WITH RETENTION (NOT lockTtl!) ===
-      await this.store.commitResult(fullKey, fingerprint, result, retentionMs);
+      // Compare-and-set on the owner token: a handler that outlived lockTtl
+      // must never overwrite a lock/result now owned by another request
+      // Seen-set mode stores a null marker instead of the result
+      const encoded =
+        options?.storeResult === false
+          ? null
+          : await this._encodeResult(fullKey, result);
+      const commitResult =
+        batch?.commit ?? this.store.commitResult.bind(this.store);
+      const committed = await telemetry.store("commitResult", () =>
+        commitResult(fullKey, token, fingerprint, encoded, retentionMs),
+      );
+
+      if (!committed) {
+        lockLost = true;
+        throw new LockLostError(
+          `Lock for key ${key} was lost before the result could be committed (handler outlived lockTtl or lock was taken over)`,
+        );
+      }
 
       await this._audit(
         {
@@ -207,14 +366,29 @@ export class IdempotencyEngine {
         options?.onAudit ?? this.options.onAudit,
       );
 
+      telemetry.outcome = "miss";
       return result;
     } catch (err) {
+      const failure =
+        err instanceof HandlerTimeoutError
+          ? "timeout"
+          : err instanceof LockLostError
+            ? "lock_lost"
+            : "error";
+      telemetry.outcome = failure;
+      if (handlerFailed || err instanceof HandlerTimeoutError) {
+        telemetry.handler(
+          performance.now() - handlerStarted,
+          handlerFailed ? "error" : "timeout",
+        );
+      }
+
       // === AUDIT ERRORS (without leaking sensitive data) ===
       await this._audit(
         {
           timestamp: new Date().toISOString(),
           key: fullKey,
-          action: err instanceof HandlerTimeoutError ? "timeout" : "error",
+          action: failure,
           fingerprint,
           metadata: {
             ...options?.metadata,
@@ -225,21 +399,90 @@ export class IdempotencyEngine {
         options?.onAudit ?? this.options.onAudit,
       );
 
+      // === HOLD TIMED-OUT KEYS AS "UNKNOWN" (optional) ===
+      // A late side effect can't be duplicated if nobody can re-acquire the key
+      if (err instanceof HandlerTimeoutError && onHandlerTimeout === "hold") {
+        lockHeld = true;
+        stopHeartbeat();
+        try {
+          // Present – "hold" is rejected for stores without markUnknown
+          const marked = await telemetry.store("markUnknown", () =>
+            this.store.markUnknown!(fullKey, token, retentionMs),
+          );
+
+          await this._audit(
+            {
+              timestamp: new Date().toISOString(),
+              key: fullKey,
+              action: marked ? "marked_unknown" : "lock_lost",
+              fingerprint,
+              metadata: options?.metadata,
+            },
+            options?.onAudit ?? this.options.onAudit,
+          );
+        } catch {
+          // Store failure – the processing lock still expires after lockTtl
+        }
+      }
+
+      // === PERSIST TERMINAL FAILURES (replayed instead of re-executed) ===
+      const isTerminalError =
+        options?.isTerminalError ??
+        ((e: unknown) => e instanceof TerminalError);
+      if (handlerFailed && this.store.commitFailure && isTerminalError(err)) {
+        try {
+          const committed = await telemetry.store("commitFailure", () =>
+            this.store.commitFailure!(
+              fullKey,
+              token,
+              fingerprint,
+              this._serializeError(err),
+              retentionMs,
+            ),
+          );
+          if (committed) failureStored = true;
+          else lockLost = true;
+
+          await this._audit(
+            {
+              timestamp: new Date().toISOString(),
+              key: fullKey,
+              action: committed ? "failure_stored" : "lock_lost",
+              fingerprint,
+              metadata: options?.metadata,
+            },
+            options?.onAudit ?? this.options.onAudit,
+          );
+        } catch {
+          // Store failure – fall back to releasing the lock so clients can retry
+        }
+      }
+
       throw err;
     } finally {
+      stopHeartbeat();
+
       // === BEST-EFFORT LOCK RELEASE (prevents zombie locks) ===
+      // Skipped when the lock was lost (it belongs to someone else now),
+      // deliberately held after a timeout, or replaced by a stored failure
       try {
-        await this.store.releaseLock?.(fullKey);
+        if (!lockLost && !lockHeld && !failureStored) {
+          if (this.store.releaseLock) {
+            await telemetry.store("releaseLock", () =>
+              this.store.releaseLock!(fullKey, token),
+            );
+          }
 
-        await this._audit(
-          {
-            timestamp: new Date().toISOString(),
-            key: fullKey,
-            action: "lock_released",
-            metadata: options?.metadata,
-          },
-          options?.onAudit ?? this.options.onAudit,
-        );
+          await this._audit(
+            {
+              timestamp: new Date().toISOString(),
+              key: fullKey,
+              action: "lock_released",
+              metadata: options?.metadata,
+            },
+            options?.onAudit ?? this.options.onAudit,
+          );
+        }
       } catch {
         // Ignore release failures – TTL will expire lock eventually
       }
@@ -247,69 +490,1300 @@ export class IdempotencyEngine {
   }
 
   /**
-   * Generate a normalized fingerprint from request data.
+   * Execute many idempotent operations, each with its own key – e.g. the
+   * lines of a payout file.
    *
-   * Normalization ensures:
-   * - Key order independence: {a:1,b:2} === {b:2,a:1}
-   * - Type stability: numbers stay numbers, strings stay strings
-   * - Excludes volatile fields (timestamps, nonces) by convention
+   * Every item goes through the same flow as `execute` (fingerprint check,
+   * lock, handler timeout, terminal failures, audit), but items run in
+   * windows of `concurrency`: each window's keys are locked in one store
+   * round trip if the store implements `atomicCheckAndLockMany`, right
+   * before its handlers start – so no lock expires while its item waits for
+   * a slot. Commits that finish together are sent as one `commitResultMany`
+   * call. Without those methods items fall back to the single-key store calls.
    *
-   * ⚠️ SECURITY: Do NOT include timestamps/nonces that change per request
-   * for the same logical operation (breaks idempotency)
+   * One item never fails the batch: its error is returned in its outcome.
+   * Items sharing a key behave like concurrent requests – only one runs.
+   *
+   * @param items - Key, fingerprint and handler input per item
+   * @param handler - Business logic, called once per acquired item
+   * @param options - Per-request options applied to every item, plus `concurrency`
+   *
+   * @returns One outcome per item, in input order
+   * @throws Error only for invalid options (timeouts, retention, concurrency)
    */
+  async executeMany<I, T>(
+    items: BatchItem<I>[],
+    handler: (item: BatchItem<I>, ctx: HandlerContext) => Promise<T>,
+    options?: ExecuteManyOptions,
+  ): Promise<BatchItemOutcome<T>[]> {
+    // === VALIDATION: Options are shared, so they fail the call up front ===
+    const itemOptions: ExecuteOptions = {
+      ...options,
+      waitForResult: undefined,
+    };
+    const { retentionMs } = this._resolveExecuteOptions(itemOptions);
+    const concurrency = options?.concurrency ?? 10;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(
+        `concurrency must be a positive integer (got ${concurrency})`,
+      );
+    }
+    this._assertAuditHealthy();
 
-  fingerprint(data: unknown): string {
-    // Normalize: sort object keys recursively to avoid false mismatches
-    const normalize = (value: unknown): unknown => {
-      if (value == null || typeof value !== "object") return value;
-      if (Array.isArray(value)) return value.map(normalize);
+    const outcomes: BatchItemOutcome<T>[] = new Array(items.length);
+    const pending: { index: number; fullKey: string }[] = [];
+    items.forEach((item, index) => {
+      try {
+        pending.push({
+          index,
+          fullKey: this._fullKey(item.key, options?.scope),
+        });
+      } catch (err) {
+        outcomes[index] = { key: item.key, status: "error", error: err };
+      }
+    });
 
-      // Sort keys for deterministic serialization
-      return Object.fromEntries(
-        Object.entries(value as Record<string, unknown>)
-          .sort(([a], [b]) => a.localeCompare(b))
-          .map(([k, v]) => [k, normalize(v)]),
-      );
+    // === ATOMIC: Check-or-lock a window's keys in one round trip (optional) ===
+    const lockWindow = async (
+      window: typeof pending,
+    ): Promise<(CheckAndLockResult | Error)[] | undefined> => {
+      if (!this.store.atomicCheckAndLockMany) return undefined;
+      try {
+        return await this.telemetry.timeStore("atomicCheckAndLockMany", () =>
+          this.store.atomicCheckAndLockMany!(
+            window.map(({ index, fullKey }) => ({
+              key: fullKey,
+              fingerprint: items[index].fingerprint,
+            })),
+            this.options.lockTtl,
+          ),
+        );
+      } catch (err) {
+        // Store failure – no key was locked, report it on every item
+        return window.map(() =>
+          err instanceof Error ? err : new Error(String(err)),
+        );
+      }
     };
 
-    const normalized = JSON.stringify(normalize(data));
-    const hash = createHash(this.options.fingerprintAlgorithm);
-    hash.update(normalized);
-    return hash.digest("hex");
+    const commit = this.store.commitResultMany
+      ? this._batchCommits(retentionMs)
+      : undefined;
+
+    const run = async (
+      index: number,
+      check: CheckAndLockResult | Error | undefined,
+    ): Promise<BatchItemOutcome<T>> => {
+      const item = items[index];
+      // A failed check goes through `_execute` too, so `onStoreUnavailable` applies
+
+      let outcome: ExecutionTelemetry["outcome"];
+      try {
+        const result = await this.telemetry.traceExecution(
+          async (telemetry) => {
+            try {
+              return await this._execute(
+                item.key,
+                item.fingerprint,
+                (ctx) => handler(item, ctx),
+                itemOptions,
+                telemetry,
+                { check, commit },
+              );
+            } finally {
+              outcome = telemetry.outcome;
+            }
+          },
+        );
+        return {
+          key: item.key,
+          status: outcome === "hit" ? "hit" : "executed",
+          result,
+        };
+      } catch (err) {
+        return {
+          key: item.key,
+          status:
+            err instanceof OperationInProgressError
+              ? "locked"
+              : err instanceof FingerprintMismatchError
+                ? "mismatch"
+                : "error",
+          error: err,
+        };
+      }
+    };
+
+    // === RUN HANDLERS (one window of `concurrency` items at a time) ===
+    // Locks are taken per window, not up front – a lock acquired for an item
+    // still queued has no heartbeat and could expire before its turn
+    for (let start = 0; start < pending.length; start += concurrency) {
+      const window = pending.slice(start, start + concurrency);
+      const checks = await lockWindow(window);
+      await Promise.all(
+        window.map(async ({ index }, i) => {
+          outcomes[index] = await run(index, checks?.[i]);
+        }),
+      );
+    }
+
+    return outcomes;
   }
 
+  // =====================================================================
+  // TWO-PHASE API
+  // Reserve a key in one process, complete or abort it in another
+  // =====================================================================
+
   /**
-   * Internal audit dispatcher – never fails, never leaks sensitive data.
+   * Reserve a key for work that happens outside this process – e.g. the API
+   * reserves, a queue worker performs the charge and reports back.
+   *
+   * Same checks and audit trail as `execute`: a completed key replays its
+   * stored result, a reused key with a different payload is rejected.
+   *
+   * @param key - Client-provided idempotency key
+   * @param fingerprint - Fingerprint of the request payload
+   * @param options - Lease duration, wait-for-result mode, audit context
+   *
+   * @returns `{ status: "acquired", lease }` – hand the (JSON-serializable)
+   *   lease to the worker; or `{ status: "replayed", result }` for a key that
+   *   was already completed
+   * @throws TerminalError replayed from an aborted reservation
+   * @throws FingerprintMismatchError if key reused with different payload
+   * @throws OperationInProgressError if the key is already reserved
+   * @throws OutcomeUnknownError if the key is held as "unknown"
    */
-  private async _audit(
-    event: AuditEvent,
-    auditor: (event: AuditEvent) => void | Promise<void>,
-  ): Promise<void> {
+  async begin<T = unknown>(
+    key: string,
+    fingerprint: string,
+    options?: BeginOptions,
+  ): Promise<BeginResult<T>> {
+    const fullKey = this._fullKey(key, options?.scope);
+    const leaseTtl = this._resolveLeaseTtl(options?.leaseTtl);
+    const { waitTimeout, pollInterval } = this._resolveExecuteOptions(options);
+    this._assertAuditHealthy();
+    const telemetry = this.telemetry.untraced();
+
+    let checkResult: CheckAndLockResult;
     try {
-      // NEVER include sensitive data – strip anything risky just in case
-      const safeEvent: AuditEvent = {
-        timestamp: event.timestamp,
-        key: event.key,
-        action: event.action,
-        fingerprint: event.fingerprint,
-        storedFingerprint: event.storedFingerprint,
-        metadata: event.metadata
-          ? Object.fromEntries(
-              Object.entries(event.metadata).filter(
-                ([k]) =>
-                  !k.match(
-                    /(password|token|secret|card|cvv|pin|ssn|full.?name|email|phone)/i,
-                  ),
-              ),
-            )
-          : undefined,
+      checkResult = await this._checkAndLock(
+        fullKey,
+        fingerprint,
+        leaseTtl,
+        { waitTimeout, pollInterval },
+        telemetry,
+      );
+    } catch (err) {
+      // A reservation outlives this call – it cannot be held without the store
+      if (!isStoreUnavailable(err)) throw err;
+      throw this._lockAcquisitionError(key, err);
+    }
+    if (checkResult.status !== "acquired") {
+      return {
+        status: "replayed",
+        result: await this._replayOrReject<T>(
+          key,
+          fullKey,
+          fingerprint,
+          checkResult,
+          waitTimeout,
+          options,
+          telemetry,
+        ),
       };
+    }
 
-      await Promise.resolve(auditor(safeEvent));
-      await this.store.recordAudit?.(safeEvent);
-    } catch {
-      // Audit failures MUST NEVER affect business logic
-      // (But should be monitored via application metrics)
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "acquired",
+        fingerprint,
+        metadata: { ...options?.metadata, leaseTtl },
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    return {
+      status: "acquired",
+      lease: {
+        key: key.trim(),
+        ...(options?.scope !== undefined && { scope: options.scope }),
+        fingerprint,
+        token: checkResult.token,
+        expiresAt: new Date(Date.now() + leaseTtl).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Store the result of a reserved key (compare-and-set on the lease token).
+   * Later requests with the key get this result replayed.
+   *
+   * @param lease - Lease returned by `begin` (e.g. parsed back from JSON)
+   * @param result - Result to store and replay
+   * @param options - Retention override, audit context
+   *
+   * @throws LockLostError if the lease expired and the key was taken over,
+   *   or the lease was already completed / aborted
+   */
+  async complete(
+    lease: Lease,
+    result: unknown,
+    options?: CompleteOptions,
+  ): Promise<void> {
+    const fullKey = this._leaseKey(lease);
+    const { retentionMs } = this._resolveExecuteOptions(options);
+    const auditor = options?.onAudit ?? this.options.onAudit;
+
+    const encoded = await this._encodeResult(fullKey, result);
+    const committed = await this.telemetry.timeStore("commitResult", () =>
+      this.store.commitResult(
+        fullKey,
+        lease.token,
+        lease.fingerprint,
+        encoded,
+        retentionMs,
+      ),
+    );
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: committed ? "stored" : "lock_lost",
+        fingerprint: lease.fingerprint,
+        metadata: options?.metadata,
+      },
+      auditor,
+    );
+
+    if (!committed) {
+      throw new LockLostError(
+        `Lease for key ${lease.key} was lost before the result could be committed (lease expired or already settled)`,
+      );
+    }
+  }
+
+  /**
+   * Give up a reserved key.
+   *
+   * If `error` is a terminal error (see `isTerminalError`) and the store
+   * supports it, the failure is stored and replayed to later requests, just
+   * like a terminal failure in `execute`. Otherwise the key is released and
+   * the request may be retried.
+   *
+   * @param lease - Lease returned by `begin`
+   * @param options - The failure, retention override, audit context
+   *
+   * @note A lease that already expired or settled is ignored (nothing to undo)
+   */
+  async abort(lease: Lease, options?: AbortOptions): Promise<void> {
+    const fullKey = this._leaseKey(lease);
+    const { retentionMs } = this._resolveExecuteOptions(options);
+    const auditor = options?.onAudit ?? this.options.onAudit;
+
+    const isTerminalError =
+      options?.isTerminalError ?? ((e: unknown) => e instanceof TerminalError);
+    if (
+      options?.error !== undefined &&
+      this.store.commitFailure &&
+      isTerminalError(options.error)
+    ) {
+      const committed = await this.telemetry.timeStore("commitFailure", () =>
+        this.store.commitFailure!(
+          fullKey,
+          lease.token,
+          lease.fingerprint,
+          this._serializeError(options.error),
+          retentionMs,
+        ),
+      );
+
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: committed ? "failure_stored" : "lock_lost",
+          fingerprint: lease.fingerprint,
+          metadata: options?.metadata,
+        },
+        auditor,
+      );
+      return;
+    }
+
+    if (this.store.releaseLock) {
+      await this.telemetry.timeStore("releaseLock", () =>
+        this.store.releaseLock!(fullKey, lease.token),
+      );
+    }
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "lock_released",
+        fingerprint: lease.fingerprint,
+        metadata: {
+          ...options?.metadata,
+          ...(options?.error !== undefined
+            ? {
+                errorCode:
+                  options.error instanceof Error
+                    ? options.error.name
+                    : undefined,
+              }
+            : {}),
+        },
+      },
+      auditor,
+    );
+  }
+
+  /**
+   * Extend a lease for work that takes longer than expected.
+   *
+   * @param lease - Lease returned by `begin` (or a previous `renew`)
+   * @param options - New lease duration from now (default `lockTtl`), audit context
+   *
+   * @returns The lease with its new `expiresAt` – pass this one on
+   * @throws LockLostError if the lease expired and the key was taken over
+   * @throws UnsupportedOperationError if the store does not implement `extendLock`
+   */
+  async renew(
+    lease: Lease,
+    options?: Pick<BeginOptions, "onAudit" | "metadata" | "leaseTtl">,
+  ): Promise<Lease> {
+    const fullKey = this._leaseKey(lease);
+    const leaseTtl = this._resolveLeaseTtl(options?.leaseTtl);
+    const extendLock = this._requireStoreMethod("extendLock");
+
+    const extended = await this.telemetry.timeStore("extendLock", () =>
+      extendLock(fullKey, lease.token, leaseTtl),
+    );
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: extended ? "lock_extended" : "lock_lost",
+        fingerprint: lease.fingerprint,
+        metadata: options?.metadata,
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    if (!extended) {
+      throw new LockLostError(
+        `Lease for key ${lease.key} was lost before it could be renewed`,
+      );
+    }
+
+    return {
+      ...lease,
+      expiresAt: new Date(Date.now() + leaseTtl).toISOString(),
+    };
+  }
+
+  /**
+   * Generate a normalized fingerprint from request data.
+   *
+   * Normalization ensures:
+   * - Key order independence: {a:1,b:2} === {b:2,a:1}
+   * - Type stability: numbers stay numbers, strings stay strings
+   * - Excludes volatile fields (timestamps, nonces) by convention
+   *
+   * ⚠️ SECURITY: Do NOT include timestamps/nonces that change per request
+   * for the same logical operation (breaks idempotency)
+   *
+   * Delegates to `fingerprintStrategy` if configured (recommended:
+   * `createJcsFingerprint` – locale-independent, with path selection and HMAC).
+   */
+
+  fingerprint(data: unknown): string {
+    if (this.options.fingerprintStrategy) {
+      return this.options.fingerprintStrategy.fingerprint(data);
+    }
+
+    // Normalize: sort object keys recursively to avoid false mismatches
+    const normalize = (value: unknown): unknown => {
+      if (value == null || typeof value !== "object") return value;
+      if (Array.isArray(value)) return value.map(normalize);
+
+      // Sort keys for deterministic serialization
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([k, v]) => [k, normalize(v)]),
+      );
+    };
+
+    const normalized = JSON.stringify(normalize(data));
+    const hash = createHash(this.options.fingerprintAlgorithm);
+    hash.update(normalized);
+    return hash.digest("hex");
+  }
+
+  // =====================================================================
+  // LIFECYCLE
+  // =====================================================================
+
+  /**
+   * Whether audit events are being delivered. False while queued events
+   * fail to deliver (they are retried with backoff) or the queue is full –
+   * with `strictAudit`, executions are refused meanwhile.
+   */
+  get auditHealthy(): boolean {
+    return this.audits.healthy;
+  }
+
+  /**
+   * State of the store circuit breaker: "open" while store calls fail fast
+   * after repeated failures ("closed" if the breaker is disabled).
+   */
+  get storeCircuit(): CircuitState {
+    return this.breaker?.state ?? "closed";
+  }
+
+  /**
+   * Shut down: deliver all queued audit events, then close the store.
+   *
+   * @param timeoutMs - How long to keep retrying undelivered events; events
+   *   still queued afterwards are reported to `onAuditFailure` as dropped
+   */
+  async close(timeoutMs = 10_000): Promise<void> {
+    await this.audits.flush(timeoutMs);
+    await this.store.close?.();
+  }
+
+  // =====================================================================
+  // ADMIN / INSPECTION API
+  // For support tooling – every call is audited, keys respect `keyPrefix` and `scope`
+  // =====================================================================
+
+  /**
+   * Read the stored state of a key ("did key X run, with what result, when?").
+   *
+   * @param key - Client-provided idempotency key (without `keyPrefix`)
+   * @param options - Audit override and operator metadata
+   *
+   * @returns The record, or `null` if the key does not exist / has expired
+   * @throws UnsupportedOperationError if the store does not implement `get`
+   */
+  async inspect(
+    key: string,
+    options?: AdminOptions,
+  ): Promise<StoredRecord | null> {
+    const fullKey = this._fullKey(key, options?.scope);
+    const get = this._requireStoreMethod("get");
+
+    const stored = await get(fullKey);
+    const record =
+      stored?.result !== undefined
+        ? {
+            ...stored,
+            result: await this._decodeResult(fullKey, stored.result),
+          }
+        : stored;
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "admin_inspect",
+        metadata: { ...options?.metadata, found: stored !== null },
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    return record;
+  }
+
+  /**
+   * List keys starting with `prefix`, one page at a time.
+   *
+   * @param prefix - Key prefix to match (without `keyPrefix`; default: all keys)
+   * @param options - Scope to list, cursor from the previous page, page size
+   *   hint, audit context
+   *
+   * @returns Keys without `keyPrefix` (and without the scope, if given), and
+   *   the cursor for the next page
+   *   (`undefined` once done). Keys may repeat across pages.
+   * @throws UnsupportedOperationError if the store does not implement `scan`
+   */
+  async list(prefix = "", options?: ListOptions): Promise<ScanPage> {
+    const scan = this._requireStoreMethod("scan");
+    const count = options?.count ?? 100;
+    if (!Number.isInteger(count) || count < 1 || count > 10_000) {
+      throw new Error(`list count must be 1–10000 (got ${count})`);
+    }
+
+    const basePrefix =
+      this.options.keyPrefix +
+      (options?.scope !== undefined ? scopePrefix(options.scope) : "");
+    const fullPrefix = basePrefix + prefix;
+    const page = await scan(fullPrefix, { cursor: options?.cursor, count });
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullPrefix,
+        action: "admin_list",
+        metadata: { ...options?.metadata, returned: page.keys.length },
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    return {
+      keys: page.keys.map((k) => k.slice(basePrefix.length)),
+      cursor: page.cursor,
+    };
+  }
+
+  /**
+   * Delete a key in any state – committed result, failure, lock or "unknown".
+   *
+   * ⚠️ The next request with this key runs the handler again. Purging an
+   * in-flight lock makes its commit fail with LockLostError.
+   *
+   * @returns `true` if a record was deleted
+   * @throws UnsupportedOperationError if the store does not implement `delete`
+   */
+  async purge(key: string, options?: AdminOptions): Promise<boolean> {
+    const fullKey = this._fullKey(key, options?.scope);
+    const del = this._requireStoreMethod("delete");
+
+    const deleted = await del(fullKey);
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "admin_purge",
+        metadata: { ...options?.metadata, found: deleted },
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    return deleted;
+  }
+
+  /**
+   * Clear a stuck "processing" lock or an "unknown" record (see
+   * `onHandlerTimeout: "hold"`). Committed results and failures are kept –
+   * use `purge` to remove those.
+   *
+   * @returns `true` if a lock / unknown record was removed
+   * @throws UnsupportedOperationError if the store does not implement `forceUnlock`
+   */
+  async forceUnlock(key: string, options?: AdminOptions): Promise<boolean> {
+    const fullKey = this._fullKey(key, options?.scope);
+    const forceUnlock = this._requireStoreMethod("forceUnlock");
+
+    const unlocked = await forceUnlock(fullKey);
+
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "admin_force_unlock",
+        metadata: { ...options?.metadata, found: unlocked },
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    return unlocked;
+  }
+
+  /**
+   * Check for a stored outcome OR acquire the lock, waiting for an in-flight
+   * request first if wait-for-result mode is enabled.
+   *
+   * @param prefetched - First check result or its store error, if already
+   *   known (executeMany)
+   */
+  private async _checkAndLock(
+    fullKey: string,
+    fingerprint: string,
+    lockTtlMs: number,
+    wait: { waitTimeout: number; pollInterval: number },
+    telemetry: ExecutionTelemetry,
+    prefetched?: CheckAndLockResult | Error,
+  ): Promise<CheckAndLockResult> {
+    if (prefetched instanceof Error) throw prefetched;
+
+    const checkAndLock = () =>
+      telemetry.store("atomicCheckAndLock", () =>
+        this.store.atomicCheckAndLock(fullKey, fingerprint, lockTtlMs),
+      );
+    let checkResult = prefetched ?? (await checkAndLock());
+    if (checkResult.status === "locked") telemetry.contended();
+
+    // === WAIT FOR IN-FLIGHT REQUEST (optional) ===
+    // Re-check until the original request commits (→ hit) or gives up its
+    // lock (→ we acquire it and run the handler ourselves)
+    const waitDeadline = Date.now() + wait.waitTimeout;
+    // A concurrent request with a different payload is rejected right away
+    while (
+      checkResult.status === "locked" &&
+      checkResult.fingerprintMatches !== false &&
+      Date.now() < waitDeadline
+    ) {
+      await this._waitForChange(
+        fullKey,
+        Math.min(wait.pollInterval, waitDeadline - Date.now()),
+      );
+      checkResult = await checkAndLock();
+    }
+
+    return checkResult;
+  }
+
+  /**
+   * Handle an unreachable store according to `onStoreUnavailable`: throw
+   * LockAcquisitionError, or run the handler unprotected ("bypass") or under
+   * an in-process lock ("local-lock"). Nothing is stored either way.
+   */
+  private async _executeWithoutStore<T>(
+    key: string,
+    fullKey: string,
+    fingerprint: string,
+    handler: (ctx: HandlerContext) => Promise<T>,
+    handlerTimeout: number,
+    options: ExecuteOptions | undefined,
+    telemetry: ExecutionTelemetry,
+    storeError: unknown,
+  ): Promise<T> {
+    const policy = this.options.onStoreUnavailable;
+    const onAudit = options?.onAudit ?? this.options.onAudit;
+    const reason =
+      storeError instanceof Error ? storeError.message : String(storeError);
+
+    if (policy === "reject") {
+      telemetry.outcome = "error";
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: "error",
+          fingerprint,
+          metadata: {
+            ...options?.metadata,
+            error: reason,
+            reason: "store_unavailable",
+          },
+        },
+        onAudit,
+      );
+      throw this._lockAcquisitionError(key, storeError);
+    }
+
+    if (policy === "local-lock") {
+      if (this.localLocks.has(fullKey)) {
+        telemetry.outcome = "locked";
+        await this._audit(
+          {
+            timestamp: new Date().toISOString(),
+            key: fullKey,
+            action: "locked",
+            fingerprint,
+            metadata: { ...options?.metadata, policy },
+          },
+          onAudit,
+        );
+        throw new OperationInProgressError(
+          `Operation with key ${key} is already being processed by this instance (store unavailable)`,
+        );
+      }
+      this.localLocks.add(fullKey);
+    }
+
+    try {
+      // Audited before the handler runs – an unprotected side effect must
+      // never be missing from the trail
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: "bypassed",
+          fingerprint,
+          metadata: { ...options?.metadata, policy, error: reason },
+        },
+        onAudit,
+      );
+
+      const handlerStarted = performance.now();
+      try {
+        const result = await this._runHandler(handler, handlerTimeout);
+        telemetry.handler(performance.now() - handlerStarted, "success");
+        telemetry.outcome = "bypassed";
+        return result;
+      } catch (err) {
+        const failure =
+          err instanceof HandlerTimeoutError ? "timeout" : "error";
+        telemetry.handler(performance.now() - handlerStarted, failure);
+        telemetry.outcome = failure;
+        await this._audit(
+          {
+            timestamp: new Date().toISOString(),
+            key: fullKey,
+            action: failure,
+            fingerprint,
+            metadata: {
+              ...options?.metadata,
+              policy,
+              error: err instanceof Error ? err.message : String(err),
+              errorCode: err instanceof Error ? err.name : undefined,
+            },
+          },
+          onAudit,
+        );
+        throw err;
+      }
+    } finally {
+      if (policy === "local-lock") this.localLocks.delete(fullKey);
+    }
+  }
+
+  /**
+   * Run the handler, aborting its signal and rejecting with
+   * HandlerTimeoutError after `handlerTimeout`. The signal lets the handler
+   * actually stop – a race alone would leave it running (and charging) in
+   * the background.
+   */
+  private async _runHandler<T>(
+    handler: (ctx: HandlerContext) => Promise<T>,
+    handlerTimeout: number,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        handler({ signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          timeoutTimer = setTimeout(() => {
+            const timeoutError = new HandlerTimeoutError(
+              `Handler timeout after ${handlerTimeout}ms`,
+            );
+            controller.abort(timeoutError);
+            reject(timeoutError);
+          }, handlerTimeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeoutTimer);
+    }
+  }
+
+  /**
+   * LockAcquisitionError (503) for a store that could not be reached.
+   */
+  private _lockAcquisitionError(key: string, cause: unknown) {
+    const error = new LockAcquisitionError(
+      `Idempotency store is unavailable for key ${key} – please retry later`,
+    );
+    error.cause = cause;
+    return error;
+  }
+
+  /**
+   * Settle a key that was not acquired: return the stored result (after the
+   * fingerprint check), or throw the stored failure / the rejection.
+   */
+  private async _replayOrReject<T>(
+    key: string,
+    fullKey: string,
+    fingerprint: string,
+    checkResult: Exclude<CheckAndLockResult, { status: "acquired" }>,
+    waitTimeout: number,
+    options:
+      Pick<ExecuteOptions, "onAudit" | "metadata" | "storeResult"> | undefined,
+    telemetry: ExecutionTelemetry,
+  ): Promise<T> {
+    // === CASE 1: Result already exists (cache hit) ===
+    if (checkResult.status === "exists") {
+      // SECURITY: Enforce fingerprint matching to prevent replay attacks
+      if (checkResult.fingerprint !== fingerprint) {
+        telemetry.outcome = "mismatch";
+        await this._audit(
+          {
+            timestamp: new Date().toISOString(),
+            key: fullKey,
+            action: "fingerprint_mismatch",
+            fingerprint,
+            storedFingerprint: checkResult.fingerprint,
+            metadata: options?.metadata,
+          },
+          options?.onAudit ?? this.options.onAudit,
+        );
+
+        throw new FingerprintMismatchError(
+          `Fingerprint mismatch for key ${key} – possible replay attack or key reuse with different payload`,
+        );
+      }
+
+      telemetry.outcome = "hit";
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: "hit",
+          fingerprint,
+          metadata: options?.metadata,
+        },
+        options?.onAudit ?? this.options.onAudit,
+      );
+
+      // Terminal failures are replayed, never re-executed
+      if (checkResult.error) {
+        throw this._deserializeError(checkResult.error);
+      }
+
+      // Seen-set mode only asks whether the key completed – the stored value
+      // is a marker (or a result from an earlier "result"-mode run), never
+      // decoded, however the store round-trips it
+      if (options?.storeResult === false) return null as T;
+
+      try {
+        return (await this._decodeResult(fullKey, checkResult.result)) as T;
+      } catch (err) {
+        // Never re-run the handler for an unreadable result – it did run
+        await this._audit(
+          {
+            timestamp: new Date().toISOString(),
+            key: fullKey,
+            action: "error",
+            fingerprint,
+            metadata: {
+              ...options?.metadata,
+              error: err instanceof Error ? err.name : "UnknownError",
+              reason: "result_decode_failed",
+            },
+          },
+          options?.onAudit ?? this.options.onAudit,
+        );
+        throw err;
+      }
+    }
+
+    // === CASE 2: Already locked (concurrent request in progress) ===
+    if (checkResult.status === "locked") {
+      // SECURITY: A concurrent retry with a different payload is a mismatch,
+      // not just a request that came too early
+      if (checkResult.fingerprintMatches === false) {
+        telemetry.outcome = "mismatch";
+        await this._audit(
+          {
+            timestamp: new Date().toISOString(),
+            key: fullKey,
+            action: "fingerprint_mismatch",
+            fingerprint,
+            metadata: { ...options?.metadata, lockHeld: true },
+          },
+          options?.onAudit ?? this.options.onAudit,
+        );
+
+        throw new FingerprintMismatchError(
+          `Fingerprint mismatch for key ${key} – the request in progress has a different payload (possible replay attack or key reuse)`,
+        );
+      }
+
+      telemetry.outcome = "locked";
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: "locked",
+          metadata: options?.metadata,
+        },
+        options?.onAudit ?? this.options.onAudit,
+      );
+
+      throw new OperationInProgressError(
+        waitTimeout > 0
+          ? `Operation for key ${key} is still in progress after waiting ${waitTimeout}ms`
+          : `Operation for key ${key} is already in progress (lock held by concurrent request)`,
+      );
+    }
+
+    // === CASE 3: Earlier attempt timed out – side effect may have happened ===
+    telemetry.outcome = "unknown";
+    await this._audit(
+      {
+        timestamp: new Date().toISOString(),
+        key: fullKey,
+        action: "outcome_unknown",
+        fingerprint,
+        metadata: options?.metadata,
+      },
+      options?.onAudit ?? this.options.onAudit,
+    );
+
+    throw new OutcomeUnknownError(
+      `Outcome for key ${key} is unknown (an earlier attempt timed out) – manual reconciliation required`,
+    );
+  }
+
+  /**
+   * Validate per-request options and apply defaults.
+   */
+  private _resolveExecuteOptions(options: ExecuteOptions | undefined) {
+    // === TIMEOUT SETUP (handler execution, NOT lock acquisition) ===
+    const handlerTimeout = options?.handlerTimeout ?? 30_000; // 30s default
+    if (handlerTimeout < 50 || handlerTimeout > 300_000) {
+      throw new Error(
+        `handlerTimeout must be 50ms–5m (got ${handlerTimeout}ms)`,
+      );
+    }
+
+    // === RETENTION OVERRIDE VALIDATION ===
+    // The profile's floor applies to stored outcomes; seen-set markers hold
+    // no result and may expire sooner
+    const retentionMs = options?.retentionOverride ?? this.options.retention;
+    const { compliance } = this.options;
+    assertRetention(
+      compliance,
+      retentionMs,
+      "retentionOverride",
+      options?.storeResult === false
+        ? Math.min(compliance.minRetention, SEEN_RETENTION_FLOOR_MS)
+        : compliance.minRetention,
+    );
+
+    // === WAIT-FOR-RESULT VALIDATION ===
+    const waitTimeout = options?.waitForResult?.timeoutMs ?? 0;
+    const pollInterval = options?.waitForResult?.pollIntervalMs ?? 100;
+    if (waitTimeout < 0 || waitTimeout > 300_000) {
+      throw new Error(
+        `waitForResult.timeoutMs must be 0–5m (got ${waitTimeout}ms)`,
+      );
+    }
+    if (pollInterval < 10) {
+      throw new Error(
+        `waitForResult.pollIntervalMs must be at least 10ms (got ${pollInterval}ms)`,
+      );
+    }
+
+    // === HOLD-ON-TIMEOUT VALIDATION ===
+    const onHandlerTimeout =
+      options?.onHandlerTimeout ?? this.options.onHandlerTimeout;
+    if (onHandlerTimeout === "hold" && !this.store.markUnknown) {
+      throw new UnsupportedOperationError(
+        `onHandlerTimeout "hold" requires a store that implements markUnknown()`,
+      );
+    }
+
+    return {
+      handlerTimeout,
+      retentionMs,
+      waitTimeout,
+      pollInterval,
+      onHandlerTimeout,
+    };
+  }
+
+  /**
+   * Coalesce `commitResult` calls made in the same turn of the event loop
+   * into one `commitResultMany` call (used by `executeMany`).
+   */
+  private _batchCommits(retentionMs: number): IdempotencyStore["commitResult"] {
+    type Queued = {
+      entry: {
+        key: string;
+        token: string;
+        fingerprint: string;
+        result: unknown;
+      };
+      resolve: (committed: boolean) => void;
+      reject: (err: unknown) => void;
+    };
+    let queue: Queued[] = [];
+
+    const flush = async () => {
+      const batch = queue;
+      queue = [];
+      try {
+        const results = await this.store.commitResultMany!(
+          batch.map((queued) => queued.entry),
+          retentionMs,
+        );
+        batch.forEach((queued, i) => {
+          const result = results[i];
+          if (result instanceof Error) queued.reject(result);
+          else queued.resolve(result === true);
+        });
+      } catch (err) {
+        for (const queued of batch) queued.reject(err);
+      }
+    };
+
+    return (key, token, fingerprint, result) =>
+      new Promise<boolean>((resolve, reject) => {
+        const size = queue.push({
+          entry: { key, token, fingerprint, result },
+          resolve,
+          reject,
+        });
+        // Wait for the other handlers that settled in this turn
+        if (size === 1) setImmediate(flush);
+      });
+  }
+
+  /**
+   * Validate a client-provided key against `keyPolicy`, then apply the scope
+   * and `keyPrefix`.
+   */
+  private _fullKey(key: string, scope?: string): string {
+    return (
+      this.options.keyPrefix + scopedKey(key, scope, this.options.keyPolicy)
+    );
+  }
+
+  /**
+   * Validate a lease handed over from another process; returns its full key.
+   */
+  private _leaseKey(lease: Lease): string {
+    if (
+      !lease ||
+      typeof lease.token !== "string" ||
+      typeof lease.fingerprint !== "string"
+    ) {
+      throw new Error(
+        "invalid lease – pass the object returned by engine.begin()",
+      );
+    }
+    return this._fullKey(lease.key, lease.scope);
+  }
+
+  private _resolveLeaseTtl(leaseTtl = this.options.lockTtl): number {
+    if (leaseTtl < 50 || leaseTtl > 86_400_000) {
+      throw new Error(
+        `leaseTtl must be between 50ms and 24h (got ${leaseTtl}ms)`,
+      );
+    }
+    return leaseTtl;
+  }
+
+  /**
+   * Get an optional store method, bound to it.
+   */
+  private _requireStoreMethod<
+    M extends "get" | "delete" | "scan" | "forceUnlock" | "extendLock",
+  >(method: M): NonNullable<IdempotencyStore[M]> {
+    const fn = this.store[method];
+    if (typeof fn !== "function") {
+      throw new UnsupportedOperationError(
+        `${this.store.constructor.name} does not implement ${method}()`,
+      );
+    }
+    return fn.bind(this.store) as NonNullable<IdempotencyStore[M]>;
+  }
+
+  /**
+   * Apply `serialization`, then `resultCodec.encode` (if configured) before a
+   * result is committed.
+   */
+  private async _encodeResult(fullKey: string, result: unknown) {
+    const { serialization, resultCodec } = this.options;
+    let encoded = result;
+    for (const codec of [serialization, resultCodec]) {
+      if (codec) encoded = await codec.encode(encoded, { key: fullKey });
+    }
+    return encoded;
+  }
+
+  /**
+   * Apply `resultCodec.decode`, then `serialization` (if configured) to a
+   * stored result. Codec failures surface as IdempotencyInternalError.
+   */
+  private async _decodeResult(fullKey: string, stored: unknown) {
+    const { serialization, resultCodec } = this.options;
+    if (stored === null) return stored; // seen-set marker – never encoded
+
+    try {
+      let decoded: unknown = stored;
+      for (const codec of [resultCodec, serialization]) {
+        if (codec) decoded = await codec.decode(decoded, { key: fullKey });
+      }
+      return decoded;
+    } catch (err) {
+      if (err instanceof IdempotencyInternalError) throw err;
+      throw new IdempotencyInternalError(
+        `Stored result for key ${fullKey} could not be decoded`,
+        err,
+      );
+    }
+  }
+
+  /**
+   * Convert a handler error into the storable shape used for replay.
+   * Only name, message, code and status are kept – never the stack or cause.
+   */
+  private _serializeError(err: unknown): StoredError {
+    if (!(err instanceof Error)) {
+      return { name: "Error", message: String(err) };
+    }
+
+    const { code, status } = err as { code?: unknown; status?: unknown };
+    return {
+      name: err.name,
+      message: err.message,
+      code: typeof code === "string" ? code : undefined,
+      status: typeof status === "number" ? status : undefined,
+    };
+  }
+
+  /**
+   * Rebuild an equivalent error from a stored terminal failure.
+   */
+  private _deserializeError(stored: StoredError): IdempotencyError {
+    const err = new TerminalError(stored.message, stored.status, stored.code);
+    err.name = stored.name;
+    return err;
+  }
+
+  /**
+   * Block until the lock on `fullKey` may have settled, for at most `timeoutMs`.
+   *
+   * Uses the store's subscription if available, plain sleep otherwise.
+   */
+  private async _waitForChange(
+    fullKey: string,
+    timeoutMs: number,
+  ): Promise<void> {
+    if (this.store.waitForChange) {
+      try {
+        await this.store.waitForChange(fullKey, timeoutMs);
+        return;
+      } catch {
+        // Subscription failures degrade to polling
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+  }
+
+  /**
+   * Renew the lock every `lockRenewalInterval` while the handler runs.
+   *
+   * No-op if the store does not implement `extendLock`. Renewal stops on the
+   * first failure – the commit will then surface a LockLostError.
+   *
+   * @returns Function that stops the heartbeat (safe to call more than once)
+   */
+  private _startHeartbeat(
+    fullKey: string,
+    token: string,
+    metadata: Record<string, unknown> | undefined,
+    auditor: (event: AuditEvent) => void | Promise<void>,
+  ): () => void {
+    if (!this.store.extendLock) return () => {};
+
+    let stopped = false;
+    let inFlight = false;
+
+    const stop = () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+
+    const timer = setInterval(async () => {
+      if (stopped || inFlight) return;
+      inFlight = true;
+
+      let extended = false;
+      try {
+        extended = await this.telemetry.timeStore("extendLock", () =>
+          this.store.extendLock!(fullKey, token, this.options.lockTtl),
+        );
+      } catch {
+        // Treat store errors like a lost lease – we can no longer vouch for it
+      } finally {
+        inFlight = false;
+      }
+
+      if (stopped) return;
+      if (!extended) stop();
+
+      await this._audit(
+        {
+          timestamp: new Date().toISOString(),
+          key: fullKey,
+          action: extended ? "lock_extended" : "lock_lost",
+          metadata,
+        },
+        auditor,
+      );
+    }, this.options.lockRenewalInterval);
+
+    // Never keep the process alive just to renew a lease
+    timer.unref?.();
+
+    return stop;
+  }
+
+  /**
+   * Internal audit dispatcher – never fails, never leaks sensitive data.
+   */
+  private async _audit(
+    event: AuditEvent,
+    auditor: (event: AuditEvent) => void | Promise<void>,
+  ): Promise<void> {
+    // NEVER include sensitive data – redact metadata (incl. error messages)
+    // at every depth before it reaches any audit sink
+    let safeEvent: AuditEvent;
+    try {
+      safeEvent = {
+        timestamp: event.timestamp,
+        key: event.key,
+        action: event.action,
+        profile: this.options.compliance.name,
+        fingerprint: event.fingerprint,
+        storedFingerprint: event.storedFingerprint,
+        metadata: event.metadata ? this.redact(event.metadata) : undefined,
+      };
+    } catch {
+      return; // Audit failures MUST NEVER affect business logic
+    }
+
+    // Resolves once delivered, or after the first failed attempt – failed
+    // events stay queued and are retried (see onAuditFailure / strictAudit)
+    await this.audits.enqueue({ event: safeEvent, auditor });
+  }
+
+  /**
+   * Deliver a batch to `onAudit` and `store.recordAudit(Many)`, in order.
+   * Progress is kept on each entry, so a retried batch resumes where it failed.
+   */
+  private async _deliverAudits(batch: QueuedAudit[]): Promise<void> {
+    for (const entry of batch) {
+      if (entry.audited) continue;
+      await entry.auditor(entry.event);
+      entry.audited = true;
+    }
+
+    const unrecorded = batch.filter((entry) => !entry.recorded);
+    if (this.store.recordAuditMany && unrecorded.length > 1) {
+      await this.store.recordAuditMany(unrecorded.map((entry) => entry.event));
+      for (const entry of unrecorded) entry.recorded = true;
+    } else if (this.store.recordAudit) {
+      for (const entry of unrecorded) {
+        await this.store.recordAudit(entry.event);
+        entry.recorded = true;
+      }
+    }
+  }
+
+  /**
+   * With `strictAudit`, refuse to run handlers while audit delivery is failing.
+   */
+  private _assertAuditHealthy(): void {
+    if (this.options.strictAudit && !this.audits.healthy) {
+      throw new AuditUnavailableError(
+        `Audit delivery is failing (${this.audits.pending} events queued) – refusing to execute under strictAudit`,
+      );
     }
   }
 }
@@ -17,13 +17,28 @@ export class IdempotencyError extends Error {
   }
 }
 
+/**
+ * Why a key was rejected (see `InvalidIdempotencyKeyError.reason`)
+ */
+export type InvalidKeyReason =
+  | "required" // missing, empty or not a string
+  | "too_long" // longer than `keyPolicy.maxLength`
+  | "invalid_charset" // does not match `keyPolicy.charset`
+  | "invalid_format" // not a UUID / ULID as `keyPolicy.format` requires
+  | "reserved_prefix" // unscoped key starting with "@" (reserved for scopes)
+  | "invalid_scope"; // scope is empty, too long or not a string
+
 /**
  * Thrown when the idempotency key is missing, empty, or invalid
+ * → `code` is IDEMPOTENCY_KEY_<REASON>, e.g. IDEMPOTENCY_KEY_TOO_LONG
  * → usually HTTP 400 Bad Request
  */
 export class InvalidIdempotencyKeyError extends IdempotencyError {
-  constructor(message = "Idempotency key is required and must not be empty") {
-    super(message, 400, "IDEMPOTENCY_KEY_REQUIRED");
+  constructor(
+    message = "Idempotency key is required and must not be empty",
+    public readonly reason: InvalidKeyReason = "required",
+  ) {
+    super(message, 400, `IDEMPOTENCY_KEY_${reason.toUpperCase()}`);
     this.name = "InvalidIdempotencyKeyError";
   }
 }
@@ -107,3 +122,104 @@ export class HandlerTimeoutError extends IdempotencyError {
     this.name = "HandlerTimeoutError";
   }
 }
+
+/**
+ * Thrown when the lock was lost (expired or taken over by another request)
+ * before the handler's result could be committed
+ * → the side effect may have happened, but the result was NOT stored
+ * → usually HTTP 409 Conflict
+ */
+export class LockLostError extends IdempotencyError {
+  constructor(message = "Lock was lost before the result could be committed") {
+    super(message, 409, "LOCK_LOST");
+    this.name = "LockLostError";
+  }
+}
+
+/**
+ * Throw from a handler to mark a deterministic business failure (e.g. "card declined")
+ * → persisted as a failed outcome and replayed on retries instead of re-running the handler
+ * → usually HTTP 422 Unprocessable Entity (override via `status`)
+ */
+export class TerminalError extends IdempotencyError {
+  constructor(message: string, status = 422, code = "TERMINAL_ERROR") {
+    super(message, status, code);
+    this.name = "TerminalError";
+  }
+}
+
+/**
+ * Thrown when an earlier attempt for this key timed out and the key is held
+ * in an "unknown" state (see `onHandlerTimeout: "hold"`)
+ * → the side effect may or may not have happened – reconcile manually
+ * → usually HTTP 409 Conflict
+ */
+export class OutcomeUnknownError extends IdempotencyError {
+  constructor(
+    message = "Outcome of an earlier attempt with this idempotency key is unknown",
+  ) {
+    super(message, 409, "OUTCOME_UNKNOWN");
+    this.name = "OutcomeUnknownError";
+  }
+}
+
+/**
+ * Thrown by admin methods (`inspect`, `list`, `purge`, `forceUnlock`) when the
+ * configured store does not implement the required optional method
+ * → usually HTTP 501 Not Implemented
+ */
+export class UnsupportedOperationError extends IdempotencyError {
+  constructor(message = "Operation is not supported by this store") {
+    super(message, 501, "UNSUPPORTED_OPERATION");
+    this.name = "UnsupportedOperationError";
+  }
+}
+
+/**
+ * Thrown under `strictAudit` when audit delivery is failing or its queue is
+ * full – the handler is not run
+ * → usually HTTP 503 Service Unavailable
+ */
+export class AuditUnavailableError extends IdempotencyError {
+  constructor(message = "Audit delivery is unavailable") {
+    super(message, 503, "AUDIT_UNAVAILABLE");
+    this.name = "AuditUnavailableError";
+  }
+}
+
+/**
+ * Classification of a storage failure (see `StoreError.kind`)
+ */
+export type StoreErrorKind =
+  | "unavailable" // connection refused / lost / timed out
+  | "failover" // primary down or being replaced (READONLY, LOADING, CLUSTERDOWN, ...)
+  | "redirect" // cluster slot moved and redirects were exhausted (MOVED / ASK)
+  | "noscript" // cached script missing on the server
+  | "data" // stored data could not be read (corrupted JSON, ...)
+  | "unknown"; // anything else (script runtime errors, bugs)
+
+/**
+ * Thrown by store adapters for classified storage failures
+ * → `retryable` is true for transient conditions (outage, failover, redirects)
+ * → usually HTTP 503 Service Unavailable (retryable) or 500
+ */
+export class StoreError extends IdempotencyError {
+  public readonly kind: StoreErrorKind;
+  public readonly retryable: boolean;
+
+  constructor(message: string, kind: StoreErrorKind, cause?: unknown) {
+    const retryable = [
+      "unavailable",
+      "failover",
+      "redirect",
+      "noscript",
+    ].includes(kind);
+    super(message, retryable ? 503 : 500, `STORE_${kind.toUpperCase()}`);
+    this.name = "StoreError";
+    this.kind = kind;
+    this.retryable = retryable;
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
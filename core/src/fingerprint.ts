@@ -0,0 +1,276 @@
+/**
+ * Fingerprint strategies – how a request payload becomes the hash that is
+ * compared on every retry.
+ *
+ * The built-in JCS strategy serializes with RFC 8785 (JSON Canonicalization
+ * Scheme), so the same logical payload always yields the same bytes,
+ * independent of key order, locale or runtime.
+ */
+import { createHash, createHmac } from "crypto";
+import { FingerprintStrategy } from "./types";
+
+export interface JcsFingerprintOptions {
+  /**
+   * Hash algorithm (any `crypto.createHash` / `createHmac` algorithm).
+   * @default "sha256"
+   */
+  algorithm?: string;
+
+  /**
+   * JSON pointers (RFC 6901) of the only parts of the payload to fingerprint,
+   * e.g. `["/amount", "/currency", "/customer/id"]`. Missing paths are skipped.
+   * @default whole payload
+   */
+  include?: string[];
+
+  /**
+   * JSON pointers removed before fingerprinting (applied after `include`),
+   * e.g. `["/metadata/clientTimestamp"]` for volatile fields.
+   */
+  exclude?: string[];
+
+  /**
+   * Secret for HMAC-keyed fingerprints. Without it, a stored fingerprint of a
+   * low-entropy body (e.g. `{ amount: 100 }`) can be brute-forced offline.
+   * Rotating the secret invalidates fingerprints of in-flight retries.
+   */
+  hmacKey?: string | Buffer;
+}
+
+/**
+ * Fingerprint strategy based on RFC 8785 canonical JSON.
+ *
+ * @example
+ *   const engine = new IdempotencyEngine(store, {
+ *     ...,
+ *     fingerprintStrategy: createJcsFingerprint({
+ *       exclude: ["/metadata/clientTimestamp"],
+ *       hmacKey: process.env.FINGERPRINT_KEY,
+ *     }),
+ *   });
+ */
+export function createJcsFingerprint(
+  options: JcsFingerprintOptions = {},
+): FingerprintStrategy {
+  const algorithm = options.algorithm ?? "sha256";
+  const include = options.include?.map(parsePointer);
+  const exclude = options.exclude?.map(parsePointer);
+
+  // Fail fast on unknown algorithms instead of on the first request
+  createHash(algorithm);
+
+  return {
+    fingerprint(data: unknown): string {
+      let value = toJsonValue(data, new Set());
+      if (include) value = selectPaths(value, include);
+      if (exclude) {
+        for (const path of exclude) value = removePath(value, path);
+      }
+
+      const hash = options.hmacKey
+        ? createHmac(algorithm, options.hmacKey)
+        : createHash(algorithm);
+      hash.update(serialize(value), "utf8");
+      return hash.digest("hex");
+    },
+  };
+}
+
+/**
+ * Serialize a value as RFC 8785 canonical JSON.
+ *
+ * Non-JSON values are mapped deterministically before serialization:
+ * - `Date` → ISO 8601 string (objects with `toJSON` use its result)
+ * - `Map` → array of `[key, value]` pairs, `Set` → array; both sorted by
+ *   canonical form (neither has a meaningful order for a fingerprint)
+ * - `BigInt` → integer literal (`10n` ≡ `10`)
+ * - `undefined` → dropped from objects, `null` in arrays / at the top level
+ * - `-0` → `0`
+ *
+ * @throws TypeError for NaN / Infinity, functions, symbols, invalid dates and cycles
+ */
+export function canonicalize(data: unknown): string {
+  return serialize(toJsonValue(data, new Set()));
+}
+
+// =====================================================================
+// Normalization to a plain JSON tree
+// =====================================================================
+
+type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | BigIntLiteral
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Object without a prototype: an own "__proto__" key (e.g. from JSON.parse)
+ * stays a plain property instead of setting the prototype and vanishing
+ * from the canonical form.
+ */
+function jsonObject(): { [key: string]: JsonValue } {
+  return Object.create(null);
+}
+
+/** Marks a BigInt so it is emitted as a bare integer literal */
+class BigIntLiteral {
+  constructor(readonly digits: string) {}
+}
+
+function toJsonValue(value: unknown, seen: Set<object>): JsonValue {
+  if (value === null || value === undefined) return null;
+
+  switch (typeof value) {
+    case "boolean":
+    case "string":
+      return value;
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot fingerprint non-finite number ${value}`);
+      }
+      return value;
+    case "bigint":
+      return new BigIntLiteral(value.toString());
+    case "function":
+    case "symbol":
+      throw new TypeError(`Cannot fingerprint a ${typeof value}`);
+  }
+
+  const obj = value as object;
+  if (seen.has(obj)) {
+    throw new TypeError("Cannot fingerprint a cyclic structure");
+  }
+  seen.add(obj);
+  try {
+    if (obj instanceof Date) {
+      if (Number.isNaN(obj.getTime())) {
+        throw new TypeError("Cannot fingerprint an invalid Date");
+      }
+      return obj.toISOString();
+    }
+    if (typeof (obj as { toJSON?: unknown }).toJSON === "function") {
+      return toJsonValue((obj as { toJSON(): unknown }).toJSON(), seen);
+    }
+    if (obj instanceof Map) {
+      return sortByCanonicalForm(
+        [...obj].map(([k, v]) => [toJsonValue(k, seen), toJsonValue(v, seen)]),
+      );
+    }
+    if (obj instanceof Set) {
+      return sortByCanonicalForm([...obj].map((v) => toJsonValue(v, seen)));
+    }
+    if (Array.isArray(obj)) {
+      return obj.map((v) => toJsonValue(v, seen));
+    }
+
+    const out = jsonObject();
+    for (const [k, v] of Object.entries(obj)) {
+      if (v !== undefined) out[k] = toJsonValue(v, seen);
+    }
+    return out;
+  } finally {
+    seen.delete(obj);
+  }
+}
+
+function sortByCanonicalForm(values: JsonValue[]): JsonValue[] {
+  return values
+    .map((v) => [serialize(v), v] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([, v]) => v);
+}
+
+// =====================================================================
+// RFC 8785 serialization
+// =====================================================================
+
+function serialize(value: JsonValue): string {
+  if (value === null || typeof value === "boolean") return String(value);
+  // ES number-to-string is exactly the JCS number format (and maps -0 to "0")
+  if (typeof value === "number") return JSON.stringify(value);
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value instanceof BigIntLiteral) return value.digits;
+  if (Array.isArray(value)) return `[${value.map(serialize).join(",")}]`;
+
+  // JCS orders properties by UTF-16 code units – plain `<`, never localeCompare
+  const keys = Object.keys(value).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${keys
+    .map((k) => `${JSON.stringify(k)}:${serialize(value[k])}`)
+    .join(",")}}`;
+}
+
+// =====================================================================
+// JSON pointers (RFC 6901)
+// =====================================================================
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer "${pointer}" (must start with "/")`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isContainer(
+  value: JsonValue,
+): value is JsonValue[] | { [key: string]: JsonValue } {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !(value instanceof BigIntLiteral)
+  );
+}
+
+function getChild(value: JsonValue, token: string): JsonValue | undefined {
+  if (!isContainer(value)) return undefined;
+  if (Array.isArray(value)) {
+    return /^(0|[1-9]\d*)$/.test(token) ? value[Number(token)] : undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(value, token)
+    ? value[token]
+    : undefined;
+}
+
+/**
+ * Keep only the given paths. Selected array elements keep their index, so
+ * `/items/1` alone yields `{ items: { "1": ... } }` – still deterministic.
+ */
+function selectPaths(value: JsonValue, paths: string[][]): JsonValue {
+  if (paths.some((p) => p.length === 0)) return value;
+
+  const out = jsonObject();
+  const groups = new Map<string, string[][]>();
+  for (const [head, ...rest] of paths) {
+    groups.set(head, [...(groups.get(head) ?? []), rest]);
+  }
+  for (const [token, rests] of groups) {
+    const child = getChild(value, token);
+    if (child !== undefined) out[token] = selectPaths(child, rests);
+  }
+  return out;
+}
+
+function removePath(value: JsonValue, path: string[]): JsonValue {
+  if (path.length === 0) return null;
+  const [token, ...rest] = path;
+  const child = getChild(value, token);
+  if (child === undefined || !isContainer(value)) return value;
+
+  if (Array.isArray(value)) {
+    const copy = [...value];
+    if (rest.length === 0) copy.splice(Number(token), 1);
+    else copy[Number(token)] = removePath(child, rest);
+    return copy;
+  }
+
+  const copy = Object.assign(jsonObject(), value);
+  if (rest.length === 0) delete copy[token];
+  else copy[token] = removePath(child, rest);
+  return copy;
+}
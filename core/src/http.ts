@@ -0,0 +1,66 @@
+/**
+ * Framework-agnostic HTTP helpers shared by the Express / Fastify integrations.
+ */
+import { IdempotencyError, OperationInProgressError } from "./errors";
+
+/**
+ * An HTTP response as captured on first execution and replayed on retries.
+ */
+export interface CapturedResponse {
+  statusCode: number;
+  headers: Record<string, string>; // only the configured replay headers
+  body: string; // base64 – responses are not always UTF-8
+}
+
+/**
+ * RFC 9457 problem details body (`application/problem+json`).
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code?: string;
+}
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * Map an IdempotencyError (or subclass) to a problem+json body.
+ *
+ * The `type` URI is a stable URN derived from the error code, so clients can
+ * branch on it without parsing messages.
+ */
+export function toProblemDetails(err: IdempotencyError): ProblemDetails {
+  const code = err.code ?? "IDEMPOTENCY_ERROR";
+  return {
+    type: `urn:idempotkit:problem:${code.toLowerCase().replace(/_/g, "-")}`,
+    title: err.name,
+    status: err.status,
+    detail: err.message,
+    code,
+  };
+}
+
+/**
+ * Extra headers to send with a problem response (e.g. `Retry-After` for 409s).
+ */
+export function problemHeaders(err: IdempotencyError): Record<string, string> {
+  return err instanceof OperationInProgressError || err.status === 503
+    ? { "Retry-After": "1" }
+    : {};
+}
+
+/**
+ * Keep only the listed top-level fields of a request body for fingerprinting.
+ * Missing fields are omitted; non-object bodies are returned unchanged.
+ */
+export function pickFields(body: unknown, fields?: string[]): unknown {
+  if (!fields || body == null || typeof body !== "object") return body;
+
+  return Object.fromEntries(
+    fields
+      .filter((field) => Object.prototype.hasOwnProperty.call(body, field))
+      .map((field) => [field, (body as Record<string, unknown>)[field]]),
+  );
+}
@@ -22,7 +22,26 @@ export type {
   IdempotencyStore,
   EngineOptions,
   ExecuteOptions,
+  ExecuteManyOptions,
+  Lease,
+  BeginOptions,
+  BeginResult,
+  CompleteOptions,
+  AbortOptions,
+  BatchItem,
+  BatchItemOutcome,
+  CheckAndLockResult,
+  WaitForResultOptions,
+  HandlerContext,
   AuditEvent,
+  StoredError,
+  StoredRecord,
+  ScanPage,
+  AdminOptions,
+  ListOptions,
+  ResultCodec,
+  ResultCodecContext,
+  FingerprintStrategy,
 } from "./types";
 export {
   IdempotencyError,
@@ -31,4 +50,60 @@ export {
   InvalidRetentionError,
   OperationInProgressError,
   HandlerTimeoutError,
+  LockLostError,
+  LockAcquisitionError,
+  IdempotencyInternalError,
+  TerminalError,
+  OutcomeUnknownError,
+  UnsupportedOperationError,
+  AuditUnavailableError,
+  StoreError,
 } from "./errors";
+export type { StoreErrorKind, InvalidKeyReason } from "./errors";
+export type { ExecutionOutcome } from "./telemetry";
+export type { KeyPolicy } from "./keys";
+export { createJcsFingerprint, canonicalize } from "./fingerprint";
+export type { JcsFingerprintOptions } from "./fingerprint";
+export { createEncryptionCodec, staticKeyProvider } from "./encryption";
+export type {
+  KeyProvider,
+  EncryptionCodecOptions,
+  EncryptedEnvelope,
+} from "./encryption";
+export { complianceProfiles, resolveComplianceProfile } from "./compliance";
+export type { ComplianceProfile, ComplianceProfileName } from "./compliance";
+export { createRedactor, isLuhnValid } from "./redaction";
+export type { RedactionPolicy, PiiDetector } from "./redaction";
+export {
+  HashChainAuditSink,
+  verifyAuditChain,
+  createJsonlAuditBackend,
+  AUDIT_CHAIN_GENESIS,
+} from "./audit";
+export type {
+  ChainedAuditRecord,
+  AuditChainBackend,
+  AuditChainOptions,
+  AuditChainVerification,
+} from "./audit";
+export type { AuditDeliveryOptions, AuditFailureInfo } from "./dispatcher";
+export type { CircuitBreakerOptions, CircuitState } from "./breaker";
+export { TieredStore } from "./tiered";
+export type { TieredStoreOptions } from "./tiered";
+export { createSerializationCodec, resultSerializers } from "./serialization";
+export type {
+  ResultSerializer,
+  ResultSerializerName,
+  SerializationOptions,
+  CompressionOptions,
+  SerializedEnvelope,
+} from "./serialization";
+export { dedupeMessage, messageSources } from "./dedupe";
+export type { DedupeOptions, DedupeResult, MessageSource } from "./dedupe";
+export {
+  toProblemDetails,
+  problemHeaders,
+  pickFields,
+  PROBLEM_CONTENT_TYPE,
+} from "./http";
+export type { CapturedResponse, ProblemDetails } from "./http";
@@ -0,0 +1,137 @@
+/**
+ * Idempotency key policy and scoping – which client keys are accepted, and
+ * how a key is namespaced per principal (tenant, user, API client) so two
+ * clients sending the same key never share a stored result.
+ */
+import { InvalidIdempotencyKeyError } from "./errors";
+
+export interface KeyPolicy {
+  /**
+   * Maximum key length (after trimming).
+   * @default 255
+   */
+  maxLength?: number;
+
+  /**
+   * Pattern the whole key must match, e.g. `/^[A-Za-z0-9_-]+$/`.
+   * @default any characters
+   */
+  charset?: RegExp;
+
+  /**
+   * Require keys to be UUIDs (any version, RFC 9562) or ULIDs.
+   * @default any format
+   */
+  format?: "uuid" | "ulid";
+}
+
+/** Marks a scoped storage key; unscoped client keys may not start with it */
+const SCOPE_MARKER = "@";
+
+const MAX_SCOPE_LENGTH = 255;
+
+const KEY_FORMATS = {
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ulid: /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i,
+};
+
+export type ResolvedKeyPolicy = KeyPolicy & { maxLength: number };
+
+/**
+ * Validate `policy` once, at engine construction.
+ */
+export function resolveKeyPolicy(policy: KeyPolicy = {}): ResolvedKeyPolicy {
+  const maxLength = policy.maxLength ?? 255;
+  if (!Number.isInteger(maxLength) || maxLength < 1) {
+    throw new Error(
+      `keyPolicy.maxLength must be a positive integer (got ${maxLength})`,
+    );
+  }
+  if (policy.format !== undefined && !(policy.format in KEY_FORMATS)) {
+    throw new Error(
+      `keyPolicy.format must be "uuid" or "ulid" (got ${policy.format})`,
+    );
+  }
+  return { ...policy, maxLength };
+}
+
+/**
+ * Validate a client-provided key against `policy` and fold in `scope`.
+ *
+ * Scoped keys are stored as `@<scope>:<key>`, with the scope URI-encoded so
+ * it can never contain the `:` separator – a (scope, key) pair maps to
+ * exactly one storage key. Unscoped keys starting with `@` are rejected, so
+ * they cannot address another principal's keys.
+ *
+ * @returns The storage key without `keyPrefix`
+ * @throws InvalidIdempotencyKeyError with the reason the key was rejected
+ */
+export function scopedKey(
+  key: string,
+  scope: string | undefined,
+  policy: ResolvedKeyPolicy,
+): string {
+  if (!key || typeof key !== "string" || key.trim().length === 0) {
+    throw new InvalidIdempotencyKeyError(
+      "idempotency key must be a non-empty string (from Idempotency-Key header)",
+    );
+  }
+
+  const trimmed = key.trim();
+  if (trimmed.length > policy.maxLength) {
+    throw new InvalidIdempotencyKeyError(
+      `idempotency key must be at most ${policy.maxLength} characters (got ${trimmed.length})`,
+      "too_long",
+    );
+  }
+  if (policy.format && !KEY_FORMATS[policy.format].test(trimmed)) {
+    throw new InvalidIdempotencyKeyError(
+      `idempotency key must be a ${policy.format.toUpperCase()}`,
+      "invalid_format",
+    );
+  }
+  if (policy.charset && !matchesWhole(policy.charset, trimmed)) {
+    throw new InvalidIdempotencyKeyError(
+      "idempotency key contains characters outside the allowed set",
+      "invalid_charset",
+    );
+  }
+
+  if (scope === undefined) {
+    if (trimmed.startsWith(SCOPE_MARKER)) {
+      throw new InvalidIdempotencyKeyError(
+        `idempotency key must not start with "${SCOPE_MARKER}" (reserved for scoped keys)`,
+        "reserved_prefix",
+      );
+    }
+    return trimmed;
+  }
+
+  return scopePrefix(scope) + trimmed;
+}
+
+/**
+ * Storage key prefix of every key in `scope` (without `keyPrefix`).
+ *
+ * @throws InvalidIdempotencyKeyError ("invalid_scope") for an empty or
+ *   overlong scope
+ */
+export function scopePrefix(scope: string): string {
+  if (
+    typeof scope !== "string" ||
+    scope.length === 0 ||
+    scope.length > MAX_SCOPE_LENGTH
+  ) {
+    throw new InvalidIdempotencyKeyError(
+      `scope must be a non-empty string of at most ${MAX_SCOPE_LENGTH} characters`,
+      "invalid_scope",
+    );
+  }
+  return `${SCOPE_MARKER}${encodeURIComponent(scope)}:`;
+}
+
+/** Test a user-supplied pattern against the whole key (stateful g / y flags dropped) */
+function matchesWhole(pattern: RegExp, key: string): boolean {
+  const flags = pattern.flags.replace(/[gy]/g, "");
+  return new RegExp(`^(?:${pattern.source})$`, flags).test(key);
+}
@@ -0,0 +1,146 @@
+/**
+ * Audit metadata redaction – key allow/deny lists and PII value detectors,
+ * applied at every depth before events reach `onAudit` / `recordAudit`.
+ */
+
+export type PiiDetector = "card" | "email" | "phone";
+
+export interface RedactionPolicy {
+  /**
+   * If set, only keys matching an entry are kept (at every depth – list the
+   * parent keys of nested values too). Values are still run through the detectors.
+   * @default all keys allowed
+   */
+  allowKeys?: Array<string | RegExp>;
+
+  /**
+   * Keys that are always redacted, at every depth. Takes precedence over
+   * `allowKeys`. The engine adds the compliance profile's `redactMetadataKeys`.
+   * @default []
+   */
+  denyKeys?: Array<string | RegExp>;
+
+  /**
+   * Detectors run on every string value, including handler error messages:
+   * - "card": Luhn-valid 13–19 digit numbers (spaces / dashes allowed)
+   * - "email": email addresses
+   * - "phone": international (+CC) and North American numbers
+   * @default ["card", "email", "phone"]
+   */
+  detectors?: PiiDetector[];
+
+  /**
+   * - "drop": remove redacted keys / array items entirely
+   * - "mask": keep them with a placeholder; detected values are replaced
+   *   in place (`"paid with [REDACTED:card]"`)
+   * @default "drop"
+   */
+  action?: "drop" | "mask";
+
+  /**
+   * Values nested deeper than this are redacted as a whole.
+   * @default 8
+   */
+  maxDepth?: number;
+}
+
+const PATTERNS: Record<PiiDetector, RegExp> = {
+  card: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  phone:
+    /(?<![\w+])(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)|\d{1,4})(?:[ .-]?\d{2,4}){2,4}|\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4})(?!\w)/g,
+};
+
+/** Placeholder for redacted keys / values in "mask" mode */
+const MASK = "[REDACTED]";
+
+/**
+ * Luhn checksum – tells card numbers apart from order IDs and timestamps.
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Build a function that redacts a metadata object according to `policy`.
+ * The input is never modified.
+ */
+export function createRedactor(
+  policy: RedactionPolicy = {},
+): (metadata: Record<string, unknown>) => Record<string, unknown> {
+  const {
+    allowKeys,
+    denyKeys = [],
+    detectors = ["card", "email", "phone"],
+    action = "drop",
+    maxDepth = 8,
+  } = policy;
+
+  const matches = (key: string, list: Array<string | RegExp>) =>
+    list.some((entry) =>
+      typeof entry === "string" ? entry === key : entry.test(key),
+    );
+  const isRedactedKey = (key: string) =>
+    matches(key, denyKeys) || (allowKeys ? !matches(key, allowKeys) : false);
+
+  /** Returns `undefined` when the value must be dropped */
+  const scrubString = (value: string): string | undefined => {
+    let found = false;
+    let scrubbed = value;
+    for (const detector of detectors) {
+      scrubbed = scrubbed.replace(PATTERNS[detector], (match) => {
+        if (detector === "card" && !isLuhnValid(match.replace(/[ -]/g, ""))) {
+          return match;
+        }
+        found = true;
+        return `[REDACTED:${detector}]`;
+      });
+    }
+    if (!found) return value;
+    return action === "mask" ? scrubbed : undefined;
+  };
+
+  const scrub = (value: unknown, depth: number): unknown => {
+    if (typeof value === "string") return scrubString(value);
+    if (typeof value === "number" || typeof value === "bigint") {
+      const text = String(value); // e.g. a PAN passed as a number
+      if (scrubString(text) === text) return value;
+      return action === "mask" ? MASK : undefined;
+    }
+    if (value === null || typeof value !== "object" || value instanceof Date) {
+      return value;
+    }
+    if (depth >= maxDepth) return action === "mask" ? MASK : undefined;
+
+    if (Array.isArray(value)) {
+      const items = value.map((item) => scrub(item, depth + 1));
+      return action === "mask"
+        ? items
+        : items.filter((item) => item !== undefined);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      if (isRedactedKey(key)) {
+        if (action === "mask") result[key] = MASK;
+        continue;
+      }
+      const scrubbed = scrub(nested, depth + 1);
+      if (scrubbed !== undefined || nested === undefined) {
+        result[key] = scrubbed;
+      }
+    }
+    return result;
+  };
+
+  return (metadata) => (scrub(metadata, 0) ?? {}) as Record<string, unknown>;
+}
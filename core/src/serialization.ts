@@ -0,0 +1,613 @@
+/**
+ * Result serialization – how handler results are turned into stored data.
+ *
+ * Stores keep JSON, which changes many results on replay: a `Date` comes back
+ * as a string, a `Buffer` as an object, and a `BigInt` cannot be stored at
+ * all. A serializer encodes the result into an envelope the store treats as
+ * an opaque string, optionally compressed above a size threshold.
+ */
+import { promisify } from "util";
+import { brotliCompress, brotliDecompress, gzip, gunzip } from "zlib";
+import { IdempotencyInternalError } from "./errors";
+import { ResultCodec, ResultCodecContext } from "./types";
+
+/**
+ * Turns results into text or bytes and back. Must round-trip:
+ * deserialize(serialize(x)) ≡ x for every result your handlers return.
+ */
+export interface ResultSerializer {
+  /**
+   * Recorded in every envelope – stored results stay readable after you
+   * switch serializers, as long as the old one is still configured or built in.
+   */
+  name: string;
+  serialize(value: unknown): string | Uint8Array;
+  /** Receives a string for text output, a Buffer for byte output */
+  deserialize(data: string | Buffer): unknown;
+}
+
+export type ResultSerializerName = "json" | "rich-json" | "msgpack";
+
+export interface CompressionOptions {
+  algorithm: "gzip" | "brotli";
+
+  /**
+   * Serialized results smaller than this (bytes) are stored uncompressed.
+   * Results that do not shrink are stored uncompressed too.
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+export interface SerializationOptions {
+  /**
+   * Serializer for new results (a built-in name or your own).
+   * @default "rich-json"
+   */
+  serializer?: ResultSerializerName | ResultSerializer;
+
+  /**
+   * Compress large results.
+   * @default undefined (never compressed)
+   */
+  compression?: CompressionOptions;
+}
+
+/**
+ * Stored shape of a serialized result.
+ */
+export interface SerializedEnvelope {
+  idempotkit_ser: 1; // envelope version marker
+  format: string; // serializer name
+  compression?: "gzip" | "br";
+  binary?: true; // the serializer produced bytes
+  data: string; // serializer text, or base64 if binary or compressed
+}
+
+const TAG = "$t";
+
+/**
+ * Built-in serializers.
+ *
+ * - `json`: plain JSON – same results as storing them as-is, but kept opaque
+ *   so stores cannot reformat numbers or empty arrays
+ * - `rich-json`: JSON superset that also round-trips `undefined`, `BigInt`,
+ *   `NaN` / `±Infinity` / `-0`, `Date`, `Buffer` / `Uint8Array`, `Map` and `Set`
+ * - `msgpack`: MessagePack – compact binary. `Date` uses the timestamp
+ *   extension, `Buffer` is bin, `BigInt` is a 64-bit integer (and 64-bit
+ *   integers decode as `BigInt`). `Map` / `Set` decode as objects / arrays.
+ */
+export const resultSerializers: Readonly<
+  Record<ResultSerializerName, ResultSerializer>
+> = {
+  json: {
+    name: "json",
+    serialize: (value) => JSON.stringify(value === undefined ? null : value),
+    deserialize: (data) => JSON.parse(data.toString()),
+  },
+  "rich-json": {
+    name: "rich-json",
+    serialize: (value) => JSON.stringify(toTagged(value, new Set())),
+    deserialize: (data) => fromTagged(JSON.parse(data.toString())),
+  },
+  msgpack: {
+    name: "msgpack",
+    serialize: (value) => encodeMsgpack(value),
+    deserialize: (data) =>
+      decodeMsgpack(Buffer.isBuffer(data) ? data : Buffer.from(data)),
+  },
+};
+
+const compress = {
+  gzip: promisify(gzip),
+  br: promisify(brotliCompress),
+};
+const decompress = {
+  gzip: promisify(gunzip),
+  br: promisify(brotliDecompress),
+};
+
+/**
+ * Create a `ResultCodec` that stores results as serialized envelopes.
+ * Configure it through the engine's `serialization` option – it runs before
+ * `resultCodec`, so results are compressed before they are encrypted.
+ *
+ * Stored values that are not envelopes (results stored before serialization
+ * was enabled) are returned as-is. Envelopes that fail to decode throw
+ * IdempotencyInternalError – a stored result is never silently dropped.
+ */
+export function createSerializationCodec(
+  options: SerializationOptions = {},
+): ResultCodec {
+  const { serializer = "rich-json", compression } = options;
+  const active =
+    typeof serializer === "string" ? resultSerializers[serializer] : serializer;
+  if (!active) {
+    throw new Error(
+      `Unknown result serializer "${serializer}" (expected ${Object.keys(resultSerializers).join(", ")} or a custom serializer)`,
+    );
+  }
+
+  const threshold = compression?.threshold ?? 1024;
+  if (!(threshold >= 0)) {
+    throw new Error(
+      `compression.threshold must be at least 0 (got ${threshold})`,
+    );
+  }
+  const algorithm = compression?.algorithm === "brotli" ? "br" : "gzip";
+  const formats = new Map<string, ResultSerializer>(
+    Object.values(resultSerializers).map((s) => [s.name, s]),
+  );
+  formats.set(active.name, active);
+
+  return {
+    async encode(value: unknown, context: ResultCodecContext) {
+      let output: string | Uint8Array;
+      try {
+        output = active.serialize(value);
+      } catch (err) {
+        throw new IdempotencyInternalError(
+          `Result for key ${context.key} could not be serialized with "${active.name}": ${errorMessage(err)}`,
+          err,
+        );
+      }
+
+      const text = typeof output === "string";
+      const bytes = Buffer.from(output);
+      const envelope: SerializedEnvelope = {
+        idempotkit_ser: 1,
+        format: active.name,
+        ...(!text && { binary: true }),
+        data: typeof output === "string" ? output : bytes.toString("base64"),
+      };
+
+      if (compression && bytes.length >= threshold) {
+        const compressed = await compress[algorithm](bytes);
+        if (compressed.length < bytes.length) {
+          envelope.compression = algorithm;
+          envelope.data = compressed.toString("base64");
+        }
+      }
+      return envelope;
+    },
+
+    async decode(stored: unknown, context: ResultCodecContext) {
+      if (!isEnvelope(stored)) return stored;
+
+      const format = formats.get(stored.format);
+      if (!format) {
+        throw new IdempotencyInternalError(
+          `Stored result for key ${context.key} uses unknown serializer "${stored.format}"`,
+        );
+      }
+
+      try {
+        let data: string | Buffer = stored.data;
+        if (stored.compression) {
+          data = await decompress[stored.compression](
+            Buffer.from(data, "base64"),
+          );
+          if (!stored.binary) data = data.toString("utf8");
+        } else if (stored.binary) {
+          data = Buffer.from(data, "base64");
+        }
+        return format.deserialize(data);
+      } catch (err) {
+        throw new IdempotencyInternalError(
+          `Stored result for key ${context.key} could not be deserialized with "${stored.format}": ${errorMessage(err)}`,
+          err,
+        );
+      }
+    },
+  };
+}
+
+function isEnvelope(value: unknown): value is SerializedEnvelope {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    (value as SerializedEnvelope).idempotkit_ser === 1 &&
+    typeof (value as SerializedEnvelope).format === "string" &&
+    typeof (value as SerializedEnvelope).data === "string"
+  );
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// rich-json: JSON with tagged objects ({ "$t": type, "v": value }) for the
+// values JSON cannot represent. Plain objects that have a "$t" key are
+// wrapped as { "$t": "Object" } so they are never mistaken for a tag.
+// ============================================================================
+
+function toTagged(value: unknown, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { [TAG]: "undefined" };
+    case "bigint":
+      return { [TAG]: "bigint", v: value.toString() };
+    case "number":
+      if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+      return {
+        [TAG]: "number",
+        v: Object.is(value, -0) ? "-0" : String(value),
+      };
+    case "function":
+    case "symbol":
+      return { [TAG]: "undefined" }; // not serializable – like JSON in arrays
+    case "string":
+    case "boolean":
+      return value;
+  }
+  if (value === null) return null;
+
+  const object = value as object;
+  if (ancestors.has(object)) {
+    throw new TypeError("Converting circular structure to rich-json");
+  }
+  ancestors.add(object);
+  try {
+    if (object instanceof Date) {
+      const time = object.getTime();
+      return { [TAG]: "Date", v: Number.isNaN(time) ? null : time };
+    }
+    if (Buffer.isBuffer(object)) {
+      return { [TAG]: "Buffer", v: object.toString("base64") };
+    }
+    if (object instanceof Uint8Array) {
+      return { [TAG]: "Uint8Array", v: Buffer.from(object).toString("base64") };
+    }
+    if (object instanceof Map) {
+      return {
+        [TAG]: "Map",
+        v: [...object].map(([k, v]) => [
+          toTagged(k, ancestors),
+          toTagged(v, ancestors),
+        ]),
+      };
+    }
+    if (object instanceof Set) {
+      return {
+        [TAG]: "Set",
+        v: [...object].map((v) => toTagged(v, ancestors)),
+      };
+    }
+    if (Array.isArray(object)) {
+      return Array.from(object, (item) => toTagged(item, ancestors));
+    }
+    if (typeof (object as { toJSON?: unknown }).toJSON === "function") {
+      // e.g. decimal libraries – same result as JSON.stringify
+      return toTagged((object as { toJSON(): unknown }).toJSON(), ancestors);
+    }
+
+    const result = Object.fromEntries(
+      Object.entries(object)
+        .filter(([, v]) => typeof v !== "function" && typeof v !== "symbol")
+        .map(([key, nested]) => [key, toTagged(nested, ancestors)]),
+    );
+    return TAG in result ? { [TAG]: "Object", v: result } : result;
+  } finally {
+    ancestors.delete(object);
+  }
+}
+
+function fromTagged(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(fromTagged);
+
+  const object = value as Record<string, unknown>;
+  if (!(TAG in object)) return fromEntries(object);
+
+  const v = object.v;
+  switch (object[TAG]) {
+    case "undefined":
+      return undefined;
+    case "bigint":
+      return BigInt(v as string);
+    case "number":
+      return v === "-0" ? -0 : Number(v);
+    case "Date":
+      return new Date(v === null ? NaN : (v as number));
+    case "Buffer":
+      return Buffer.from(v as string, "base64");
+    case "Uint8Array":
+      return new Uint8Array(Buffer.from(v as string, "base64"));
+    case "Map":
+      return new Map(
+        (v as [unknown, unknown][]).map(([k, item]) => [
+          fromTagged(k),
+          fromTagged(item),
+        ]),
+      );
+    case "Set":
+      return new Set((v as unknown[]).map(fromTagged));
+    case "Object":
+      return fromEntries(v as Record<string, unknown>);
+    default:
+      throw new TypeError(`Unknown rich-json tag "${String(object[TAG])}"`);
+  }
+}
+
+function fromEntries(object: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(object).map(([key, nested]) => [key, fromTagged(nested)]),
+  );
+}
+
+// ============================================================================
+// msgpack: MessagePack (https://github.com/msgpack/msgpack/blob/master/spec.md)
+// ============================================================================
+
+const TIMESTAMP_EXT = -1;
+
+function encodeMsgpack(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  const header = (...bytes: number[]) => {
+    chunks.push(Buffer.from(bytes));
+  };
+  const fixed = (code: number, bytes: number, n: number, signed = false) => {
+    const buf = Buffer.alloc(1 + bytes);
+    buf[0] = code;
+    if (signed) buf.writeIntBE(n, 1, bytes);
+    else buf.writeUIntBE(n, 1, bytes);
+    chunks.push(buf);
+  };
+  /** Length header: fix format, else 8- (if the type has one), 16- or 32-bit */
+  const sized = (
+    length: number,
+    fix: { base: number; max: number } | null,
+    [code8, code16, code32]: [number | null, number, number],
+  ) => {
+    if (fix && length <= fix.max) return header(fix.base | length);
+    if (code8 !== null && length < 0x100) return fixed(code8, 1, length);
+    if (length < 0x10000) return fixed(code16, 2, length);
+    fixed(code32, 4, length);
+  };
+  const ancestors = new Set<object>();
+
+  const write = (value: unknown): void => {
+    if (value === null || value === undefined) return header(0xc0);
+    switch (typeof value) {
+      case "boolean":
+        return header(value ? 0xc3 : 0xc2);
+      case "number":
+        return writeNumber(value);
+      case "bigint":
+        return writeBigInt(value);
+      case "string": {
+        const bytes = Buffer.from(value, "utf8");
+        sized(bytes.length, { base: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]);
+        chunks.push(bytes);
+        return;
+      }
+      case "function":
+      case "symbol":
+        return header(0xc0);
+    }
+
+    const object = value as object;
+    if (ancestors.has(object)) {
+      throw new TypeError("Converting circular structure to msgpack");
+    }
+    ancestors.add(object);
+    try {
+      if (object instanceof Date) return writeTimestamp(object);
+      if (object instanceof Uint8Array) {
+        sized(object.length, null, [0xc4, 0xc5, 0xc6]);
+        chunks.push(Buffer.from(object));
+        return;
+      }
+      if (Array.isArray(object) || object instanceof Set) {
+        const items = [...object];
+        sized(items.length, { base: 0x90, max: 15 }, [null, 0xdc, 0xdd]);
+        items.forEach(write);
+        return;
+      }
+      if (typeof (object as { toJSON?: unknown }).toJSON === "function") {
+        return write((object as { toJSON(): unknown }).toJSON());
+      }
+
+      const entries =
+        object instanceof Map
+          ? [...object]
+          : Object.entries(object).filter(
+              ([, v]) => typeof v !== "function" && typeof v !== "symbol",
+            );
+      sized(entries.length, { base: 0x80, max: 15 }, [null, 0xde, 0xdf]);
+      for (const [k, v] of entries) {
+        write(k);
+        write(v);
+      }
+    } finally {
+      ancestors.delete(object);
+    }
+  };
+
+  const writeNumber = (n: number) => {
+    if (Number.isInteger(n) && !Object.is(n, -0)) {
+      if (n >= 0 && n < 0x80) return header(n);
+      if (n < 0 && n >= -32) return header(n & 0xff);
+      if (n >= 0 && n < 0x100) return fixed(0xcc, 1, n);
+      if (n >= 0 && n < 0x10000) return fixed(0xcd, 2, n);
+      if (n >= 0 && n <= 0xffffffff) return fixed(0xce, 4, n);
+      if (n < 0 && n >= -0x80) return fixed(0xd0, 1, n, true);
+      if (n < 0 && n >= -0x8000) return fixed(0xd1, 2, n, true);
+      if (n < 0 && n >= -0x80000000) return fixed(0xd2, 4, n, true);
+    }
+    // Other numbers (fractions, integers beyond 32 bits, NaN, ±Infinity, -0):
+    // float 64 – 64-bit integer formats are reserved for BigInt
+    const buf = Buffer.alloc(9);
+    buf[0] = 0xcb;
+    buf.writeDoubleBE(n, 1);
+    chunks.push(buf);
+  };
+
+  const writeBigInt = (n: bigint) => {
+    const buf = Buffer.alloc(9);
+    if (n >= 0n && n <= 0xffffffffffffffffn) {
+      buf[0] = 0xcf;
+      buf.writeBigUInt64BE(n, 1);
+    } else if (n < 0n && n >= -0x8000000000000000n) {
+      buf[0] = 0xd3;
+      buf.writeBigInt64BE(n, 1);
+    } else {
+      throw new RangeError(`BigInt ${n} does not fit in 64 bits (msgpack)`);
+    }
+    chunks.push(buf);
+  };
+
+  const writeTimestamp = (date: Date) => {
+    const ms = date.getTime();
+    if (Number.isNaN(ms)) throw new RangeError("Invalid Date (msgpack)");
+    const seconds = Math.floor(ms / 1000);
+    const buf = Buffer.alloc(15);
+    buf[0] = 0xc7; // ext 8
+    buf[1] = 12; // timestamp 96
+    buf.writeInt8(TIMESTAMP_EXT, 2);
+    buf.writeUInt32BE((ms - seconds * 1000) * 1_000_000, 3);
+    buf.writeBigInt64BE(BigInt(seconds), 7);
+    chunks.push(buf);
+  };
+
+  write(value);
+  return Buffer.concat(chunks);
+}
+
+function decodeMsgpack(buf: Buffer): unknown {
+  let pos = 0;
+  const take = (length: number) => {
+    if (pos + length > buf.length)
+      throw new RangeError("Truncated msgpack data");
+    const start = pos;
+    pos += length;
+    return start;
+  };
+
+  const read = (): unknown => {
+    const code = buf[take(1)];
+    if (code < 0x80) return code;
+    if (code < 0x90) return readMap(code & 0x0f);
+    if (code < 0xa0) return readArray(code & 0x0f);
+    if (code < 0xc0) return readString(code & 0x1f);
+    if (code >= 0xe0) return code - 0x100;
+
+    switch (code) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return readBinary(buf.readUInt8(take(1)));
+      case 0xc5:
+        return readBinary(buf.readUInt16BE(take(2)));
+      case 0xc6:
+        return readBinary(buf.readUInt32BE(take(4)));
+      case 0xc7:
+        return readExt(buf.readUInt8(take(1)));
+      case 0xc8:
+        return readExt(buf.readUInt16BE(take(2)));
+      case 0xc9:
+        return readExt(buf.readUInt32BE(take(4)));
+      case 0xca:
+        return buf.readFloatBE(take(4));
+      case 0xcb:
+        return buf.readDoubleBE(take(8));
+      case 0xcc:
+        return buf.readUInt8(take(1));
+      case 0xcd:
+        return buf.readUInt16BE(take(2));
+      case 0xce:
+        return buf.readUInt32BE(take(4));
+      case 0xcf:
+        return buf.readBigUInt64BE(take(8));
+      case 0xd0:
+        return buf.readInt8(take(1));
+      case 0xd1:
+        return buf.readInt16BE(take(2));
+      case 0xd2:
+        return buf.readInt32BE(take(4));
+      case 0xd3:
+        return buf.readBigInt64BE(take(8));
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return readExt(1 << (code - 0xd4));
+      case 0xd9:
+        return readString(buf.readUInt8(take(1)));
+      case 0xda:
+        return readString(buf.readUInt16BE(take(2)));
+      case 0xdb:
+        return readString(buf.readUInt32BE(take(4)));
+      case 0xdc:
+        return readArray(buf.readUInt16BE(take(2)));
+      case 0xdd:
+        return readArray(buf.readUInt32BE(take(4)));
+      case 0xde:
+        return readMap(buf.readUInt16BE(take(2)));
+      case 0xdf:
+        return readMap(buf.readUInt32BE(take(4)));
+      default:
+        throw new TypeError(`Invalid msgpack type 0x${code.toString(16)}`);
+    }
+  };
+
+  const readString = (length: number) => {
+    const start = take(length);
+    return buf.toString("utf8", start, start + length);
+  };
+
+  const readBinary = (length: number) => {
+    const start = take(length);
+    return Buffer.from(buf.subarray(start, start + length));
+  };
+
+  const readArray = (length: number) => {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) items.push(read());
+    return items;
+  };
+
+  /** Maps with only string keys decode as objects, others as `Map` */
+  const readMap = (length: number) => {
+    const entries: [unknown, unknown][] = [];
+    for (let i = 0; i < length; i++) entries.push([read(), read()]);
+    if (entries.every(([k]) => typeof k === "string")) {
+      return Object.fromEntries(entries); // own "__proto__" keys stay data
+    }
+    return new Map(entries);
+  };
+
+  const readExt = (length: number) => {
+    const type = buf.readInt8(take(1));
+    const start = take(length);
+    if (type !== TIMESTAMP_EXT) {
+      throw new TypeError(`Unsupported msgpack extension type ${type}`);
+    }
+    let seconds: number;
+    let nanoseconds = 0;
+    if (length === 4) {
+      seconds = buf.readUInt32BE(start);
+    } else if (length === 8) {
+      const high = buf.readUInt32BE(start);
+      nanoseconds = high >>> 2;
+      seconds = (high & 0x3) * 2 ** 32 + buf.readUInt32BE(start + 4);
+    } else if (length === 12) {
+      nanoseconds = buf.readUInt32BE(start);
+      seconds = Number(buf.readBigInt64BE(start + 4));
+    } else {
+      throw new TypeError(`Invalid msgpack timestamp length ${length}`);
+    }
+    return new Date(seconds * 1000 + Math.floor(nanoseconds / 1_000_000));
+  };
+
+  const value = read();
+  if (pos !== buf.length)
+    throw new TypeError("Trailing bytes after msgpack value");
+  return value;
+}
@@ -0,0 +1,187 @@
+/**
+ * OpenTelemetry instrumentation for the engine.
+ *
+ * Uses only `@opentelemetry/api` – without a registered SDK every span and
+ * instrument is a no-op, so instrumentation is always on and costs nothing
+ * until you opt in by registering an SDK (or passing providers explicitly).
+ */
+import {
+  Attributes,
+  Counter,
+  Histogram,
+  MeterProvider,
+  Span,
+  SpanStatusCode,
+  Tracer,
+  TracerProvider,
+  metrics,
+  trace,
+} from "@opentelemetry/api";
+
+const INSTRUMENTATION_NAME = "@idempotkit/core";
+
+/**
+ * Final outcome of one `engine.execute` call, recorded as the
+ * `idempotkit.outcome` span / metric attribute.
+ */
+export type ExecutionOutcome =
+  | "hit" // stored result (or terminal failure) replayed
+  | "miss" // handler ran and its result was stored
+  | "locked" // rejected – concurrent request in progress
+  | "mismatch" // rejected – fingerprint mismatch
+  | "timeout" // handler timed out
+  | "unknown" // rejected – earlier attempt timed out and is held
+  | "lock_lost" // lock lost before commit
+  | "bypassed" // store unavailable – handler run without store protection
+  | "error"; // handler, store or validation error
+
+/**
+ * Per-call handle: accumulates store latency and the outcome for the span.
+ */
+export interface ExecutionTelemetry {
+  outcome?: ExecutionOutcome;
+  /** Time a store call and record it under `operation` */
+  store<T>(operation: string, call: () => Promise<T>): Promise<T>;
+  /** Record the handler duration */
+  handler(durationMs: number, outcome: "success" | "error" | "timeout"): void;
+  /** Count a "locked" check result (lock contention) */
+  contended(): void;
+}
+
+export class EngineTelemetry {
+  private readonly tracer: Tracer;
+  private readonly executions: Counter;
+  private readonly contention: Counter;
+  private readonly handlerDuration: Histogram;
+  private readonly storeDuration: Histogram;
+  private readonly baseAttributes: Attributes;
+
+  constructor(options: {
+    tracerProvider?: TracerProvider;
+    meterProvider?: MeterProvider;
+    keyPrefix: string;
+  }) {
+    this.tracer = (options.tracerProvider ?? trace).getTracer(
+      INSTRUMENTATION_NAME,
+    );
+    const meter = (options.meterProvider ?? metrics).getMeter(
+      INSTRUMENTATION_NAME,
+    );
+
+    this.executions = meter.createCounter("idempotkit.executions", {
+      description:
+        "engine.execute calls by outcome (hit ratio = hit / all outcomes)",
+    });
+    this.contention = meter.createCounter("idempotkit.lock.contention", {
+      description: "Lock checks that found the key locked by another request",
+    });
+    this.handlerDuration = meter.createHistogram(
+      "idempotkit.handler.duration",
+      { description: "Handler execution time", unit: "ms" },
+    );
+    this.storeDuration = meter.createHistogram("idempotkit.store.duration", {
+      description: "Store round-trip time by operation",
+      unit: "ms",
+    });
+
+    this.baseAttributes = { "idempotkit.key_prefix": options.keyPrefix };
+  }
+
+  /**
+   * Run `fn` inside an `idempotkit.execute` span (active, so handler spans
+   * nest under it) and record the outcome when it settles.
+   */
+  async traceExecution<T>(
+    fn: (telemetry: ExecutionTelemetry) => Promise<T>,
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(
+      "idempotkit.execute",
+      { attributes: this.baseAttributes },
+      async (span) => {
+        let storeLatencyMs = 0;
+        const telemetry: ExecutionTelemetry = {
+          store: async (operation, call) => {
+            const started = performance.now();
+            try {
+              return await this.timeStore(operation, call);
+            } finally {
+              storeLatencyMs += performance.now() - started;
+            }
+          },
+          handler: (durationMs, outcome) => {
+            this.handlerDuration.record(durationMs, {
+              ...this.baseAttributes,
+              "idempotkit.handler.outcome": outcome,
+            });
+          },
+          contended: () => this.contention.add(1, this.baseAttributes),
+        };
+
+        try {
+          const result = await fn(telemetry);
+          this.finish(span, telemetry.outcome ?? "miss", storeLatencyMs);
+          return result;
+        } catch (err) {
+          this.finish(span, telemetry.outcome ?? "error", storeLatencyMs, err);
+          throw err;
+        }
+      },
+    );
+  }
+
+  /**
+   * Per-call handle without a span or execution count – for flows that
+   * share `execute`'s steps but are not executions (e.g. `engine.begin`).
+   */
+  untraced(): ExecutionTelemetry {
+    return {
+      store: (operation, call) => this.timeStore(operation, call),
+      handler: () => {},
+      contended: () => this.contention.add(1, this.baseAttributes),
+    };
+  }
+
+  /**
+   * Time a store call made outside of `execute` (e.g. lease renewal).
+   */
+  async timeStore<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      return await call();
+    } finally {
+      this.storeDuration.record(performance.now() - started, {
+        ...this.baseAttributes,
+        "idempotkit.store.operation": operation,
+      });
+    }
+  }
+
+  private finish(
+    span: Span,
+    outcome: ExecutionOutcome,
+    storeLatencyMs: number,
+    err?: unknown,
+  ) {
+    span.setAttributes({
+      "idempotkit.outcome": outcome,
+      "idempotkit.store.latency_ms": storeLatencyMs,
+    });
+    this.executions.add(1, {
+      ...this.baseAttributes,
+      "idempotkit.outcome": outcome,
+    });
+
+    // Replays and rejections are expected behaviour, not span errors
+    if (
+      err !== undefined &&
+      (outcome === "error" || outcome === "timeout" || outcome === "lock_lost")
+    ) {
+      if (err instanceof Error) span.recordException(err);
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+    span.end();
+  }
+}
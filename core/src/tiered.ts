@@ -0,0 +1,360 @@
+/**
+ * Two-tier store – a bounded in-process cache of committed outcomes in front
+ * of a remote store, so retries of a completed key are answered without a
+ * round trip. Committed results and failures never change, so they can be
+ * served locally; locks and commits always go to the backing store.
+ */
+import {
+  CheckAndLockResult,
+  IdempotencyStore,
+  ScanPage,
+  StoredError,
+  StoredRecord,
+  AuditEvent,
+} from "./types";
+
+export interface TieredStoreOptions {
+  /**
+   * Maximum number of cached outcomes; the least recently used are evicted.
+   * @default 10_000
+   */
+  maxEntries?: number;
+
+  /**
+   * How long (ms) an outcome is served from memory – capped at its retention
+   * when this process committed it. Bounds how long a key deleted by another
+   * instance (or expired remotely) may still be replayed here.
+   * @default 60_000
+   */
+  ttl?: number;
+}
+
+interface CachedOutcome {
+  fingerprint: string;
+  result?: string; // JSON snapshot – a hit never shares objects with callers
+  error?: StoredError;
+  createdAt: string;
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * `IdempotencyStore` that caches committed outcomes of another store.
+ *
+ * - `atomicCheckAndLock` answers `exists` from the cache; misses, locks and
+ *   commits are delegated to the backing store
+ * - Outcomes enter the cache when this process commits them, or when the
+ *   backing store reports them
+ * - `delete` (engine `purge`) invalidates the key; call `invalidate` to
+ *   follow deletes made by other instances
+ *
+ * Outcomes are cached as JSON snapshots – exactly what a JSON store keeps –
+ * so a local hit returns the same value as a remote one.
+ *
+ * @example
+ *   const store = new TieredStore(new RedisAdapter(redis), { maxEntries: 50_000, ttl: 300_000 });
+ *   const engine = new IdempotencyEngine(store, { ...options });
+ */
+export class TieredStore implements IdempotencyStore {
+  private readonly cache = new Map<string, CachedOutcome>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+
+  constructor(
+    private readonly backing: IdempotencyStore,
+    options: TieredStoreOptions = {},
+  ) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.ttl = options.ttl ?? 60_000;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error(
+        `maxEntries must be a positive integer (got ${this.maxEntries})`,
+      );
+    }
+    if (!(this.ttl > 0)) {
+      throw new Error(`ttl must be positive (got ${this.ttl}ms)`);
+    }
+
+    // Optional methods exist only if the backing store has them – the engine
+    // checks for them to decide what it can do
+    for (const method of OPTIONAL_METHODS) {
+      if (typeof backing[method] !== "function") {
+        Object.defineProperty(this, method, { value: undefined });
+      }
+    }
+  }
+
+  /** Outcomes currently cached (expired ones included until evicted) */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * Drop a key from the cache, e.g. when another instance purged it.
+   */
+  invalidate(key: string): void {
+    this.cache.delete(key);
+  }
+
+  /** Drop every cached outcome */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  async atomicCheckAndLock(
+    key: string,
+    fingerprint: string,
+    lockTtlMs: number,
+  ): Promise<CheckAndLockResult> {
+    const cached = this.lookup(key);
+    if (cached) return cached;
+
+    const result = await this.backing.atomicCheckAndLock(
+      key,
+      fingerprint,
+      lockTtlMs,
+    );
+    this.remember(key, result);
+    return result;
+  }
+
+  async atomicCheckAndLockMany?(
+    entries: { key: string; fingerprint: string }[],
+    lockTtlMs: number,
+  ): Promise<(CheckAndLockResult | Error)[]> {
+    const results: (CheckAndLockResult | Error | undefined)[] = entries.map(
+      ({ key }) => this.lookup(key),
+    );
+    const misses = entries.filter((_, i) => results[i] === undefined);
+    if (misses.length === 0) return results as CheckAndLockResult[];
+
+    const remote = await this.backing.atomicCheckAndLockMany!(
+      misses,
+      lockTtlMs,
+    );
+    let next = 0;
+    return results.map((result, i) => {
+      if (result !== undefined) return result;
+      const fetched = remote[next++];
+      if (!(fetched instanceof Error)) this.remember(entries[i].key, fetched);
+      return fetched;
+    });
+  }
+
+  async commitResult(
+    key: string,
+    token: string,
+    fingerprint: string,
+    result: unknown,
+    retentionMs: number,
+  ): Promise<boolean> {
+    const committed = await this.backing.commitResult(
+      key,
+      token,
+      fingerprint,
+      result,
+      retentionMs,
+    );
+    if (committed) {
+      this.cacheOutcome(
+        key,
+        { fingerprint, result: snapshot(result) },
+        retentionMs,
+      );
+    }
+    return committed;
+  }
+
+  async commitResultMany?(
+    entries: {
+      key: string;
+      token: string;
+      fingerprint: string;
+      result: unknown;
+    }[],
+    retentionMs: number,
+  ): Promise<(boolean | Error)[]> {
+    const committed = await this.backing.commitResultMany!(
+      entries,
+      retentionMs,
+    );
+    committed.forEach((outcome, i) => {
+      if (outcome !== true) return;
+      const { key, fingerprint, result } = entries[i];
+      this.cacheOutcome(
+        key,
+        { fingerprint, result: snapshot(result) },
+        retentionMs,
+      );
+    });
+    return committed;
+  }
+
+  async commitFailure?(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ): Promise<boolean> {
+    const committed = await this.backing.commitFailure!(
+      key,
+      token,
+      fingerprint,
+      error,
+      retentionMs,
+    );
+    if (committed) this.cacheOutcome(key, { fingerprint, error }, retentionMs);
+    return committed;
+  }
+
+  async releaseLock?(key: string, token: string): Promise<void> {
+    return this.backing.releaseLock!(key, token);
+  }
+
+  async extendLock?(
+    key: string,
+    token: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    return this.backing.extendLock!(key, token, ttlMs);
+  }
+
+  async markUnknown?(
+    key: string,
+    token: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    return this.backing.markUnknown!(key, token, ttlMs);
+  }
+
+  async waitForChange?(key: string, timeoutMs: number): Promise<void> {
+    return this.backing.waitForChange!(key, timeoutMs);
+  }
+
+  /** Always read from the backing store – admin tooling sees the source of truth */
+  async get?(key: string): Promise<StoredRecord | null> {
+    return this.backing.get!(key);
+  }
+
+  async delete?(key: string): Promise<boolean> {
+    this.cache.delete(key);
+    try {
+      return await this.backing.delete!(key);
+    } finally {
+      // A concurrent check may have re-cached the record before the delete landed
+      this.cache.delete(key);
+    }
+  }
+
+  async scan?(
+    prefix: string,
+    options: { cursor?: string; count: number },
+  ): Promise<ScanPage> {
+    return this.backing.scan!(prefix, options);
+  }
+
+  async forceUnlock?(key: string): Promise<boolean> {
+    return this.backing.forceUnlock!(key);
+  }
+
+  async recordAudit?(event: AuditEvent): Promise<void> {
+    return this.backing.recordAudit!(event);
+  }
+
+  async recordAuditMany?(events: AuditEvent[]): Promise<void> {
+    return this.backing.recordAuditMany!(events);
+  }
+
+  async close?(): Promise<void> {
+    this.cache.clear();
+    return this.backing.close!();
+  }
+
+  /** Cached outcome as an `exists` result (refreshing its LRU position) */
+  private lookup(key: string): CheckAndLockResult | undefined {
+    const cached = this.cache.get(key);
+    if (!cached) return undefined;
+    if (cached.expiresAt <= Date.now()) {
+      this.cache.delete(key);
+      return undefined;
+    }
+
+    this.cache.delete(key);
+    this.cache.set(key, cached);
+    return {
+      status: "exists",
+      fingerprint: cached.fingerprint,
+      result:
+        cached.result === undefined ? undefined : JSON.parse(cached.result),
+      ...(cached.error && { error: { ...cached.error } }),
+      createdAt: cached.createdAt,
+    };
+  }
+
+  /** Cache an outcome reported by the backing store */
+  private remember(key: string, result: CheckAndLockResult) {
+    if (result.status !== "exists") return;
+    this.cacheOutcome(
+      key,
+      {
+        fingerprint: result.fingerprint,
+        result: result.error ? undefined : snapshot(result.result),
+        error: result.error,
+        createdAt: result.createdAt,
+      },
+      this.ttl,
+    );
+  }
+
+  private cacheOutcome(
+    key: string,
+    outcome: Omit<CachedOutcome, "createdAt" | "expiresAt"> & {
+      createdAt?: string;
+    },
+    retentionMs: number,
+  ) {
+    // Unserializable results are left to the backing store
+    if ("result" in outcome && outcome.result === undefined && !outcome.error) {
+      return;
+    }
+
+    this.cache.delete(key);
+    this.cache.set(key, {
+      ...outcome,
+      createdAt: outcome.createdAt ?? new Date().toISOString(),
+      expiresAt: Date.now() + Math.min(this.ttl, retentionMs),
+    });
+    if (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+}
+
+const OPTIONAL_METHODS = [
+  "atomicCheckAndLockMany",
+  "commitResultMany",
+  "commitFailure",
+  "releaseLock",
+  "extendLock",
+  "markUnknown",
+  "waitForChange",
+  "get",
+  "delete",
+  "scan",
+  "forceUnlock",
+  "recordAudit",
+  "recordAuditMany",
+  "close",
+] as const satisfies readonly (keyof IdempotencyStore)[];
+
+/**
+ * JSON snapshot of a result (what a JSON store would keep), or `undefined`
+ * if it cannot be serialized.
+ */
+function snapshot(result: unknown): string | undefined {
+  try {
+    return JSON.stringify(result ?? null);
+  } catch {
+    return undefined;
+  }
+}
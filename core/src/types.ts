@@ -1,3 +1,11 @@
+import type { MeterProvider, TracerProvider } from "@opentelemetry/api";
+import type { ComplianceProfile, ComplianceProfileName } from "./compliance";
+import type { RedactionPolicy } from "./redaction";
+import type { AuditDeliveryOptions, AuditFailureInfo } from "./dispatcher";
+import type { SerializationOptions } from "./serialization";
+import type { CircuitBreakerOptions } from "./breaker";
+import type { KeyPolicy } from "./keys";
+
 export interface EngineOptions {
   /**
    * Duration (ms) to hold the lock while the handler is running.
@@ -6,38 +14,343 @@ export interface EngineOptions {
    */
   lockTtl: number;
 
+  /**
+   * Interval (ms) at which the engine renews the lock while the handler runs.
+   * Only used if the store implements `extendLock`.
+   * Must be shorter than `lockTtl`.
+   * @default lockTtl / 3
+   */
+  lockRenewalInterval?: number;
+
   /**
    * Duration (ms) to keep the result stored for retry responses.
-   * Must be at least 86_400_000 ms (24 hours) for PCI-DSS compliance.
+   * Must be within the compliance profile's bounds – at least 86_400_000 ms
+   * (24 hours) under the default "pci-dss" profile.
    */
 
   retention: number;
 
   /**
-   * REQUIRED: Audit callback for compliance logging.
+   * Compliance profile: retention bounds, whether `onAudit` is mandatory and
+   * which audit metadata keys are redacted. Its name is recorded on every
+   * audit event.
+   * - "pci-dss": retention ≥24h, audit required
+   * - "cbn": retention ≥7 days, audit required
+   * - "none": no retention floor, audit optional
+   * - or a custom `ComplianceProfile`
+   * @default "pci-dss"
+   */
+  compliance?: ComplianceProfileName | ComplianceProfile;
+
+  /**
+   * How audit metadata is scrubbed before `onAudit` / `recordAudit`: key
+   * allow / deny lists, PII detectors (card numbers, emails, phone numbers)
+   * and masking vs dropping. Applied at every depth and to handler error
+   * messages.
+   * @default deny the profile's `redactMetadataKeys` (always applied), all
+   *   detectors, "drop"
+   */
+  redaction?: RedactionPolicy;
+
+  /**
+   * REQUIRED (unless the compliance profile makes audit optional): Audit
+   * callback for compliance logging.
    * Called for every significant event (hit, miss, store, mismatch, etc.).
-   * Must not throw — audit failures are silently ignored.
+   * Failures never affect business logic: the event is queued and retried
+   * (see `auditDelivery`) and reported to `onAuditFailure`.
+   */
+  onAudit?: (event: AuditEvent) => void | Promise<void>;
+
+  /**
+   * Queue, batching and retry settings for audit delivery (`onAudit` and
+   * `store.recordAudit`).
+   * @default 10_000 queued events, batches of 100, unlimited retries with
+   *   100ms → 30s exponential backoff
+   */
+  auditDelivery?: AuditDeliveryOptions;
+
+  /**
+   * Called for every failed audit delivery attempt, and for events that are
+   * dropped (queue full, `maxAttempts` reached, `close()` timed out).
+   * Wire it to your alerting – a failing audit backend is a compliance incident.
+   */
+  onAuditFailure?: (error: unknown, info: AuditFailureInfo) => void;
+
+  /**
+   * Refuse to execute (AuditUnavailableError, HTTP 503) while audit delivery
+   * is failing or its queue is full, instead of running handlers whose
+   * audit trail may be lost.
+   * @default false
+   */
+  strictAudit?: boolean;
+
+  /**
+   * What `execute` / `executeMany` do when the store cannot be reached
+   * (a retryable StoreError, an unclassified adapter error, or an open circuit):
+   * - "reject": fail closed with LockAcquisitionError (HTTP 503)
+   * - "bypass": fail open – run the handler without idempotency protection
+   *   and audit "bypassed". ⚠️ Retries during the outage run again.
+   * - "local-lock": run the handler under an in-process lock, so concurrent
+   *   duplicates within this process are rejected (audited "bypassed").
+   *   ⚠️ Duplicates on other instances, or after the handler finished, run again.
+   * `begin` always rejects – a reservation cannot be held without the store.
+   * @default "reject"
    */
-  onAudit: (event: AuditEvent) => void | Promise<void>;
+  onStoreUnavailable?: "reject" | "bypass" | "local-lock";
+
+  /**
+   * Circuit breaker around lock acquisition: after consecutive
+   * store-unavailable failures, lock calls fail fast (and `onStoreUnavailable`
+   * applies right away) instead of each waiting for a connection timeout.
+   * `false` disables it.
+   * @default { failureThreshold: 5, resetTimeout: 10_000 }
+   */
+  circuitBreaker?: CircuitBreakerOptions | false;
+
+  /**
+   * What to do with the key when the handler times out:
+   * - "release": release the lock so clients can retry (default)
+   * - "hold": keep the key in an "unknown" state for the retention period, so
+   *   a side effect that completes late can never be duplicated. Retries get
+   *   OutcomeUnknownError until the key is reconciled manually. Requires a
+   *   store that implements `markUnknown` (rejected otherwise).
+   * @default "release"
+   */
+  onHandlerTimeout?: "release" | "hold";
+
+  /**
+   * Transform results before they reach the store and back on replay –
+   * e.g. `createEncryptionCodec(...)` for AES-256-GCM encryption at rest.
+   * Stored terminal failures are not passed through the codec.
+   * @default undefined (results stored as-is)
+   */
+  resultCodec?: ResultCodec;
+
+  /**
+   * Store results as serialized envelopes instead of handing them to the
+   * store as-is – so `Date`, `BigInt`, `Buffer`, `Map` and large integers
+   * replay unchanged – and compress large ones. Runs before `resultCodec`.
+   * Results stored without serialization stay readable.
+   * @default undefined (results stored as-is)
+   */
+  serialization?: SerializationOptions;
+
+  /**
+   * OpenTelemetry providers for spans and metrics.
+   * Without them the global providers are used – no-ops until an SDK is
+   * registered (register it before creating the engine for metrics).
+   */
+  telemetry?: {
+    tracerProvider?: TracerProvider;
+    meterProvider?: MeterProvider;
+  };
 
   /**
    * Hash algorithm used for generating fingerprints.
+   * Ignored if `fingerprintStrategy` is set.
    * @default "sha256"
    */
   fingerprintAlgorithm?: string;
 
+  /**
+   * How `engine.fingerprint()` turns request data into a fingerprint –
+   * e.g. `createJcsFingerprint(...)` for RFC 8785 canonical JSON with path
+   * selection and HMAC keying.
+   * ⚠️ Switching strategies changes fingerprints: retries of requests stored
+   * under the old strategy fail with FingerprintMismatchError.
+   * @default built-in sorted-keys JSON hash (kept for compatibility)
+   */
+  fingerprintStrategy?: FingerprintStrategy;
+
   /**
    * Prefix prepended to all storage keys.
    * Useful for namespacing (e.g., "dev:", "prod:", "tenant-123:").
    * @default ""
    */
   keyPrefix?: string;
+
+  /**
+   * Which client keys are accepted – length, charset, UUID / ULID format.
+   * Rejected keys throw InvalidIdempotencyKeyError with a `reason`.
+   * @default { maxLength: 255 }
+   */
+  keyPolicy?: KeyPolicy;
 }
 export interface ExecuteOptions {
   onAudit?: (event: AuditEvent) => void;
   handlerTimeout?: number; // ms – lock acquisition timeout
   retentionOverride?: number; // override global retention
   metadata?: Record<string, unknown>; // optional: requestId, clientId, ip, etc.
+  waitForResult?: WaitForResultOptions; // block on "locked" instead of throwing
+  isTerminalError?: (err: unknown) => boolean; // errors to persist & replay (default: TerminalError)
+  onHandlerTimeout?: "release" | "hold"; // override EngineOptions.onHandlerTimeout
+
+  /**
+   * Principal the key belongs to (tenant, user or API-client ID). Folded into
+   * the storage key, so the same key sent by two principals never collides –
+   * and one can never replay the other's result.
+   */
+  scope?: string;
+
+  /**
+   * Set to `false` for seen-set mode: only a completion marker is stored and
+   * replays resolve to `null` instead of the original result. Since no result
+   * is kept, `retentionOverride` may go below the compliance profile's floor
+   * (min 1m).
+   * @default true
+   */
+  storeResult?: boolean;
+}
+
+/**
+ * Serializable handle for a key reserved with `engine.begin`. Pass it (as
+ * JSON) to the process that performs the work, which then calls
+ * `engine.complete` or `engine.abort`.
+ *
+ * ⚠️ Carries the lock owner token – whoever holds the lease can commit a
+ * result for the key. Only pass it through trusted queues.
+ */
+export interface Lease {
+  key: string; // client-provided key (without keyPrefix)
+  scope?: string; // scope the key was reserved in
+  fingerprint: string; // fingerprint the key was reserved with
+  token: string; // lock owner token
+  expiresAt: string; // ISO 8601 – complete, abort or renew before this
+}
+
+/**
+ * Options for `engine.begin`.
+ */
+export interface BeginOptions extends Pick<
+  ExecuteOptions,
+  "onAudit" | "metadata" | "waitForResult" | "scope"
+> {
+  /**
+   * How long the reservation lasts (ms) before the key can be taken over.
+   * Cover the expected queue delay plus processing time, or call `renew`.
+   * Must be between 50ms and 24h.
+   * @default lockTtl
+   */
+  leaseTtl?: number;
+}
+
+/**
+ * Result of `engine.begin`: either a fresh reservation, or the stored result
+ * of an earlier completion (replayed exactly like `execute` does).
+ */
+export type BeginResult<T = unknown> =
+  { status: "acquired"; lease: Lease } | { status: "replayed"; result: T };
+
+/**
+ * Options for `engine.complete`.
+ */
+export interface CompleteOptions extends Pick<
+  ExecuteOptions,
+  "onAudit" | "metadata" | "retentionOverride"
+> {}
+
+/**
+ * Options for `engine.abort`.
+ */
+export interface AbortOptions extends CompleteOptions {
+  error?: unknown; // why the work failed – persisted for replay if terminal
+  isTerminalError?: (err: unknown) => boolean; // default: TerminalError
+}
+
+/**
+ * Options for `engine.executeMany` – the per-request options of `execute`
+ * (applied to every item), minus wait-for-result mode.
+ */
+export interface ExecuteManyOptions extends Omit<
+  ExecuteOptions,
+  "waitForResult"
+> {
+  concurrency?: number; // max handlers running at once (default 10)
+}
+
+/**
+ * One item of a batch: its own idempotency key and fingerprint, plus the
+ * input handed to the batch handler.
+ */
+export interface BatchItem<I = unknown> {
+  key: string;
+  fingerprint: string;
+  input: I;
+}
+
+/**
+ * Per-item result of `engine.executeMany`, in input order. A failing item
+ * never fails the batch – its error is reported here instead:
+ * - "hit": stored result replayed, handler not run
+ * - "executed": handler ran and its result was stored
+ * - "locked": another request holds the key (OperationInProgressError)
+ * - "mismatch": key reused with a different payload (FingerprintMismatchError)
+ * - "error": anything else – handler error, replayed terminal failure,
+ *   timeout, lost lock, unknown outcome, invalid key or store failure
+ */
+export type BatchItemOutcome<T> =
+  | { key: string; status: "hit" | "executed"; result: T }
+  | { key: string; status: "locked" | "mismatch" | "error"; error: unknown };
+
+/**
+ * Turns request data into a fingerprint string. Must be deterministic:
+ * equal payloads MUST produce equal fingerprints across processes and deploys.
+ */
+export interface FingerprintStrategy {
+  fingerprint(data: unknown): string;
+}
+
+/**
+ * Encodes handler results for storage and decodes them on replay
+ * (encryption, compression, ...). Must round-trip: decode(encode(x)) ≡ x.
+ */
+export interface ResultCodec {
+  encode(
+    value: unknown,
+    context: ResultCodecContext,
+  ): unknown | Promise<unknown>;
+  decode(
+    stored: unknown,
+    context: ResultCodecContext,
+  ): unknown | Promise<unknown>;
+}
+
+export interface ResultCodecContext {
+  key: string; // full storage key (with keyPrefix)
+}
+
+/**
+ * Context passed to every handler.
+ */
+export interface HandlerContext {
+  /**
+   * Aborted when the handler exceeds `handlerTimeout`.
+   * Forward it to fetch / payment SDKs so timed-out work is cancelled.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Wait-for-result mode: when a concurrent request holds the lock, block until
+ * it commits and return the stored result instead of throwing
+ * OperationInProgressError right away.
+ *
+ * If the store implements `waitForChange` (e.g. Redis pub/sub), the engine is
+ * woken up as soon as the lock settles; otherwise it polls.
+ */
+export interface WaitForResultOptions {
+  /**
+   * Maximum time (ms) to wait before giving up with OperationInProgressError.
+   * Must be between 0 and 300_000 (5m).
+   */
+  timeoutMs: number;
+
+  /**
+   * Interval (ms) between lock checks. With a subscription-capable store this
+   * is only a safety net for missed notifications (e.g. lock TTL expiry).
+   * @default 100
+   */
+  pollIntervalMs?: number;
 }
 
 /**
@@ -49,6 +362,26 @@ export interface ExecuteOptions {
  * - Safe audit handling (no sensitive data)
  * - Best-effort cleanup
  */
+/**
+ * Outcome of `IdempotencyStore.atomicCheckAndLock`.
+ */
+export type CheckAndLockResult =
+  | {
+      status: "exists";
+      fingerprint: string;
+      result: unknown;
+      error?: StoredError;
+      createdAt?: string;
+    }
+  | {
+      status: "locked";
+      // Whether the lock holder's fingerprint equals the one provided –
+      // undefined if the lock record carries no fingerprint
+      fingerprintMatches?: boolean;
+    }
+  | { status: "unknown" }
+  | { status: "acquired"; token: string };
+
 export interface IdempotencyStore {
   /**
    * ATOMIC operation: Check if a result already exists for this key OR attempt to acquire a lock.
@@ -62,49 +395,181 @@ export interface IdempotencyStore {
    *
    * @returns Promise with one of three outcomes:
    *   - Result already exists → return it so engine can compare fingerprints
-   *   - Already locked/processing → tell engine to reject with 409/429
-   *   - Lock acquired → engine may proceed to execute handler
+   *     (`error` is set instead of `result` for a stored terminal failure)
+   *   - Already locked/processing → tell engine to reject with 409/429.
+   *     Locks must record the fingerprint they were acquired with, and
+   *     `fingerprintMatches` reports whether it equals the provided one, so
+   *     a concurrent retry with a different payload is rejected as a mismatch
+   *   - Held as "unknown" after a timeout (see `markUnknown`) → reject, never re-run
+   *   - Lock acquired → engine may proceed to execute handler. The returned
+   *     `token` is an opaque owner token that must be passed back to
+   *     `commitResult` / `releaseLock` so a stale worker can never touch a
+   *     lock (or result) that now belongs to someone else.
    */
   atomicCheckAndLock(
     key: string,
     fingerprint: string,
     lockTtlMs: number,
-  ): Promise<
-    | {
-        status: "exists";
-        fingerprint: string;
-        result: unknown;
-        createdAt?: string;
-      }
-    | { status: "locked" }
-    | { status: "acquired" }
-  >;
+  ): Promise<CheckAndLockResult>;
+
+  /**
+   * Optional (batch): `atomicCheckAndLock` for many keys in one round trip
+   * (multi-key script, pipeline, ...). Used by `engine.executeMany`.
+   *
+   * Each entry must behave exactly like its own `atomicCheckAndLock` call;
+   * the batch as a whole need not be atomic. Entries for the same key are
+   * processed in order (only the first can acquire).
+   *
+   * @returns One result per entry, in order – or an Error for an entry that
+   *   failed on its own (reject only if the whole batch failed)
+   */
+  atomicCheckAndLockMany?(
+    entries: { key: string; fingerprint: string }[],
+    lockTtlMs: number,
+  ): Promise<(CheckAndLockResult | Error)[]>;
 
   /**
    * Commit the final result after handler execution succeeded.
    *
    * This replaces the temporary "processing" state with the actual result.
-   * Must be atomic (conditional write / transaction).
+   * Must be atomic compare-and-set: only commit if the lock is still held by `token`.
    *
    * @param key - The idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
    * @param fingerprint - The fingerprint that was used
    * @param result - The handler's return value (will be serialized by the adapter)
    * @param retentionMs - How long to keep the result before expiration
+   *
+   * @returns `true` if committed, `false` if the lock is no longer owned by
+   *   `token` (expired, released or taken over by another request)
    */
   commitResult(
     key: string,
+    token: string,
     fingerprint: string,
     result: unknown,
     retentionMs: number,
-  ): Promise<void>;
+  ): Promise<boolean>;
+
+  /**
+   * Optional (batch): `commitResult` for many keys in one round trip.
+   * Same per-entry compare-and-set semantics as `commitResult`.
+   *
+   * @returns One result per entry, in order – `false` if that lock was lost,
+   *   or an Error for an entry that failed on its own
+   */
+  commitResultMany?(
+    entries: {
+      key: string;
+      token: string;
+      fingerprint: string;
+      result: unknown;
+    }[],
+    retentionMs: number,
+  ): Promise<(boolean | Error)[]>;
+
+  /**
+   * Optional: Commit a terminal failure (e.g. "card declined") after the handler threw.
+   *
+   * Same compare-and-set semantics as `commitResult`, but stores a "failed"
+   * record whose `error` is returned by later `atomicCheckAndLock` calls so the
+   * engine can replay it. Without this method every failure releases the lock.
+   *
+   * @returns `true` if committed, `false` if the lock is no longer owned by `token`
+   */
+  commitFailure?(
+    key: string,
+    token: string,
+    fingerprint: string,
+    error: StoredError,
+    retentionMs: number,
+  ): Promise<boolean>;
 
   /**
    * Optional: Release the lock early.
    *
    * Many implementations rely on TTL expiration instead of explicit release.
+   * Must be compare-and-delete: only remove the key if it is still a
+   * "processing" lock owned by `token`.
    * If implemented, should be best-effort (not throwing on failure).
    */
-  releaseLock?(key: string): Promise<void>;
+  releaseLock?(key: string, token: string): Promise<void>;
+
+  /**
+   * Optional: Extend the lock lease for a long-running handler.
+   *
+   * Must be compare-and-set: only extend if the key is still a "processing"
+   * lock owned by `token`. The engine calls this on an interval while the
+   * handler runs and stops at the first `false`.
+   *
+   * @param key - The idempotency key
+   * @param token - Owner token returned by `atomicCheckAndLock`
+   * @param ttlMs - New lease duration, counted from now
+   *
+   * @returns `true` if extended, `false` if the lock is no longer owned by `token`
+   */
+  extendLock?(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Optional: Turn a timed-out lock into an "unknown" record.
+   *
+   * Compare-and-set on `token`. The record must survive for `ttlMs` (the
+   * result retention) and make `atomicCheckAndLock` return `{ status: "unknown" }`.
+   * Without this method, "hold" simply skips the release and the lock expires
+   * after `lockTtl`.
+   *
+   * @returns `true` if marked, `false` if the lock is no longer owned by `token`
+   */
+  markUnknown?(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Optional: Resolve when the lock on `key` settles (result committed or lock
+   * released), or after `timeoutMs` – whichever comes first.
+   *
+   * Used by wait-for-result mode to avoid pure polling. Implementations may
+   * resolve spuriously; the engine always re-checks the key afterwards.
+   * Must never reject.
+   */
+  waitForChange?(key: string, timeoutMs: number): Promise<void>;
+
+  /**
+   * Optional (admin): Read the raw state of a key without locking it.
+   *
+   * Expired records must be reported as missing. The lock owner token must
+   * never be returned.
+   *
+   * @returns The record, or `null` if the key does not exist
+   */
+  get?(key: string): Promise<StoredRecord | null>;
+
+  /**
+   * Optional (admin): Delete a key in any state (lock, result, failure, unknown).
+   *
+   * @returns `true` if a live record was deleted
+   */
+  delete?(key: string): Promise<boolean>;
+
+  /**
+   * Optional (admin): List live keys starting with `prefix`, one page at a time.
+   *
+   * Pages may contain duplicates across calls (e.g. Redis SCAN); `count` is a
+   * hint, not a hard limit.
+   *
+   * @returns Keys (full, i.e. still prefixed) and the cursor for the next
+   *   page – `undefined` once the scan is complete
+   */
+  scan?(
+    prefix: string,
+    options: { cursor?: string; count: number },
+  ): Promise<ScanPage>;
+
+  /**
+   * Optional (admin): Remove a stuck "processing" lock or an "unknown" record,
+   * regardless of owner. Committed results and failures are never touched.
+   *
+   * @returns `true` if a lock / unknown record was removed
+   */
+  forceUnlock?(key: string): Promise<boolean>;
 
   /**
    * Optional: Record an audit event.
@@ -117,6 +582,13 @@ export interface IdempotencyStore {
    */
   recordAudit?(event: AuditEvent): Promise<void>;
 
+  /**
+   * Optional: Record several audit events in one round trip, in order.
+   * Used instead of `recordAudit` when the engine delivers queued events in
+   * batches. All-or-nothing – throw if any event was not recorded.
+   */
+  recordAuditMany?(events: AuditEvent[]): Promise<void>;
+
   /**
    * Optional: Called during engine shutdown / health checks.
    * Allows adapters to clean up resources (close connections, flush buffers, etc.).
@@ -124,6 +596,57 @@ export interface IdempotencyStore {
   close?(): Promise<void>;
 }
 
+/**
+ * Serialized terminal failure – enough to rethrow an equivalent error on replay.
+ * Never includes stack traces or causes.
+ */
+export interface StoredError {
+  name: string;
+  message: string;
+  code?: string;
+  status?: number;
+}
+
+/**
+ * Raw state of a key, as returned by `IdempotencyStore.get` / `engine.inspect`.
+ * Never includes the lock owner token.
+ */
+export interface StoredRecord {
+  status: "processing" | "committed" | "failed" | "unknown";
+  fingerprint?: string; // fingerprint the lock was acquired / outcome stored with
+  result?: unknown; // committed records only
+  error?: StoredError; // failed records only
+  createdAt?: string; // ISO 8601 – when the outcome was stored
+  lockAcquiredAt?: string; // ISO 8601 – processing locks only
+  expiresAt?: string; // ISO 8601 – lock expiry or end of retention
+}
+
+/**
+ * One page of keys returned by `IdempotencyStore.scan` / `engine.list`.
+ */
+export interface ScanPage {
+  keys: string[];
+  cursor?: string; // pass back to get the next page; undefined when done
+}
+
+/**
+ * Options accepted by every admin method on the engine
+ * (`inspect`, `list`, `purge`, `forceUnlock`).
+ */
+export interface AdminOptions {
+  onAudit?: (event: AuditEvent) => void | Promise<void>; // per-call audit override
+  metadata?: Record<string, unknown>; // e.g. operator id, ticket number – goes into audit
+  scope?: string; // principal the key belongs to (see ExecuteOptions.scope)
+}
+
+/**
+ * Options for `engine.list`.
+ */
+export interface ListOptions extends AdminOptions {
+  cursor?: string; // from the previous page
+  count?: number; // page size hint (default 100)
+}
+
 /**
  * Audit event shape – intentionally minimal and safe for compliance
  */
@@ -137,10 +660,21 @@ export interface AuditEvent {
     | "locked" // already processing → rejected
     | "fingerprint_mismatch" // security-relevant event
     | "stored" // result successfully committed
+    | "failure_stored" // terminal failure committed for replay
     | "error" // handler or internal error
     | "timeout" // handler timed out
-    | "lock_released"; // lock explicitly released
+    | "lock_released" // lock explicitly released
+    | "lock_extended" // lock lease renewed while handler runs
+    | "marked_unknown" // timed-out key held in "unknown" state
+    | "outcome_unknown" // rejected – earlier attempt timed out
+    | "admin_inspect" // key state read via engine.inspect
+    | "admin_list" // keys listed via engine.list (key = listed prefix)
+    | "admin_purge" // key deleted via engine.purge
+    | "admin_force_unlock" // stuck lock removed via engine.forceUnlock
+    | "lock_lost" // lock expired or taken over before commit
+    | "bypassed"; // store unavailable – handler run without store protection
 
+  profile?: string; // compliance profile in effect (set by the engine)
   fingerprint?: string; // current request fingerprint
   storedFingerprint?: string; // only for mismatch events
 
@@ -0,0 +1,205 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type Mock,
+} from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IdempotencyEngine } from "@idempotkit/core";
+import { MemoryStore } from "../../../../core/src/__tests__/mocks/memory-store";
+import { idempotencyMiddleware } from "../index";
+
+let server: Server;
+let baseUrl: string;
+let engine: IdempotencyEngine;
+let store: MemoryStore;
+let charge: Mock<(...args: unknown[]) => void>;
+
+const listen = (app: express.Express) =>
+  new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+
+const post = (path: string, body: unknown, key?: string) =>
+  fetch(baseUrl + path, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(key ? { "idempotency-key": key } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+beforeEach(async () => {
+  store = new MemoryStore();
+  engine = new IdempotencyEngine(store, {
+    lockTtl: 30_000,
+    retention: 86_400_000,
+    onAudit: vi.fn(),
+  });
+  charge = vi.fn();
+
+  const app = express();
+  app.use(express.json());
+  app.use(idempotencyMiddleware(engine, { fingerprintFields: ["amount"] }));
+  app.post("/charges", (req, res) => {
+    charge(req.body);
+    res
+      .status(201)
+      .setHeader("Location", "/charges/ch_1")
+      .json({ id: "ch_1", amount: req.body.amount });
+  });
+  app.post("/flaky", (_req, res) => {
+    charge();
+    res.status(502).json({ error: "upstream" });
+  });
+  app.get("/charges", (_req, res) => {
+    charge();
+    res.json([]);
+  });
+  await listen(app);
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("idempotencyMiddleware (Express)", () => {
+  it("should replay the full response on retries", async () => {
+    const first = await post("/charges", { amount: 100 }, "key-1");
+    const second = await post("/charges", { amount: 100 }, "key-1");
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(second.headers.get("location")).toBe("/charges/ch_1");
+    expect(second.headers.get("content-type")).toContain("application/json");
+    expect(second.headers.get("idempotent-replayed")).toBe("true");
+    expect(first.headers.get("idempotent-replayed")).toBeNull();
+    expect(await second.json()).toEqual(await first.json());
+  });
+
+  it("should commit before the response reaches the client", async () => {
+    // A slow commit: the response must wait for it, so the retry replays
+    const commit = store.commitResult.bind(store);
+    vi.spyOn(store, "commitResult").mockImplementation(async (...args) => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return commit(...args);
+    });
+
+    const first = await post("/charges", { amount: 100 }, "key-slow");
+    const retry = await post("/charges", { amount: 100 }, "key-slow");
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("idempotent-replayed")).toBe("true");
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  it("should still send the route's response if the commit fails", async () => {
+    vi.spyOn(store, "commitResult").mockResolvedValue(false); // lock lost
+
+    const res = await post("/charges", { amount: 100 }, "key-lost");
+
+    expect(res.status).toBe(201);
+    expect(res.headers.get("location")).toBe("/charges/ch_1");
+    expect(await res.json()).toEqual({ id: "ch_1", amount: 100 });
+  });
+
+  it("should abort the route's signal when the handler times out", async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const app = express();
+    app.use(express.json());
+    app.use(
+      idempotencyMiddleware(engine, {
+        executeOptions: () => ({ handlerTimeout: 50 }),
+      }),
+    );
+    app.post("/slow", (_req, res) => {
+      const { signal } = res.locals.idempotency!;
+      setTimeout(() => {
+        if (signal.aborted) return;
+        charge();
+        res.status(201).json({ id: "ch_1" });
+      }, 150);
+    });
+    await listen(app);
+
+    const res = await post("/slow", { amount: 100 }, "key-timeout");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(res.status).toBe(503);
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  it("should only fingerprint the selected fields", async () => {
+    await post("/charges", { amount: 100, note: "a" }, "key-2");
+    const retry = await post("/charges", { amount: 100, note: "b" }, "key-2");
+
+    expect(retry.status).toBe(201);
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  it("should answer a tampered retry with problem+json", async () => {
+    await post("/charges", { amount: 100 }, "key-3");
+    const tampered = await post("/charges", { amount: 1000 }, "key-3");
+
+    expect(tampered.status).toBe(422);
+    expect(tampered.headers.get("content-type")).toContain(
+      "application/problem+json",
+    );
+    expect(await tampered.json()).toMatchObject({
+      type: "urn:idempotkit:problem:fingerprint-mismatch",
+      status: 422,
+      code: "FINGERPRINT_MISMATCH",
+    });
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache 5xx responses", async () => {
+    await post("/flaky", {}, "key-4");
+    await post("/flaky", {}, "key-4");
+
+    expect(charge).toHaveBeenCalledTimes(2);
+  });
+
+  it("should pass through requests without a key or with other methods", async () => {
+    await post("/charges", { amount: 100 });
+    await post("/charges", { amount: 100 });
+    await fetch(baseUrl + "/charges", { headers: { "idempotency-key": "k" } });
+    await fetch(baseUrl + "/charges", { headers: { "idempotency-key": "k" } });
+
+    expect(charge).toHaveBeenCalledTimes(4);
+  });
+
+  it("should reject missing keys when required", async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const app = express();
+    app.use(express.json());
+    app.use(
+      idempotencyMiddleware(engine, {
+        required: true,
+        headerName: "X-Request-Key",
+      }),
+    );
+    app.post("/charges", (_req, res) => {
+      res.json({});
+    });
+    await listen(app);
+
+    const res = await post("/charges", { amount: 100 });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "IDEMPOTENCY_KEY_REQUIRED",
+      detail: "X-Request-Key header is required",
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  CapturedResponse,
+  ExecuteOptions,
+  HandlerContext,
+  IdempotencyEngine,
+  IdempotencyError,
+  InvalidIdempotencyKeyError,
+  PROBLEM_CONTENT_TYPE,
+  pickFields,
+  problemHeaders,
+  toProblemDetails,
+} from "@idempotkit/core";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+declare global {
+  namespace Express {
+    interface Locals {
+      /**
+       * Engine context of the idempotent execution, set for routes the
+       * middleware runs. Pass `signal` to fetch / your SDKs – it is aborted
+       * when the handler times out.
+       */
+      idempotency?: HandlerContext;
+    }
+  }
+}
+
+export interface ExpressIdempotencyOptions {
+  /**
+   * Request header carrying the client's idempotency key.
+   * @default "Idempotency-Key"
+   */
+  headerName?: string;
+
+  /**
+   * HTTP methods the middleware applies to. Other methods pass straight through.
+   * @default ["POST", "PATCH"]
+   */
+  methods?: string[];
+
+  /**
+   * Reject requests without the header (400 problem+json) instead of letting
+   * them through unprotected.
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Top-level body fields included in the fingerprint (default: whole body).
+   * Ignored if `fingerprint` is provided.
+   */
+  fingerprintFields?: string[];
+
+  /**
+   * Custom fingerprint input. The result is passed to `engine.fingerprint()`.
+   * @default { method, path, body }
+   */
+  fingerprint?: (req: Request) => unknown;
+
+  /**
+   * Response headers captured on first execution and replayed on retries.
+   * @default ["content-type", "location"]
+   */
+  replayHeaders?: string[];
+
+  /**
+   * Per-request engine options (metadata, timeouts, wait-for-result, ...).
+   */
+  executeOptions?: (req: Request) => ExecuteOptions | undefined;
+}
+
+/**
+ * Thrown inside the engine handler for responses that must not be cached
+ * (5xx, aborted connections). The response has already been sent.
+ */
+class UncacheableResponse extends Error {
+  constructor(message = "response is not cacheable") {
+    super(message);
+    this.name = "UncacheableResponse";
+  }
+}
+
+/**
+ * Express middleware that handles the Idempotency-Key header end-to-end.
+ *
+ * - First request: runs the route, captures status / selected headers / body
+ *   and commits them through `engine.execute` before the response is sent
+ * - Retries: replays the captured response with `Idempotent-Replayed: true`
+ * - Idempotency errors: `application/problem+json` with the error's HTTP status
+ *
+ * 5xx responses are never cached, so clients can retry them.
+ *
+ * The route receives the engine's `HandlerContext` as `res.locals.idempotency`
+ * – its `signal` is aborted when the handler times out.
+ *
+ * @example
+ *   app.use(express.json());
+ *   app.post("/charges", idempotencyMiddleware(engine), async (req, res) => {
+ *     const { signal } = res.locals.idempotency!;
+ *     res.status(201).json(await createCharge(req.body, { signal }));
+ *   });
+ */
+export function idempotencyMiddleware(
+  engine: IdempotencyEngine,
+  options: ExpressIdempotencyOptions = {},
+): RequestHandler {
+  const headerName = options.headerName ?? "Idempotency-Key";
+  const methods = new Set(
+    (options.methods ?? ["POST", "PATCH"]).map((m) => m.toUpperCase()),
+  );
+  const replayHeaders = (
+    options.replayHeaders ?? ["content-type", "location"]
+  ).map((h) => h.toLowerCase());
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!methods.has(req.method.toUpperCase())) return next();
+
+    const key = req.get(headerName);
+    if (key === undefined) {
+      if (!options.required) return next();
+      return sendProblem(
+        res,
+        new InvalidIdempotencyKeyError(`${headerName} header is required`),
+      );
+    }
+
+    const fingerprint = engine.fingerprint(
+      options.fingerprint
+        ? options.fingerprint(req)
+        : {
+            method: req.method,
+            path: req.baseUrl + req.path,
+            body: pickFields(req.body, options.fingerprintFields),
+          },
+    );
+
+    let flush: (() => boolean) | undefined;
+    const run = (ctx: HandlerContext) =>
+      new Promise<CapturedResponse>((resolve, reject) => {
+        res.locals.idempotency = ctx;
+        flush = captureResponse(res, replayHeaders, resolve, reject);
+        next();
+      });
+
+    try {
+      const response = await engine.execute(
+        key,
+        fingerprint,
+        run,
+        options.executeOptions?.(req),
+      );
+
+      // Committed – only now does the client see the route's response, so an
+      // immediate retry hits the stored result instead of the lock
+      if (flush) flush();
+      else replay(res, response);
+    } catch (err) {
+      // The route's response is sent even if the commit failed (the engine
+      // audits it), as in the Fastify plugin
+      if (flush?.() || err instanceof UncacheableResponse || res.headersSent) {
+        return;
+      }
+      if (err instanceof IdempotencyError) return sendProblem(res, err);
+      next(err);
+    }
+  };
+}
+
+/**
+ * Wrap `res.write` / `res.end` to buffer the response until it is committed.
+ *
+ * @returns `flush`: restores `write` / `end` and sends the buffered response;
+ *   `true` if the route had ended it (otherwise nothing is sent)
+ */
+function captureResponse(
+  res: Response,
+  replayHeaders: string[],
+  resolve: (response: CapturedResponse) => void,
+  reject: (err: Error) => void,
+): () => boolean {
+  const chunks: Buffer[] = [];
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (chunk == null || typeof chunk === "function") return;
+    chunks.push(
+      typeof chunk === "string"
+        ? Buffer.from(
+            chunk,
+            typeof encoding === "string"
+              ? (encoding as BufferEncoding)
+              : "utf8",
+          )
+        : Buffer.from(chunk as Uint8Array),
+    );
+  };
+
+  const write = res.write as (...args: unknown[]) => boolean;
+  const end = res.end as (...args: unknown[]) => Response;
+  const writes: unknown[][] = [];
+  let ended: unknown[] | undefined;
+
+  res.write = ((chunk: unknown, ...rest: unknown[]) => {
+    collect(chunk, rest[0]);
+    writes.push([chunk, ...rest]);
+    return true;
+  }) as Response["write"];
+
+  res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+    if (ended) return res;
+    collect(chunk, rest[0]);
+    ended = [chunk, ...rest];
+
+    if (res.statusCode >= 500) {
+      reject(new UncacheableResponse(`status ${res.statusCode}`));
+    } else {
+      const headers: Record<string, string> = {};
+      for (const name of replayHeaders) {
+        const value = res.getHeader(name);
+        if (value !== undefined) headers[name] = String(value);
+      }
+      resolve({
+        statusCode: res.statusCode,
+        headers,
+        body: Buffer.concat(chunks).toString("base64"),
+      });
+    }
+
+    return res;
+  }) as Response["end"];
+
+  // No-op if the response already ended
+  res.once("close", () =>
+    reject(new UncacheableResponse("connection closed before response ended")),
+  );
+
+  return () => {
+    res.write = write as Response["write"];
+    res.end = end as Response["end"];
+    if (ended && !res.writableEnded) {
+      for (const args of writes) write.apply(res, args);
+      end.apply(res, ended);
+    }
+    return ended !== undefined;
+  };
+}
+
+function replay(res: Response, response: CapturedResponse) {
+  res.status(response.statusCode);
+  for (const [name, value] of Object.entries(response.headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader("Idempotent-Replayed", "true");
+  res.end(Buffer.from(response.body, "base64"));
+}
+
+function sendProblem(res: Response, err: IdempotencyError) {
+  res.status(err.status);
+  res.setHeader("Content-Type", PROBLEM_CONTENT_TYPE);
+  for (const [name, value] of Object.entries(problemHeaders(err))) {
+    res.setHeader(name, value);
+  }
+  res.end(JSON.stringify(toProblemDetails(err)));
+}
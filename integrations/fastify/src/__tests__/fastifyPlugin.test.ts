@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { FastifyInstance } from "fastify";
+import { IdempotencyEngine } from "@idempotkit/core";
+import { MemoryStore } from "../../../../core/src/__tests__/mocks/memory-store";
+import { idempotencyPlugin } from "../index";
+
+let app: FastifyInstance;
+let charge: ReturnType<typeof vi.fn>;
+
+const post = (url: string, payload: object, key?: string) =>
+  app.inject({
+    method: "POST",
+    url,
+    payload,
+    headers: key ? { "idempotency-key": key } : {},
+  });
+
+beforeEach(async () => {
+  const engine = new IdempotencyEngine(new MemoryStore(), {
+    lockTtl: 30_000,
+    retention: 86_400_000,
+    onAudit: vi.fn(),
+  });
+  charge = vi.fn();
+
+  app = Fastify();
+  await app.register(idempotencyPlugin, {
+    engine,
+    fingerprintFields: ["amount"],
+  });
+  app.post<{ Body: { amount: number } }>("/charges", async (request, reply) => {
+    charge(request.body);
+    reply.code(201).header("Location", "/charges/ch_1");
+    return { id: "ch_1", amount: request.body.amount };
+  });
+  app.post("/flaky", async (_request, reply) => {
+    charge();
+    reply.code(502);
+    return { error: "upstream" };
+  });
+  app.post("/boom", async () => {
+    charge();
+    throw new Error("unexpected");
+  });
+  await app.ready();
+});
+
+afterEach(async () => {
+  await app.close();
+});
+
+describe("idempotencyPlugin (Fastify)", () => {
+  it("should replay the full response on retries", async () => {
+    const first = await post("/charges", { amount: 100 }, "key-1");
+    const second = await post("/charges", { amount: 100 }, "key-1");
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(first.statusCode).toBe(201);
+    expect(second.statusCode).toBe(201);
+    expect(second.headers["location"]).toBe("/charges/ch_1");
+    expect(second.headers["content-type"]).toContain("application/json");
+    expect(second.headers["idempotent-replayed"]).toBe("true");
+    expect(first.headers["idempotent-replayed"]).toBeUndefined();
+    expect(second.json()).toEqual(first.json());
+  });
+
+  it("should answer a tampered retry with problem+json", async () => {
+    await post("/charges", { amount: 100 }, "key-2");
+    const tampered = await post("/charges", { amount: 1000 }, "key-2");
+
+    expect(tampered.statusCode).toBe(422);
+    expect(tampered.headers["content-type"]).toContain(
+      "application/problem+json",
+    );
+    expect(tampered.json()).toMatchObject({
+      type: "urn:idempotkit:problem:fingerprint-mismatch",
+      code: "FINGERPRINT_MISMATCH",
+    });
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache 5xx responses or thrown errors", async () => {
+    await post("/flaky", {}, "key-3");
+    await post("/flaky", {}, "key-3");
+    await post("/boom", {}, "key-4");
+    const retry = await post("/boom", {}, "key-4");
+
+    expect(retry.statusCode).toBe(500);
+    expect(charge).toHaveBeenCalledTimes(4);
+  });
+
+  it("should pass through requests without a key", async () => {
+    await post("/charges", { amount: 100 });
+    await post("/charges", { amount: 100 });
+
+    expect(charge).toHaveBeenCalledTimes(2);
+  });
+});
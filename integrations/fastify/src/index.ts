@@ -0,0 +1,239 @@
+import {
+  CapturedResponse,
+  ExecuteOptions,
+  IdempotencyEngine,
+  IdempotencyError,
+  InvalidIdempotencyKeyError,
+  PROBLEM_CONTENT_TYPE,
+  pickFields,
+  problemHeaders,
+  toProblemDetails,
+} from "@idempotkit/core";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import fp from "fastify-plugin";
+
+export interface FastifyIdempotencyOptions {
+  /** Engine used for every idempotent route */
+  engine: IdempotencyEngine;
+
+  /**
+   * Request header carrying the client's idempotency key.
+   * @default "Idempotency-Key"
+   */
+  headerName?: string;
+
+  /**
+   * HTTP methods the plugin applies to. Other methods pass straight through.
+   * @default ["POST", "PATCH"]
+   */
+  methods?: string[];
+
+  /**
+   * Reject requests without the header (400 problem+json) instead of letting
+   * them through unprotected.
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Top-level body fields included in the fingerprint (default: whole body).
+   * Ignored if `fingerprint` is provided.
+   */
+  fingerprintFields?: string[];
+
+  /**
+   * Custom fingerprint input. The result is passed to `engine.fingerprint()`.
+   * @default { method, path, body }
+   */
+  fingerprint?: (request: FastifyRequest) => unknown;
+
+  /**
+   * Response headers captured on first execution and replayed on retries.
+   * @default ["content-type", "location"]
+   */
+  replayHeaders?: string[];
+
+  /**
+   * Per-request engine options (metadata, timeouts, wait-for-result, ...).
+   */
+  executeOptions?: (request: FastifyRequest) => ExecuteOptions | undefined;
+}
+
+/**
+ * Engine execution waiting for the route's response (set in preHandler,
+ * settled in onSend).
+ */
+interface PendingExecution {
+  resolve: (response: CapturedResponse) => void;
+  reject: (err: Error) => void;
+  execution: Promise<CapturedResponse>;
+}
+
+/**
+ * Rejects the engine handler for responses that must not be cached
+ * (5xx, streams). The response is still sent to the client.
+ */
+class UncacheableResponse extends Error {
+  constructor(message = "response is not cacheable") {
+    super(message);
+    this.name = "UncacheableResponse";
+  }
+}
+
+const pending = new WeakMap<FastifyRequest, PendingExecution>();
+
+const plugin: FastifyPluginAsync<FastifyIdempotencyOptions> = async (
+  fastify,
+  options,
+) => {
+  const { engine } = options;
+  const headerName = (options.headerName ?? "Idempotency-Key").toLowerCase();
+  const methods = new Set(
+    (options.methods ?? ["POST", "PATCH"]).map((m) => m.toUpperCase()),
+  );
+  const replayHeaders = (
+    options.replayHeaders ?? ["content-type", "location"]
+  ).map((h) => h.toLowerCase());
+
+  fastify.addHook("preHandler", async (request, reply) => {
+    if (!methods.has(request.method.toUpperCase())) return;
+
+    const header = request.headers[headerName];
+    const key = Array.isArray(header) ? header[0] : header;
+    if (key === undefined) {
+      if (!options.required) return;
+      return sendProblem(
+        reply,
+        new InvalidIdempotencyKeyError(
+          `${options.headerName ?? "Idempotency-Key"} header is required`,
+        ),
+      );
+    }
+
+    const fingerprint = engine.fingerprint(
+      options.fingerprint
+        ? options.fingerprint(request)
+        : {
+            method: request.method,
+            path: request.url.split("?")[0],
+            body: pickFields(request.body, options.fingerprintFields),
+          },
+    );
+
+    let settle!: Pick<PendingExecution, "resolve" | "reject">;
+    const captured = new Promise<CapturedResponse>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    let markStarted!: () => void;
+    const started = new Promise<"started">((resolve) => {
+      markStarted = () => resolve("started");
+    });
+
+    const execution = engine.execute(
+      key,
+      fingerprint,
+      () => {
+        markStarted();
+        return captured;
+      },
+      options.executeOptions?.(request),
+    );
+
+    // Either the lock was acquired (→ run the route) or the engine settled
+    // without running the handler (→ replay or error)
+    const outcome = await Promise.race([
+      started,
+      execution.then(
+        (response) => ({ response }),
+        (error: unknown) => ({ error }),
+      ),
+    ]);
+
+    if (outcome === "started") {
+      pending.set(request, { ...settle, execution });
+      return;
+    }
+
+    if ("response" in outcome) {
+      return replay(reply, outcome.response);
+    }
+
+    if (outcome.error instanceof IdempotencyError) {
+      return sendProblem(reply, outcome.error);
+    }
+    throw outcome.error;
+  });
+
+  fastify.addHook("onSend", async (request, reply, payload) => {
+    const execution = pending.get(request);
+    if (!execution) return payload;
+    pending.delete(request);
+
+    const body = toBuffer(payload);
+    if (reply.statusCode >= 500 || !body) {
+      execution.reject(
+        new UncacheableResponse(
+          body ? `status ${reply.statusCode}` : "streamed response",
+        ),
+      );
+    } else {
+      const headers: Record<string, string> = {};
+      for (const name of replayHeaders) {
+        const value = reply.getHeader(name);
+        if (value !== undefined) headers[name] = String(value);
+      }
+      execution.resolve({
+        statusCode: reply.statusCode,
+        headers,
+        body: body.toString("base64"),
+      });
+    }
+
+    // Commit before the client sees the response, so an immediate retry hits
+    // the stored result instead of the lock. Commit failures are audited by
+    // the engine and never break the response.
+    await execution.execution.catch(() => {});
+    return payload;
+  });
+};
+
+/**
+ * Fastify plugin that handles the Idempotency-Key header end-to-end.
+ *
+ * - First request: runs the route, captures status / selected headers / body
+ *   and commits them through `engine.execute` before the response is sent
+ * - Retries: replays the captured response with `Idempotent-Replayed: true`
+ * - Idempotency errors: `application/problem+json` with the error's HTTP status
+ *
+ * 5xx and streamed responses are never cached.
+ *
+ * @example
+ *   await app.register(idempotencyPlugin, { engine });
+ */
+export const idempotencyPlugin = fp(plugin, {
+  name: "@idempotkit/fastify",
+  fastify: ">=5.0.0",
+});
+
+function toBuffer(payload: unknown): Buffer | undefined {
+  if (payload == null) return Buffer.alloc(0);
+  if (typeof payload === "string") return Buffer.from(payload);
+  if (Buffer.isBuffer(payload)) return payload;
+  return undefined; // stream – cannot be captured
+}
+
+function replay(reply: FastifyReply, response: CapturedResponse) {
+  return reply
+    .code(response.statusCode)
+    .headers(response.headers)
+    .header("Idempotent-Replayed", "true")
+    .send(Buffer.from(response.body, "base64"));
+}
+
+function sendProblem(reply: FastifyReply, err: IdempotencyError) {
+  return reply
+    .code(err.status)
+    .headers(problemHeaders(err))
+    .header("Content-Type", PROBLEM_CONTENT_TYPE)
+    .send(JSON.stringify(toProblemDetails(err)));
+}